@@ -1,5 +1,5 @@
 //@ts-check
-import { binary_search_disable } from './subcommands/binary';
+import { binary_search_disable, isPartitionBalance, isPartitionUnit, type PartitionBalance, type PartitionUnit } from './subcommands/binary';
 import {
     enable_all_mods,
     disable_all_mods,
@@ -9,10 +9,10 @@ import {
     are_all_mods_unlocked,
     filter_for_faulty_dependencies,
 } from './utils/mods';
-import { annotate } from './subcommands/annotate';
+import { annotate, isDuplicateResolution, type duplicate_resolution } from './subcommands/annotate';
 import { disable_atomic_deep, enable_atomic_deep, list_mods, list_mods_folder, list_mods_wide, toggle_mod } from './subcommands/simple';
 import { visualize_graph } from './subcommands/graph';
-import { check_all_mods_for_updates, undo_last_update } from './subcommands/update';
+import { check_all_mods_for_updates } from './subcommands/update';
 import {
     list_all_versions_for_mod,
     restore_to_asset_versions,
@@ -20,21 +20,81 @@ import {
     switch_version_of_mod,
     verify_and_refresh_source_links,
 } from './subcommands/version';
-import { build_bootstrap, build_version_for_diff, bundle_pack_into_starter, initialize_packaging } from './subcommands/package';
+import {
+    build_bootstrap,
+    build_version_for_diff,
+    bundle_pack_into_starter,
+    generate_packaging_key,
+    initialize_packaging,
+    simulate_update,
+    verify_packaging,
+} from './subcommands/package';
 import { package_image } from './subcommands/image';
-import { assert_config_exists, CI_INTEGRATION } from './utils/config';
+import { assert_config_exists, CI_INTEGRATION, RENAME_BATCH_FILE } from './utils/config';
 import { init_config } from './subcommands/init';
 import { apply_github_pr, pr_gate } from './subcommands/pr';
 import { set_debug_enabled } from './utils/log';
+import { add_mod_from_url } from './subcommands/add';
+import { remove_mod } from './subcommands/remove';
+import { audit_orphans } from './subcommands/audit';
+import { bisect_mark, bisect_reset, bisect_start, bisect_status } from './subcommands/bisect';
+import { profile_diff, profile_list, profile_load, profile_save } from './subcommands/profile';
+import { print_history, redo_operations, undo_operations } from './subcommands/history';
+import { begin_journal_entry, commit_journal_entry } from './utils/journal';
+import { repair_mods } from './subcommands/repair';
+import { check_dependency_ranges } from './subcommands/check';
+import { with_rename_batch } from './utils/fs';
+import { parse_selector_args, type selector_node } from './utils/selector';
+import { tag_add, tag_list, tag_remove } from './subcommands/tag';
+import { set_mod_fields } from './subcommands/set';
+import { migrate_annotated_mods } from './subcommands/migrate';
 
 //#region Command Framework
 interface CommandDefinition {
     description: string;
     usage?: string;
     is_subcommand?: boolean;
+    // Record the changes of this command in the journal, so they can be undone. Can depend on the arguments, for read-only modes
+    journaled?: boolean | ((args: string[]) => boolean);
     handler: (args: string[]) => Promise<void>;
 }
 
+function parse_partition_options(args: string[]): { fractions: string[]; unit: PartitionUnit; balance: PartitionBalance } | undefined {
+    const fractions: string[] = [];
+    let unit: PartitionUnit = 'closure';
+    let balance: PartitionBalance = 'count';
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === '--by') {
+            const value = args[++i];
+            if (!isPartitionUnit(value)) {
+                console.error('Error: Invalid partition unit. Must be one of: closure, component');
+                return undefined;
+            }
+            unit = value;
+        } else if (args[i] === '--balance') {
+            const value = args[++i];
+            if (!isPartitionBalance(value)) {
+                console.error('Error: Invalid balance. Must be one of: count, size');
+                return undefined;
+            }
+            balance = value;
+        } else {
+            fractions.push(args[i] as string);
+        }
+    }
+    return { fractions, unit, balance };
+}
+
+function parse_journal_count(arg: string | undefined): number | undefined {
+    if (arg == undefined) return 1;
+    const count = Number(arg);
+    if (!Number.isInteger(count) || count < 1) {
+        console.error('Error: Count must be a positive whole number');
+        return undefined;
+    }
+    return count;
+}
+
 const commands: Record<string, CommandDefinition> = {
     init: {
         description: 'Initialize packscripts by setting up configuration',
@@ -44,15 +104,24 @@ const commands: Record<string, CommandDefinition> = {
     },
     refresh: {
         description: 'Update annotated mod list',
-        usage: 'refresh [--skip_new] [--remove_nonexistent] [--remove_untagged <tag>]... [--toggle_tag <tag>]...',
+        journaled: true,
+        usage: 'refresh [--skip_new] [--remove_nonexistent] [--remove_untagged <tag>]... [--toggle_tag <tag>]... [--resolve <newest|oldest|interactive>] [--delete_duplicates] [--no_cache]',
         handler: async (args) => {
             const remove_untagged: string[] = [];
             const toggle_tag: string[] = [];
+            let resolve_duplicates: duplicate_resolution | undefined;
             for (let i = 0; i < args.length; i++) {
                 if (args[i] === '--remove_untagged' && args[i + 1] != null) {
                     remove_untagged.push(args[++i] as string);
                 } else if (args[i] === '--toggle_tag' && args[i + 1] != null) {
                     toggle_tag.push(args[++i] as string);
+                } else if (args[i] === '--resolve') {
+                    const mode = args[++i];
+                    if (!isDuplicateResolution(mode)) {
+                        console.error('Error: Invalid resolve mode. Must be one of: newest, oldest, interactive');
+                        return;
+                    }
+                    resolve_duplicates = mode;
                 }
             }
 
@@ -61,44 +130,148 @@ const commands: Record<string, CommandDefinition> = {
                 remove_nonexistent: args.includes('--remove_nonexistent'),
                 remove_untagged: remove_untagged.length > 0 ? remove_untagged : undefined,
                 toggle_tag: toggle_tag.length > 0 ? toggle_tag : undefined,
+                resolve_duplicates: resolve_duplicates,
+                delete_duplicates: args.includes('--delete_duplicates'),
+                no_cache: args.includes('--no_cache'),
             });
             console.log('Mod list refreshed successfully!');
         },
     },
     list: {
         description: 'List all indexed mods',
-        usage: 'list [--files] [--enabled] [--wide]',
+        usage: 'list [--files] [--enabled] [--wide] [selector...]',
         handler: async (args) => {
+            const selector_args = args.filter((arg) => !arg.startsWith('--'));
+            const selector = selector_args.length > 0 ? parse_selector_args(selector_args) : undefined;
+            if (selector_args.length > 0 && selector == undefined) return;
+
             if (args.includes('--files')) {
                 await list_mods_folder(args.includes('--enabled'));
                 return;
             } else if (args.includes('--wide')) {
-                await list_mods_wide(args.includes('--enabled'));
+                await list_mods_wide(args.includes('--enabled'), selector);
             } else {
-                await list_mods();
+                await list_mods(selector);
             }
         },
     },
     binary: {
         description: 'Perform a deep-disable for a binary section',
-        usage: 'binary <fraction> [fraction2...]',
+        journaled: true,
+        usage: 'binary <fraction> [fraction2...] [--by <closure|component>] [--balance <count|size>]',
         handler: async (args) => {
-            if (args.length === 0) {
+            const partition_options = parse_partition_options(args);
+            if (partition_options == undefined) return;
+            if (partition_options.fractions.length === 0) {
                 console.error('Error: Missing target fraction(s), e.g. [1/4]');
                 return;
             }
-            await binary_search_disable(args, false);
+            await binary_search_disable(partition_options.fractions, false, partition_options);
         },
     },
     binary_dry: {
         description: 'List the mods that would be disabled with the target fraction',
-        usage: 'binary_dry <fraction>',
+        usage: 'binary_dry <fraction> [--by <closure|component>] [--balance <count|size>]',
         handler: async (args) => {
-            if (args.length === 0) {
+            const partition_options = parse_partition_options(args);
+            if (partition_options == undefined) return;
+            if (partition_options.fractions.length === 0) {
                 console.error('Error: Missing target fraction, e.g. [1/4]');
                 return;
             }
-            await binary_search_disable(args, true);
+            await binary_search_disable(partition_options.fractions, true, partition_options);
+        },
+    },
+    bisect: {
+        description: 'Find the mod causing a problem, by automatically enabling halves of your mods and asking if the problem still happens',
+        usage: 'bisect <start|good|bad|status|reset>',
+        handler: async (args) => {
+            const mode = args[0]?.toLowerCase();
+            const cmd_args = args.slice(1);
+
+            if (!mode || mode === 'help' || mode === '--help' || mode === '-h') {
+                console.log(commands['bisect']?.usage);
+                return;
+            }
+
+            const command = commands['bisect_' + mode];
+            if (command) {
+                await command.handler(cmd_args);
+            } else {
+                console.error(`Error: Unknown subcommand '${mode}'`);
+                console.log(commands['bisect']?.usage);
+                process.exit(1);
+            }
+        },
+    },
+    bisect_start: {
+        description: 'Start a bisect session over all enabled mods, assuming the problem currently happens',
+        journaled: true,
+        usage: 'bisect start',
+        is_subcommand: true,
+        handler: async (args) => {
+            if (args.includes('--help') || args.includes('-h')) {
+                console.log(commands['bisect_start']?.usage);
+                return;
+            }
+            await bisect_start();
+        },
+    },
+    bisect_good: {
+        description: "Mark the current step as good (the problem didn't happen), and move on to the next one",
+        journaled: true,
+        usage: 'bisect good',
+        is_subcommand: true,
+        handler: async (args) => {
+            if (args.includes('--help') || args.includes('-h')) {
+                console.log(commands['bisect_good']?.usage);
+                return;
+            }
+            await bisect_mark(false);
+        },
+    },
+    bisect_bad: {
+        description: 'Mark the current step as bad (the problem still happened), and move on to the next one',
+        journaled: true,
+        usage: 'bisect bad',
+        is_subcommand: true,
+        handler: async (args) => {
+            if (args.includes('--help') || args.includes('-h')) {
+                console.log(commands['bisect_bad']?.usage);
+                return;
+            }
+            await bisect_mark(true);
+        },
+    },
+    bisect_status: {
+        description: 'Show the progress of the current bisect session',
+        usage: 'bisect status',
+        is_subcommand: true,
+        handler: async (args) => {
+            if (args.includes('--help') || args.includes('-h')) {
+                console.log(commands['bisect_status']?.usage);
+                return;
+            }
+            await bisect_status();
+        },
+    },
+    bisect_reset: {
+        description: 'Stop the current bisect session and restore the previously enabled mods',
+        journaled: true,
+        usage: 'bisect reset',
+        is_subcommand: true,
+        handler: async (args) => {
+            if (args.includes('--help') || args.includes('-h')) {
+                console.log(commands['bisect_reset']?.usage);
+                return;
+            }
+            await bisect_reset();
+        },
+    },
+    check: {
+        description: 'Report installed dependencies whose version is outside of the range their dependents need',
+        handler: async () => {
+            await check_dependency_ranges();
         },
     },
     graph: {
@@ -109,6 +282,7 @@ const commands: Record<string, CommandDefinition> = {
     },
     toggle: {
         description: 'Toggle a specific mod by its ID',
+        journaled: true,
         usage: 'toggle <mod_id>',
         handler: async (args) => {
             if (args.length === 0) {
@@ -124,49 +298,316 @@ const commands: Record<string, CommandDefinition> = {
     },
     enable_all: {
         description: 'Enable all mods',
+        journaled: true,
         handler: async () => {
             await enable_all_mods();
         },
     },
     disable_all: {
         description: 'Disable all mods',
+        journaled: true,
         handler: async () => {
             await disable_all_mods();
         },
     },
     enable: {
-        description: 'Deep-enable specific mod(s) by ID',
-        usage: 'enable <mod_id> [mod_id2...]',
+        description: 'Deep-enable the mods matching a selector, like specific mod ids or "tag:SIDE.CLIENT and not source:OTHER"',
+        journaled: true,
+        usage: 'enable <selector...> [--with_optional] [--disable_conflicting]',
         handler: async (args) => {
-            if (args.length === 0) {
-                console.error('Error: Missing mod ID(s) to enable');
+            const selector_args = args.filter((arg) => !arg.startsWith('--'));
+            if (selector_args.length === 0) {
+                console.error('Error: Missing mod IDs or selector to enable');
                 return;
             }
             if (!(await are_all_mods_unlocked())) {
                 console.warn('W: Something is locking a file in the mods directory. Is the game still running?');
                 return;
             }
-            await enable_atomic_deep(args);
+            const selector = parse_selector_args(selector_args);
+            if (selector == undefined) return;
+            await enable_atomic_deep(selector, undefined, {
+                with_optional: args.includes('--with_optional'),
+                disable_conflicting: args.includes('--disable_conflicting'),
+            });
         },
     },
     disable: {
-        description: 'Deep-disable specific mod(s) by ID',
-        usage: 'disable <mod_id> [mod_id2...]',
+        description: 'Deep-disable the mods matching a selector, like specific mod ids or "tag:SIDE.CLIENT and not source:OTHER"',
+        journaled: true,
+        usage: 'disable <selector...> [--with_optional]',
         handler: async (args) => {
-            if (args.length === 0) {
-                console.error('Error: Missing mod ID(s) to disable');
+            const selector_args = args.filter((arg) => !arg.startsWith('--'));
+            if (selector_args.length === 0) {
+                console.error('Error: Missing mod IDs or selector to disable');
                 return;
             }
             if (!(await are_all_mods_unlocked())) {
                 console.warn('W: Something is locking a file in the mods directory. Is the game still running?');
                 return;
             }
-            await disable_atomic_deep(args);
+            const selector = parse_selector_args(selector_args);
+            if (selector == undefined) return;
+            await disable_atomic_deep(selector, undefined, args.includes('--with_optional'));
+        },
+    },
+    add: {
+        description: 'Download a new mod from a url and start tracking it, offering to add its missing dependencies',
+        journaled: true,
+        usage: 'add <url> [--no_deps]',
+        handler: async (args) => {
+            const url = args.find((arg) => !arg.startsWith('--'));
+            if (url == undefined) {
+                console.error('Error: Missing url of the mod to add');
+                return;
+            }
+            if (!URL.canParse(url)) {
+                console.error('Error: Invalid url', url);
+                return;
+            }
+            await add_mod_from_url(url, { skip_deps: args.includes('--no_deps') });
+        },
+    },
+    remove: {
+        description: 'Delete a mod and its entry, and remove it from the dependencies of other mods. With --cascade, offers to remove the libraries it leaves unwanted.',
+        journaled: true,
+        usage: 'remove <mod_id> [--cascade]',
+        handler: async (args) => {
+            const mod_id = args.find((arg) => !arg.startsWith('--'));
+            if (mod_id == undefined) {
+                console.error('Error: Missing mod ID to remove');
+                return;
+            }
+            await remove_mod(mod_id, { cascade: args.includes('--cascade') });
+        },
+    },
+    audit: {
+        description: 'Look through the mod list for possible problems',
+        usage: 'audit <orphans>',
+        handler: async (args) => {
+            const mode = args[0]?.toLowerCase();
+            const cmd_args = args.slice(1);
+
+            if (!mode || mode === 'help' || mode === '--help' || mode === '-h') {
+                console.log(commands['audit']?.usage);
+                return;
+            }
+
+            const command = commands['audit_' + mode];
+            if (command) {
+                await command.handler(cmd_args);
+            } else {
+                console.error(`Error: Unknown subcommand '${mode}'`);
+                console.log(commands['audit']?.usage);
+                process.exit(1);
+            }
+        },
+    },
+    audit_orphans: {
+        description: 'List mods that nothing wants and look like libraries. Can tag them, or disable a fraction of them to test without',
+        journaled: (args) => args.includes('--tag') || args.includes('--test'),
+        usage: 'audit orphans [--tag <tag>] [--test <fraction>]',
+        is_subcommand: true,
+        handler: async (args) => {
+            if (args.includes('--help')) {
+                console.log(commands['audit_orphans']?.usage);
+                return;
+            }
+
+            let tag: string | undefined;
+            let test_fraction: string | undefined;
+            for (let i = 0; i < args.length; i++) {
+                if (args[i] === '--tag' && args[i + 1] != undefined) {
+                    tag = args[++i];
+                } else if (args[i] === '--test' && args[i + 1] != undefined) {
+                    test_fraction = args[++i];
+                }
+            }
+            await audit_orphans({ tag, test_fraction });
+        },
+    },
+    profile: {
+        description: 'Save and load named sets of enabled mods',
+        usage: 'profile <save|load|diff|list> <name>',
+        handler: async (args) => {
+            const mode = args[0]?.toLowerCase();
+            const cmd_args = args.slice(1);
+
+            if (!mode || mode === 'help' || mode === '--help' || mode === '-h') {
+                console.log(commands['profile']?.usage);
+                return;
+            }
+
+            const command = commands['profile_' + mode];
+            if (command) {
+                await command.handler(cmd_args);
+            } else {
+                console.error(`Error: Unknown subcommand '${mode}'`);
+                console.log(commands['profile']?.usage);
+                process.exit(1);
+            }
+        },
+    },
+    profile_save: {
+        description: 'Save the currently enabled mods as a profile, or save a profile that enables all mods matching the given tags',
+        usage: 'profile save <name> [--tag <tag>]... [--exclude_tag <tag>]...',
+        is_subcommand: true,
+        handler: async (args) => {
+            if (args.includes('--help') || args.includes('-h')) {
+                console.log(commands['profile_save']?.usage);
+                return;
+            }
+
+            const include_tags: string[] = [];
+            const exclude_tags: string[] = [];
+            const positional: string[] = [];
+            for (let i = 0; i < args.length; i++) {
+                if (args[i] === '--tag' && args[i + 1] != undefined) {
+                    include_tags.push(args[++i] as string);
+                } else if (args[i] === '--exclude_tag' && args[i + 1] != undefined) {
+                    exclude_tags.push(args[++i] as string);
+                } else {
+                    positional.push(args[i] as string);
+                }
+            }
+            if (positional[0] == undefined) {
+                console.error('Error: Missing profile name');
+                return;
+            }
+            await profile_save(positional[0], { include_tags, exclude_tags });
+        },
+    },
+    profile_load: {
+        description: 'Enable the mods of a profile with their dependencies, and disable all others',
+        journaled: true,
+        usage: 'profile load <name>',
+        is_subcommand: true,
+        handler: async (args) => {
+            if (args.includes('--help') || args.includes('-h')) {
+                console.log(commands['profile_load']?.usage);
+                return;
+            }
+            if (args[0] == undefined) {
+                console.error('Error: Missing profile name');
+                return;
+            }
+            await profile_load(args[0]);
+        },
+    },
+    profile_diff: {
+        description: 'Show which mods would be enabled or disabled when loading a profile',
+        usage: 'profile diff <name>',
+        is_subcommand: true,
+        handler: async (args) => {
+            if (args.includes('--help') || args.includes('-h')) {
+                console.log(commands['profile_diff']?.usage);
+                return;
+            }
+            if (args[0] == undefined) {
+                console.error('Error: Missing profile name');
+                return;
+            }
+            await profile_diff(args[0]);
+        },
+    },
+    profile_list: {
+        description: 'List all saved profiles',
+        usage: 'profile list',
+        is_subcommand: true,
+        handler: async () => {
+            await profile_list();
+        },
+    },
+    tag: {
+        description: 'Add or remove a tag on all mods matching a selector, or list tagged mods',
+        usage: 'tag <add|remove|list> <tag> <selector...>',
+        handler: async (args) => {
+            const mode = args[0]?.toLowerCase();
+            const cmd_args = args.slice(1);
+
+            if (!mode || mode === 'help' || mode === '--help' || mode === '-h') {
+                console.log(commands['tag']?.usage);
+                return;
+            }
+
+            const command = commands['tag_' + mode];
+            if (command) {
+                await command.handler(cmd_args);
+            } else {
+                console.error(`Error: Unknown subcommand '${mode}'`);
+                console.log(commands['tag']?.usage);
+                process.exit(1);
+            }
+        },
+    },
+    tag_add: {
+        description: 'Add a tag to all mods matching a selector',
+        journaled: true,
+        usage: 'tag add <tag> <selector...>',
+        is_subcommand: true,
+        handler: async (args) => {
+            if (args.includes('--help') || args.includes('-h')) {
+                console.log(commands['tag_add']?.usage);
+                return;
+            }
+            if (args[0] == undefined || args.length < 2) {
+                console.error('Error: Missing tag or selector');
+                return;
+            }
+            const selector = parse_selector_args(args.slice(1));
+            if (selector == undefined) return;
+            await tag_add(args[0], selector);
+        },
+    },
+    tag_remove: {
+        description: 'Remove a tag from all mods matching a selector',
+        journaled: true,
+        usage: 'tag remove <tag> <selector...>',
+        is_subcommand: true,
+        handler: async (args) => {
+            if (args.includes('--help') || args.includes('-h')) {
+                console.log(commands['tag_remove']?.usage);
+                return;
+            }
+            if (args[0] == undefined || args.length < 2) {
+                console.error('Error: Missing tag or selector');
+                return;
+            }
+            const selector = parse_selector_args(args.slice(1));
+            if (selector == undefined) return;
+            await tag_remove(args[0], selector);
+        },
+    },
+    tag_list: {
+        description: 'List the mods with a tag, or all tags with how many mods have them',
+        usage: 'tag list [tag] [selector...]',
+        is_subcommand: true,
+        handler: async (args) => {
+            if (args.includes('--help') || args.includes('-h')) {
+                console.log(commands['tag_list']?.usage);
+                return;
+            }
+            const selector = args.length > 1 ? parse_selector_args(args.slice(1)) : undefined;
+            if (args.length > 1 && selector == undefined) return;
+            await tag_list(args[0], selector);
+        },
+    },
+    set: {
+        description: 'Set hand-written annotations of a mod, like its notes, update frequency or incompatible mods',
+        journaled: true,
+        usage: 'set <mod_id> <notes|source|frequency|disable_check|file_pattern|incompatible_with>=<value>...',
+        handler: async (args) => {
+            if (args[0] == undefined || args.length < 2) {
+                console.error('Error: Missing mod ID or <field>=<value>');
+                return;
+            }
+            await set_mod_fields(args[0], args.slice(1));
         },
     },
     update: {
         description: 'Check for mod updates down to a given frequency',
-        usage: 'update <COMMON|RARE|EOL> [--retry] [--upgrade] [--downgrade]',
+        journaled: (args) => args.includes('--upgrade'),
+        usage: 'update <COMMON|RARE|EOL> [selector...] [--retry] [--upgrade] [--downgrade]',
         handler: async (args) => {
             let frequency: update_frequency = 'COMMON';
             const freq_provided = args.length > 0 && !args[0]?.startsWith('--');
@@ -176,33 +617,58 @@ const commands: Record<string, CommandDefinition> = {
             } else if (freq_provided && isUpdateFrequency(args[0])) {
                 frequency = args[0];
             }
+            const selector_args = args.slice(freq_provided ? 1 : 0).filter((arg) => !arg.startsWith('--'));
+            const selector = selector_args.length > 0 ? parse_selector_args(selector_args) : undefined;
+            if (selector_args.length > 0 && selector == undefined) return;
+
             console.log('Checking mods for updates...');
             await check_all_mods_for_updates(
                 {
                     frequency_range: frequency,
                     retry_failed: args.includes('--retry'),
                     force_downgrade: args.includes('--downgrade'),
+                    selector: selector,
                 },
                 !args.includes('--upgrade'),
             );
         },
     },
     undo: {
-        description: 'Undo certain previously run commands',
-        usage: 'undo <UPGRADE>',
+        description: 'Undo the last operations that changed mods or the annotated mods',
+        usage: 'undo [count]',
         handler: async (args) => {
-            if (args.length === 0) {
-                console.error('Error: Missing action to undo');
-                return;
-            }
-            const mode = args[0]?.toLowerCase();
-            if (mode != undefined) {
-                if (mode.toLowerCase() === 'upgrade') {
-                    await undo_last_update();
-                    return;
-                }
-            }
-            console.error('Mode', mode, 'did not match any known modes.');
+            const count = parse_journal_count(args[0]);
+            if (count == undefined) return;
+            await undo_operations(count);
+        },
+    },
+    redo: {
+        description: 'Redo operations that were undone',
+        usage: 'redo [count]',
+        handler: async (args) => {
+            const count = parse_journal_count(args[0]);
+            if (count == undefined) return;
+            await redo_operations(count);
+        },
+    },
+    repair: {
+        description: 'Recover from an interrupted command, by moving back half-renamed mods and matching the annotated mods to the files on disk',
+        handler: async () => {
+            await repair_mods();
+        },
+    },
+    migrate: {
+        description: 'Upgrade the annotated mods file to the current schema version, and write its JSON Schema next to it',
+        journaled: (args) => !args.includes('--dry'),
+        usage: 'migrate [--dry]',
+        handler: async (args) => {
+            await migrate_annotated_mods({ dry: args.includes('--dry') });
+        },
+    },
+    history: {
+        description: 'List the recorded operations that can be undone or redone',
+        handler: async () => {
+            await print_history();
         },
     },
     version: {
@@ -257,6 +723,7 @@ const commands: Record<string, CommandDefinition> = {
     },
     version_set: {
         description: 'Switch an already indexed mod to a specified version, from its remote release',
+        journaled: (args) => !args.includes('--dry'),
         usage: 'version set <mod_id> <version> [--dry]',
         is_subcommand: true,
         handler: async (args) => {
@@ -287,6 +754,7 @@ const commands: Record<string, CommandDefinition> = {
     version_restore_all: {
         description:
             'Restore all mods, which can be downloaded from a remote asset, to that remote asset if it differs from the currently stored file.\n\t\t\tWill redownload if the file on disk is missing, renamed or has a different size',
+        journaled: (args) => !args.includes('--dry'),
         usage: 'version restore_all [--dry]',
         is_subcommand: true,
         handler: async (args) => {
@@ -301,6 +769,7 @@ const commands: Record<string, CommandDefinition> = {
     },
     version_verify_links: {
         description: 'Verify all mods source links against their version and update it if the local version is newer.',
+        journaled: (args) => !args.includes('--dry'),
         usage: 'version verify_links [--dry]',
         is_subcommand: true,
         handler: async (args) => {
@@ -314,6 +783,7 @@ const commands: Record<string, CommandDefinition> = {
     },
     version_switch_indev: {
         description: 'Switch a mod to an in-development build fetched from a GitHub Actions artifact',
+        journaled: (args) => !args.includes('--dry'),
         usage: 'version switch_indev <source_url> [--dry] [--build_job <job name>] [--artifact_name <part of artifact name>] [--allow_failed_workflows]',
         is_subcommand: true,
         handler: async (args) => {
@@ -347,7 +817,7 @@ const commands: Record<string, CommandDefinition> = {
     },
     package: {
         description: 'Package your modpack into prism zips & provide them with updates via unsup',
-        usage: 'package <init|build|bundle|bootstrap|image>',
+        usage: 'package <init|build|bundle|bootstrap|image|keygen|verify|simulate>',
         handler: async (args) => {
             const mode = args[0]?.toLowerCase();
             const cmd_args = args.slice(1);
@@ -457,9 +927,67 @@ const commands: Record<string, CommandDefinition> = {
             return;
         },
     },
+    package_keygen: {
+        description: 'Create the key that signs the unsup manifests, embed its public key in the unsup.ini of every pack variant and sign the existing manifests.',
+        usage: 'package keygen [--overwrite]',
+        is_subcommand: true,
+        handler: async (args) => {
+            if (args.includes('--help') || args.includes('-h')) {
+                console.log(commands['package_keygen']?.usage);
+                return;
+            }
+
+            await generate_packaging_key(args.includes('--overwrite'));
+            return;
+        },
+    },
+    package_verify: {
+        description:
+            'Check the signatures of all unsup manifests, and replay them against the git history they were built from. Exits with 1 if anything does not match.',
+        usage: 'package verify [--variant variant] [--skip_signatures]',
+        is_subcommand: true,
+        handler: async (args) => {
+            if (args.includes('--help') || args.includes('-h')) {
+                console.log(commands['package_verify']?.usage);
+                return;
+            }
+
+            const variant_index = args.indexOf('--variant');
+            await verify_packaging({
+                target_variant: variant_index != -1 ? args[variant_index + 1] : undefined,
+                skip_signatures: args.includes('--skip_signatures'),
+            });
+            return;
+        },
+    },
+    package_simulate: {
+        description:
+            'Install a version of the pack into a temporary directory from its manifests, update it to another version like unsup does with files served from a local server, and compare the result to the git tree of that version.',
+        usage: 'package simulate <from version> <to version> [--variant variant] [--keep]',
+        is_subcommand: true,
+        handler: async (args) => {
+            if (args.includes('--help') || args.includes('-h')) {
+                console.log(commands['package_simulate']?.usage);
+                return;
+            }
+
+            let variant: string | undefined;
+            const positional: string[] = [];
+            for (let i = 0; i < args.length; i++) {
+                if (args[i] === '--variant') {
+                    variant = args[++i];
+                } else if (!args[i]?.startsWith('-')) {
+                    positional.push(args[i] as string);
+                }
+            }
+
+            await simulate_update(positional[0], positional[1], { target_variant: variant, keep: args.includes('--keep') });
+            return;
+        },
+    },
     package_image: {
         description: 'Build a Docker layer plan from mod change frequency and populate a staging directory.',
-        usage: 'package image <target_dockerfile> <mods path in image> [--include_tag <tag>]... [--exclude_tag <tag>]... [--dry]',
+        usage: 'package image <target_dockerfile> <mods path in image> [--include_tag <tag>]... [--exclude_tag <tag>]... [--select <selector>] [--dry]',
         is_subcommand: true,
         handler: async (args) => {
             if (args.includes('--help') || args.includes('-h')) {
@@ -469,6 +997,7 @@ const commands: Record<string, CommandDefinition> = {
 
             const include_tags: string[] = [];
             const exclude_tags: string[] = [];
+            let selector: selector_node | undefined = undefined;
             let size_multiplier: number | undefined = undefined;
             let freq_multiplier: number | undefined = undefined;
             const positional: string[] = [];
@@ -478,6 +1007,9 @@ const commands: Record<string, CommandDefinition> = {
                     include_tags.push(args[i + 1] as string);
                 } else if (arg === '--exclude_tag' && args[i + 1] != undefined) {
                     exclude_tags.push(args[i + 1] as string);
+                } else if (arg === '--select' && args[i + 1] != undefined) {
+                    selector = parse_selector_args([args[++i] as string]);
+                    if (selector == undefined) return;
                 } else if (arg === '--mult_size' && args[i + 1] != undefined && !Number.isNaN(args[i + 1])) {
                     size_multiplier = Number(args[i + 1]);
                 } else if (arg === '--mult_freq' && args[i + 1] != undefined && !Number.isNaN(args[i + 1])) {
@@ -491,6 +1023,7 @@ const commands: Record<string, CommandDefinition> = {
                 dry: args.includes('--dry'),
                 exclude_tags: exclude_tags.length == 0 ? undefined : exclude_tags,
                 include_tags: include_tags.length == 0 ? undefined : include_tags,
+                selector: selector,
                 size_multiplier: size_multiplier,
                 frequency_multiplier: freq_multiplier,
             });
@@ -521,6 +1054,7 @@ const commands: Record<string, CommandDefinition> = {
     },
     pr_apply: {
         description: 'Fetch and apply a mod build artifact from a GitHub PR, recursively resolving cross-repo deps and merged-since-daily PRs',
+        journaled: (args) => !args.includes('--dry'),
         usage: 'pr apply <pr_url> [--dry] [--build_job <name>] [--artifact_name <part>] [--allow_failed_workflows] [--allow_external_owners] [--other_allowed_owner <owner>]... [--wait_timeout <seconds>] [--poll_interval <seconds>] [--debug]',
         is_subcommand: true,
         handler: async (args) => {
@@ -636,6 +1170,17 @@ function showHelp() {
 }
 
 //#region Entrypoint
+/**
+ * Whether an invocation can change mods and should be journaled. Commands with subcommands leave that to the subcommand.
+ */
+function is_journaled(name: string, args: string[]): boolean {
+    const sub_name = name + '_' + args[0]?.toLowerCase();
+    if (commands[sub_name]?.is_subcommand) return is_journaled(sub_name, args.slice(1));
+
+    const journaled = commands[name]?.journaled;
+    return typeof journaled === 'function' ? journaled(args) : journaled === true;
+}
+
 async function main() {
     const args = process.argv.slice(2);
     const mode = args[0]?.toLowerCase();
@@ -655,7 +1200,19 @@ async function main() {
 
     const command = commands[mode];
     if (command) {
-        await command.handler(cmd_args);
+        const journaled = is_journaled(mode, cmd_args);
+        if (journaled && (await Bun.file(RENAME_BATCH_FILE).exists())) {
+            console.warn("W: A previous command was interrupted while renaming mods. Run 'repair' first.");
+            process.exit(1);
+        }
+
+        const journal_entry = journaled ? await begin_journal_entry(args.join(' ')) : undefined;
+        try {
+            // Renames of journaled commands are rolled back together if one of them fails
+            await (journaled ? with_rename_batch(RENAME_BATCH_FILE, () => command.handler(cmd_args)) : command.handler(cmd_args));
+        } finally {
+            if (journal_entry != undefined) await commit_journal_entry(journal_entry);
+        }
     } else {
         console.error(`Error: Unknown command '${mode}'`);
         showHelp();
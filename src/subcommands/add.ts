@@ -0,0 +1,184 @@
+import { ANNOTATED_FILE, DOWNLOAD_TEMP_DIR, GITHUB_API_KEY, MOD_BASE_DIR } from '../utils/config';
+import { print_gh_ratelimits } from '../utils/fetch';
+import { rename_file } from '../utils/fs';
+import { are_all_mods_unlocked, default_mod_object, parse_mod_details, read_saved_mods, write_saved_mods, type mod_object, type SourceType } from '../utils/mods';
+import { side_to_tags } from '../utils/metadata';
+import { get_source_provider, get_source_type_of_url, pick_release_asset } from '../utils/providers';
+import { CLIColor, clone } from '../utils/utils';
+import { find_unmet_wants, getModDeep, trace_deps } from './annotate';
+import { confirm, input } from '@inquirer/prompts';
+import { mkdir } from 'node:fs/promises';
+import { toNamespacedPath } from 'node:path';
+
+//#region add
+/**
+ * Download a mod from a url, and start tracking it in the annotated mods.
+ * Links to a project resolve to its latest release, links to a .jar are downloaded as-is.
+ * @returns The id the new mod is tracked under, if it was added
+ */
+export async function add_mod_from_url(
+    url: string,
+    options: {
+        skip_deps: boolean;
+    },
+    mod_map?: Map<string, mod_object>,
+): Promise<string | undefined> {
+    if (!(await are_all_mods_unlocked())) {
+        console.warn('W: Something is locking a file in the mods directory. Is the game still running?');
+        return;
+    }
+
+    mod_map = mod_map ?? (await read_saved_mods(ANNOTATED_FILE));
+    const source_type = get_source_type_of_url(url);
+    const provider = get_source_provider(source_type);
+
+    // Figure out which file to download, and what to remember as its source
+    let download_url = url;
+    let file_name = decodeURIComponent(new URL(url).pathname.split('/').pop() ?? '');
+    let release_version: string | undefined;
+    if (!file_name.endsWith('.jar')) {
+        if (!provider.is_available()) {
+            console.warn(`W: Can't look up releases for ${url}, it is either not a known source or is missing its API key.`);
+            return;
+        }
+        const { status, release } = await provider.latest_release(url);
+        const asset = release != undefined ? pick_release_asset(release) : undefined;
+        if (status !== '200' || release == undefined || asset == undefined) {
+            console.warn(`W: Failed to find a release with a single fitting asset for ${url} (status ${status}).`);
+            return;
+        }
+        download_url = asset.url;
+        file_name = asset.name;
+        release_version = release.version;
+    }
+
+    await mkdir(DOWNLOAD_TEMP_DIR, { recursive: true }).catch((err) => {
+        console.error(`Failed to create temporary download directory at ${toNamespacedPath(DOWNLOAD_TEMP_DIR)}`);
+        throw err;
+    });
+    const temp_path = `${DOWNLOAD_TEMP_DIR}/${file_name}`;
+    const res = await provider.download(download_url, DOWNLOAD_TEMP_DIR, file_name).catch((err) => {
+        console.warn(err);
+        return undefined;
+    });
+    if (res == undefined || !(await Bun.file(temp_path).exists())) {
+        console.warn(`W: Failed to download ${file_name} from ${download_url}.`);
+        return;
+    }
+
+    // Check the jar for its id, and make sure we don't already track it under any of its ids
+    const {
+        id: mod_id,
+        version: mod_version,
+        wants: mod_wants,
+        optional_wants: mod_optional_wants,
+        incompatible_with: mod_incompatible_with,
+        want_ranges: mod_want_ranges,
+        hash: mod_hash,
+        other_mod_ids: mod_other_ids,
+        side: mod_side,
+    } = await parse_mod_details(temp_path);
+    if (mod_id == undefined) {
+        console.warn(`W: Failed to get an id from ${file_name}, refusing to add it.`);
+        await Bun.file(temp_path).delete();
+        return;
+    }
+    const [colliding_id, colliding_mod] = [mod_id, ...(mod_other_ids ?? [])]
+        .map((id) => getModDeep(mod_map, id))
+        .find(([, mod_obj]) => mod_obj != undefined) ?? [undefined, undefined];
+    if (colliding_mod != undefined) {
+        console.warn(
+            `W: Mod ${mod_id} is already tracked as ${colliding_id} ${CLIColor.FgGray}(${CLIColor.FgGray18}${colliding_mod.file_path}${CLIColor.FgGray})${CLIColor.Reset}, refusing to add it. ` +
+                `Use "version set" to change its version instead.`,
+        );
+        await Bun.file(temp_path).delete();
+        return;
+    }
+    const mod_path = `${MOD_BASE_DIR}/${file_name}`;
+    if (await Bun.file(mod_path).exists()) {
+        console.warn(`W: A file named ${file_name} already exists in the mods directory, refusing to add it.`);
+        await Bun.file(temp_path).delete();
+        return;
+    }
+
+    await rename_file(temp_path, mod_path);
+
+    const new_mod_obj = clone(default_mod_object) as mod_object;
+    new_mod_obj.file_path = mod_path;
+    new_mod_obj.enabled = true;
+    new_mod_obj.source = provider.canonical_url(url) ?? url;
+    new_mod_obj.wants = mod_wants;
+    new_mod_obj.optional_wants = mod_optional_wants;
+    new_mod_obj.incompatible_with = mod_incompatible_with;
+    new_mod_obj.want_ranges = mod_want_ranges;
+    new_mod_obj.other_mod_ids = mod_other_ids || [];
+    if (mod_side != undefined) new_mod_obj.tags = side_to_tags(mod_side);
+    new_mod_obj.update_state.version = release_version ?? mod_version;
+    new_mod_obj.update_state.source_type = source_type;
+    new_mod_obj.update_state.frequency = source_type !== 'OTHER' ? 'COMMON' : default_mod_object.update_state.frequency;
+    new_mod_obj.update_state.sha256_sum = mod_hash;
+    new_mod_obj.update_state.last_updated_at = new Date(Date.now()).toISOString();
+    mod_map.set(mod_id, new_mod_obj);
+
+    trace_deps(mod_map);
+    await write_saved_mods(ANNOTATED_FILE, mod_map);
+
+    console.info(
+        `${CLIColor.FgGreen11}✔${CLIColor.Reset} Added mod ${CLIColor.BgBlue0}${CLIColor.FgWhite1}${CLIColor.Bright} ${mod_id} ${CLIColor.Reset} ` +
+            `with version ${CLIColor.BgBlue0}${CLIColor.FgWhite1}${CLIColor.Bright} ${new_mod_obj.update_state.version} ${CLIColor.Reset} ` +
+            `${CLIColor.FgGray}(${CLIColor.FgGray18}${file_name}${CLIColor.FgGray})${CLIColor.Reset}.`,
+    );
+
+    await resolve_unmet_wants(mod_id, source_type, options, mod_map);
+    await print_gh_ratelimits(GITHUB_API_KEY);
+    return mod_id;
+}
+
+/**
+ * Report the wants of a freshly added mod we don't have, and offer to add each one from the same source host.
+ * Hosts that can look projects up by their slug get asked for the mod id first, otherwise the url has to be entered by hand.
+ */
+async function resolve_unmet_wants(
+    mod_id: string,
+    source_type: SourceType,
+    options: { skip_deps: boolean },
+    mod_map: Map<string, mod_object>,
+) {
+    const unmet_wants = find_unmet_wants(mod_map, mod_id);
+    if (unmet_wants.length < 1) return;
+
+    console.warn(`W: Mod ${mod_id} wants mods that are not tracked: ${unmet_wants.join(', ')}`);
+    const provider = get_source_provider(source_type);
+    if (options.skip_deps || !provider.is_available()) return;
+
+    for (const dep_id of unmet_wants) {
+        // An earlier dependency might have brought this one along already
+        if (getModDeep(mod_map, dep_id)[1] != undefined) continue;
+        let dep_url: string | undefined = undefined;
+        const { url: project_url } = await provider.find_project(dep_id);
+        if (project_url != undefined && (await confirm({ message: `Add missing dependency ${dep_id} from ${project_url}?` }))) {
+            dep_url = project_url;
+        } else if (
+            await confirm({
+                message: project_url != undefined ? `Add ${dep_id} from a different ${provider.name} url?` : `Add missing dependency ${dep_id} from ${provider.name}?`,
+            })
+        ) {
+            const answer = await input({
+                message: `Enter the ${provider.name} url of ${dep_id} (leave empty to skip):`,
+                validate: (answer: string) => {
+                    if (!answer.trim()) return true;
+                    if (!URL.canParse(answer.trim())) return 'ERR: Not a valid url.';
+                    if (get_source_type_of_url(answer.trim()) !== source_type) return `ERR: Url is not on ${provider.name}.`;
+                    return true;
+                },
+            });
+            if (answer.trim()) dep_url = answer.trim();
+        }
+        if (dep_url == undefined) continue;
+
+        const added_id = await add_mod_from_url(dep_url, options, mod_map);
+        if (added_id != undefined && getModDeep(mod_map, dep_id)[1] == undefined) {
+            console.warn(`W: Added ${added_id}, but it does not provide ${dep_id}.`);
+        }
+    }
+}
@@ -1,24 +1,39 @@
 import { ANNOTATED_FILE, MOD_BASE_DIR } from '../utils/config';
-import { save_map_to_file, scan_mods_folder } from '../utils/fs';
+import { rename_file, scan_mods_folder } from '../utils/fs';
 import {
     are_all_mods_unlocked,
     default_mod_object,
     extract_modinfos,
+    find_enabled_conflicts,
     isModPropertySafe,
     read_saved_mods,
+    strip_edges,
+    write_saved_mods,
     type mod_object,
     type mod_object_unsafe,
     type SourceType,
 } from '../utils/mods';
-import { parse_gh_url } from '../utils/sources';
-import { clone } from '../utils/utils';
+import { get_source_provider } from '../utils/providers';
+import { matches_selector, tag_selector } from '../utils/selector';
+import { CLIColor, clone, compare_versions } from '../utils/utils';
+import { select } from '@inquirer/prompts';
 import { exists } from 'node:fs/promises';
 
+export type duplicate_resolution = 'newest' | 'oldest' | 'interactive';
+
 interface refesh_options {
     skip_new: boolean;
     remove_nonexistent: boolean;
     remove_untagged?: string[];
     toggle_tag?: string[];
+    resolve_duplicates?: duplicate_resolution;
+    delete_duplicates?: boolean;
+    // Parse every jar again, instead of reusing the results for unchanged ones
+    no_cache?: boolean;
+}
+
+export function isDuplicateResolution(val: any): val is duplicate_resolution {
+    return ['newest', 'oldest', 'interactive'].includes(val);
 }
 
 export async function annotate(options: refesh_options) {
@@ -37,10 +52,11 @@ export async function annotate(options: refesh_options) {
     const mod_files = await scan_mods_folder(MOD_BASE_DIR);
     const old_list = await read_saved_mods(ANNOTATED_FILE);
     console.info('Extracting more information from mods...');
-    const enriched_mods = await extract_modinfos(mod_files);
+    const enriched_mods = await extract_modinfos(mod_files, !options.no_cache);
 
     if (old_list != undefined && typeof old_list === 'object') {
-        await save_map_to_file(ANNOTATED_FILE, update_list(enriched_mods, old_list, options));
+        const deduped_mods = await handle_duplicate_mods(enriched_mods, old_list, options);
+        await write_saved_mods(ANNOTATED_FILE, update_list(deduped_mods, old_list, options));
     } else {
         console.error('Failed to read annotated mods from file.');
     }
@@ -63,6 +79,8 @@ export function update_list(files: Map<string, mod_object_unsafe>, mod_map: Map<
                 old_mod_obj.update_state.version = new_mod_obj.update_state.version;
             }
             old_mod_obj.update_state.sha256_sum = new_mod_obj.update_state.sha256_sum;
+            // Ranges belong to the jar, so they change along with it
+            old_mod_obj.want_ranges = new_mod_obj.want_ranges ?? {};
 
             // Add missing attributes, try from new obj, then from standard
             for (const key in default_mod_object) {
@@ -91,9 +109,16 @@ export function update_list(files: Map<string, mod_object_unsafe>, mod_map: Map<
             old_mod_obj.update_state.version = new_mod_obj.update_state.version;
             old_mod_obj.update_state.sha256_sum = new_mod_obj.update_state.sha256_sum;
             old_mod_obj.wants = new_mod_obj.wants;
+            old_mod_obj.optional_wants = new_mod_obj.optional_wants || [];
+            old_mod_obj.incompatible_with = new_mod_obj.incompatible_with || [];
+            old_mod_obj.want_ranges = new_mod_obj.want_ranges ?? {};
             old_mod_obj.other_mod_ids = new_mod_obj.other_mod_ids || [];
+            // Mods that declare their side only get that side's tag
+            if (new_mod_obj.tags != undefined) {
+                old_mod_obj.tags = Array.from(new_mod_obj.tags);
+            }
             if (options.toggle_tag != undefined) {
-                old_mod_obj.tags = Array.from(options.toggle_tag);
+                old_mod_obj.tags = [...(new_mod_obj.tags ?? []), ...options.toggle_tag];
             }
 
             mod_map.set(new_mod_obj.mod_id, old_mod_obj);
@@ -118,13 +143,7 @@ export function update_list(files: Map<string, mod_object_unsafe>, mod_map: Map<
         }
         if (options.remove_untagged != undefined) {
             for (const tag_start of options.remove_untagged) {
-                let has_tag = false;
-                for (const tag of mod.tags || []) {
-                    if (tag.startsWith(tag_start)) {
-                        has_tag = true;
-                    }
-                }
-                if (!has_tag) {
+                if (!matches_selector(tag_selector(tag_start + '*'), mod_id, mod)) {
                     console.info(`Mod ${mod_id} has no tags that start with ${tag_start}, removing from list.`)
                     to_remove.push(mod_id);
                 }
@@ -136,32 +155,140 @@ export function update_list(files: Map<string, mod_object_unsafe>, mod_map: Map<
     // Update list with backtraced deps
     trace_deps(mod_map);
 
+    // Only reported, since we can't know which side of a conflict is the one that should stay
+    for (const [a_id, b_id] of find_enabled_conflicts(mod_map)) {
+        console.warn(`W: Mods ${a_id} and ${b_id} are incompatible, but are both enabled.`);
+    }
+
     return mod_map;
 }
 
 function invalidate_direct_source_link(link: string | undefined, source_type: SourceType): string | undefined {
     if (link == undefined) return link;
 
-    switch (source_type) {
-        case 'GITHUB':
-            const url_match = parse_gh_url(link);
-            if (url_match != undefined) {
-                const { owner, project} = url_match;
-                if (owner && project) {
-                    return `https://github.com/${owner}/${project}`;
+    return get_source_provider(source_type).canonical_url(link) ?? link;
+}
+
+//#region duplicates
+interface duplicate_group {
+    mods: mod_object_unsafe[];
+    reasons: string[];
+}
+
+/**
+ * Group files that share a mod id (also via other_mod_ids) or the same hash.
+ * Groups overlapping through any of these get merged into one.
+ */
+export function find_duplicate_mods(files: Map<string, mod_object_unsafe>): duplicate_group[] {
+    const key_to_files: Map<string, string[]> = new Map();
+    for (const [file_path, mod] of files) {
+        const keys = [mod.mod_id, ...(mod.other_mod_ids ?? [])].map((mod_id) => `id "${mod_id.toLowerCase()}"`);
+        if (mod.update_state.sha256_sum) keys.push(`sha256 ${mod.update_state.sha256_sum}`);
+        for (const key of new Set(keys)) {
+            key_to_files.set(key, [...(key_to_files.get(key) ?? []), file_path]);
+        }
+    }
+
+    const groups: { paths: Set<string>; reasons: string[] }[] = [];
+    for (const [key, paths] of key_to_files) {
+        if (paths.length < 2) continue;
+        const merged = { paths: new Set(paths), reasons: [key] };
+        for (const group of groups.filter((entry) => paths.some((path) => entry.paths.has(path)))) {
+            group.paths.forEach((path) => merged.paths.add(path));
+            merged.reasons.push(...group.reasons);
+            groups.splice(groups.indexOf(group), 1);
+        }
+        groups.push(merged);
+    }
+
+    return groups.map((group) => ({ mods: Array.from(group.paths, (path) => files.get(path) as mod_object_unsafe), reasons: group.reasons }));
+}
+
+/**
+ * Report groups of duplicate mods, and resolve them if asked to.
+ * @returns The scanned files, without the ones that lost against their duplicates
+ */
+async function handle_duplicate_mods(files: Map<string, mod_object_unsafe>, mod_map: Map<string, mod_object>, options: refesh_options) {
+    const groups = find_duplicate_mods(files);
+    if (groups.length < 1) return files;
+
+    const remaining = new Map(files);
+    let reported = 0;
+    for (const group of groups) {
+        // Groups with at most one enabled file were already resolved before
+        const needs_resolving = group.mods.filter((mod) => mod.enabled).length > 1;
+        if (needs_resolving) {
+            if (reported++ == 0) console.warn('W: Found duplicate mods:');
+            console.log(`${CLIColor.FgGray}-${CLIColor.Reset} Sharing ${group.reasons.join(', ')}:`);
+            for (const mod of group.mods) {
+                console.log(
+                    `    ${CLIColor.BgTeal3}${CLIColor.FgWhite1}${CLIColor.Bright} ${mod.update_state.version ?? '?'} ${CLIColor.Reset} ${mod.mod_id} ` +
+                        `${CLIColor.FgGray}(${CLIColor.FgGray18}${mod.file_path}${CLIColor.FgGray})${CLIColor.Reset}${mod.enabled ? '' : ' [disabled]'}`,
+                );
+            }
+        }
+
+        const keep = needs_resolving && options.resolve_duplicates != undefined ? await pick_duplicate_to_keep(group, options.resolve_duplicates) : undefined;
+        if (keep == undefined) {
+            // Left as is, but files with the same id would overwrite each others entry, so only let the one we already track through
+            for (const mod of group.mods) {
+                const tracked_path = mod_map.get(mod.mod_id)?.file_path;
+                const same_id = group.mods.filter((entry) => entry.mod_id === mod.mod_id);
+                const winner = same_id.find((entry) => entry.file_path === tracked_path) ?? same_id.find((entry) => entry.enabled) ?? same_id[0];
+                if (winner != mod) remaining.delete(mod.file_path);
+            }
+            continue;
+        }
+
+        const keep_ids = [keep.mod_id, ...(keep.other_mod_ids ?? [])].map((mod_id) => mod_id.toLowerCase());
+        for (const loser of group.mods.filter((mod) => mod != keep)) {
+            remaining.delete(loser.file_path);
+            if (options.delete_duplicates) {
+                await Bun.file(loser.file_path).delete();
+                console.log('Deleted duplicate ', loser.file_path);
+                // Losers under their own id lose their entry along with the file, ids the kept mod also has stay wanted
+                if (loser.mod_id !== keep.mod_id) {
+                    mod_map.delete(loser.mod_id);
+                    if (!keep_ids.includes(loser.mod_id.toLowerCase())) strip_edges(mod_map, [loser.mod_id]);
                 }
+                continue;
             }
 
-            break;
-        case 'CURSEFORGE':
-            break;
-        case 'MODRINTH':
-            break;
-        default:
-            break;
+            if (loser.enabled && (await rename_file(loser.file_path, loser.file_path + '.disabled'))) {
+                console.log('Disabled duplicate ', loser.file_path);
+                loser.file_path += '.disabled';
+                loser.enabled = false;
+            }
+            // Losers under their own id keep their entry, just disabled
+            if (loser.mod_id !== keep.mod_id) remaining.set(loser.file_path, loser);
+        }
+    }
+    if (reported > 0 && options.resolve_duplicates == undefined) {
+        console.info(`Specify ${CLIColor.Bright}--resolve newest|oldest|interactive${CLIColor.Reset} to clean these up.`);
+    }
+
+    return remaining;
+}
+
+/**
+ * Pick the file to keep out of a group of duplicates. Versions decide first, then the modification time of the files.
+ * @returns undefined if all of them should be kept
+ */
+async function pick_duplicate_to_keep(group: duplicate_group, resolution: duplicate_resolution): Promise<mod_object_unsafe | undefined> {
+    if (resolution === 'interactive') {
+        return await select({
+            message: 'Which of these should be kept?',
+            choices: [
+                ...group.mods.map((mod) => ({ name: `${mod.update_state.version ?? '?'} (${mod.file_path})`, value: mod })),
+                { name: 'Keep all of them', value: undefined },
+            ],
+        });
     }
 
-    return link;
+    const sorted = [...group.mods].sort(
+        (a, b) => compare_versions(a.update_state.version ?? '', b.update_state.version ?? '') || Bun.file(a.file_path).lastModified - Bun.file(b.file_path).lastModified,
+    );
+    return resolution === 'newest' ? sorted.at(-1) : sorted[0];
 }
 
 interface str_obj {
@@ -200,7 +327,7 @@ function set_new_or_default_property(
 }
 
 /**
- * Figure out what mods a mod is wanted by
+ * Figure out what mods a mod is wanted by, and optionally wanted by
  * Will log probable deps, and set non-bidirectional deps
  */
 export function trace_deps(mod_list: Map<string, mod_object>) {
@@ -242,14 +369,45 @@ export function trace_deps(mod_list: Map<string, mod_object>) {
             }
             mod_object.wants = mod_object.wants.filter((dep_id) => !recursive_deps.has(dep_id.toLowerCase()));
         }
+        if (mod_object.optional_wants != undefined) {
+            const recursive_deps = new Set();
+            for (const [optional_idx, dep_id] of mod_object.optional_wants.entries()) {
+                // Remove soft dependencies of this mod to itself (i.e. from submodules)
+                if (mod_object.other_mod_ids?.find((other_id) => other_id.toLowerCase() === dep_id.toLowerCase()) != undefined) {
+                    recursive_deps.add(dep_id.toLowerCase());
+                    continue;
+                }
+
+                // Soft dependencies are allowed to be missing, so we only link up the ones we have
+                const [actual_dep_id, dep_obj] = getModDeep(mod_list, dep_id);
+                if (dep_obj && actual_dep_id) {
+                    if (dep_obj.optionally_wanted_by == undefined) {
+                        dep_obj.optionally_wanted_by = [mod_id];
+                    } else if (!dep_obj.optionally_wanted_by.includes(mod_id)) {
+                        dep_obj.optionally_wanted_by.push(mod_id);
+                    }
+                    mod_object.optional_wants[optional_idx] = actual_dep_id;
+                }
+            }
+            mod_object.optional_wants = mod_object.optional_wants.filter((dep_id) => !recursive_deps.has(dep_id.toLowerCase()));
+        }
     }
 }
 
+/**
+ * Get the wants of a mod, which can't be found in the mod_list (ignoring forge itself)
+ */
+export function find_unmet_wants(mod_list: Map<string, mod_object>, mod_id: string): string[] {
+    const mod_object = mod_list.get(mod_id);
+    if (mod_object?.wants == undefined) return [];
+    return mod_object.wants.filter((dep_id) => !dep_id.match(/((?:Minecraft)?Forge(?:@|$))|(^\s*FML\s*$)/im) && getModDeep(mod_list, dep_id)[1] == undefined);
+}
+
 /**
  * Get a mod from the mod_list, while also allowing for matches of a mods alternate ids
  * @returns A tuple of the optional values: [Mod Id the Mod is actually known as, The Mod Object]
  */
-function getModDeep(mod_list: Map<string, mod_object>, target_mod_id: string): [string | undefined, mod_object | undefined] {
+export function getModDeep(mod_list: Map<string, mod_object>, target_mod_id: string): [string | undefined, mod_object | undefined] {
     if (mod_list.has(target_mod_id)) {
         return [target_mod_id, mod_list.get(target_mod_id)];
     }
@@ -0,0 +1,120 @@
+import { ANNOTATED_FILE } from '../utils/config';
+import { collect_files_from_zip } from '../utils/fs';
+import { are_all_mods_unlocked, disable_mod_deep, enable_base_mods, isNotItself, read_saved_mods, write_saved_mods, type mod_object } from '../utils/mods';
+import { CLIColor, divide_to_full_groups } from '../utils/utils';
+
+export interface orphan_candidate {
+    mod_id: string;
+    mod: mod_object;
+    reasons: string[];
+    size: number;
+}
+
+const LIBRARY_WORDS = ['lib', 'library', 'core', 'api'];
+
+//#region orphans
+/**
+ * Check whether an id or file name has a word like "lib" in it, split at separators & camel case, so "CoFHCore" counts but "HardcoreEnderExpansion" doesn't
+ */
+function is_named_like_library(name: string): boolean {
+    return name.split(/[^a-zA-Z]+|(?<=[a-z])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/).some((word) => LIBRARY_WORDS.includes(word.toLowerCase()));
+}
+
+/**
+ * Find mods that nothing wants, but look like they only exist to be depended on
+ * @param mod_ids Only check these mods, instead of all of them
+ */
+export async function find_orphan_candidates(mod_map: Map<string, mod_object>, mod_ids: string[] = Array.from(mod_map.keys())): Promise<orphan_candidate[]> {
+    const candidates: orphan_candidate[] = [];
+    for (const mod_id of mod_ids) {
+        const mod = mod_map.get(mod_id);
+        if (mod == undefined) continue;
+
+        const dependents = (mod.wanted_by ?? []).filter((dependent) => mod_map.has(dependent) && isNotItself(dependent, mod_id, mod.other_mod_ids || []));
+        if (dependents.length > 0 || mod.tags?.includes('REQUIRED_BASE')) continue;
+
+        const reasons: string[] = [];
+        if (mod.tags?.some((tag) => tag.toUpperCase().startsWith('LIB'))) {
+            reasons.push('tagged as library');
+        }
+        const file_name = mod.file_path.replace(/(?:.*?)([^\/]+?$)/, '$1');
+        if (is_named_like_library(mod_id) || is_named_like_library(file_name)) {
+            reasons.push('named like a library');
+        }
+        // Content mods almost always ship textures, lang files or recipes
+        if ((await Bun.file(mod.file_path).exists()) && (await collect_files_from_zip(mod.file_path, /^assets\/|(?:^|\/)recipes\//)) == undefined) {
+            reasons.push('no assets or recipes');
+        }
+
+        if (reasons.length > 0) {
+            candidates.push({ mod_id, mod, reasons, size: Bun.file(mod.file_path).size });
+        }
+    }
+    // Most likely (and biggest) first
+    return candidates.sort((a, b) => b.reasons.length - a.reasons.length || b.size - a.size);
+}
+
+/**
+ * List mods that are probably unneeded libraries, and optionally tag them or disable a fraction of them to test without
+ * @param options.tag Add this tag to all candidates
+ * @param options.test_fraction Disable this fraction of the candidates, in the form of binary, e.g. 1/2
+ */
+export async function audit_orphans(options: { tag?: string; test_fraction?: string }) {
+    const mod_map = await read_saved_mods(ANNOTATED_FILE);
+    const candidates = await find_orphan_candidates(mod_map);
+    if (candidates.length < 1) {
+        console.log('Found no unwanted mods that look like libraries.');
+        return;
+    }
+
+    const longest_id_length = Math.max(...candidates.map((candidate) => candidate.mod_id.length));
+    console.info(`Found ${candidates.length} unwanted mods that look like libraries:`);
+    for (const { mod_id, mod, reasons, size } of candidates) {
+        console.log(
+            `${CLIColor.FgGray} - ${CLIColor.Reset}${CLIColor.Bright}${mod_id}${CLIColor.Reset}${' '.repeat(longest_id_length - mod_id.length)}  ` +
+                `${CLIColor.FgGray18}${(size / 1024).toFixed(0).padStart(6)} ${CLIColor.FgGray14}KB${CLIColor.Reset}  ` +
+                `${CLIColor.FgGray}(${reasons.join(', ')})${mod.enabled ? '' : ' [disabled]'}${CLIColor.Reset}`,
+        );
+    }
+    const total_size = candidates.reduce((sum, candidate) => sum + candidate.size, 0);
+    console.info(`Removing all of them would free ${CLIColor.Bright}${(total_size / 1024 / 1024).toFixed(2)} MiB${CLIColor.Reset}.`);
+
+    if (options.tag == undefined && options.test_fraction == undefined) return;
+    if (!(await are_all_mods_unlocked())) {
+        console.warn('W: Something is locking a file in the mods directory. Is the game still running?');
+        return;
+    }
+
+    if (options.tag != undefined) {
+        for (const { mod } of candidates) {
+            if (mod.tags == undefined) {
+                mod.tags = [options.tag];
+            } else if (!mod.tags.includes(options.tag)) {
+                mod.tags.push(options.tag);
+            }
+        }
+        console.log(`Tagged ${candidates.length} mods with ${options.tag}.`);
+    }
+
+    if (options.test_fraction != undefined) {
+        const [section, scope] = options.test_fraction.split('/').map(Number);
+        if (section == undefined || scope == undefined || !(section > 0 && section <= scope)) {
+            console.error('Received faulty fraction.');
+            return;
+        }
+
+        // Only the candidates in the target fraction are disabled, the rest of them are left as they are
+        const groups = divide_to_full_groups(candidates.length, scope);
+        const group_start = groups.slice(0, section - 1).reduce((sum, group) => sum + group, 0);
+        const targets = candidates.slice(group_start, group_start + (groups[section - 1] ?? 0)).map((candidate) => candidate.mod_id);
+
+        const changed_list: string[] = [];
+        for (const mod_id of targets) {
+            await disable_mod_deep(mod_id, mod_map, changed_list);
+        }
+        await enable_base_mods(mod_map);
+        console.log(`Disabled fraction ${section}/${scope} of the candidates: ${targets.join(', ')}`);
+    }
+
+    await write_saved_mods(ANNOTATED_FILE, mod_map);
+}
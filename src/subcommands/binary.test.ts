@@ -0,0 +1,84 @@
+import { describe, expect, test } from 'bun:test';
+import { mkdir, rm } from 'node:fs/promises';
+import { default_mod_object, type mod_object } from '../utils/mods';
+import { isPartitionBalance, isPartitionUnit, partition_mods } from './binary';
+
+// The mods directory of the scratch pack from test_setup
+const MODS = 'mods';
+
+function make_mod(mod_id: string, overrides: Partial<mod_object> = {}): mod_object {
+    return { ...structuredClone(default_mod_object), file_path: `${MODS}/${mod_id}.jar`, ...overrides };
+}
+
+// Two apps sharing a library, and two standalone mods
+const mod_map: Map<string, mod_object> = new Map([
+    ['app_a', make_mod('app_a', { wants: ['lib'] })],
+    ['app_b', make_mod('app_b', { wants: ['lib'] })],
+    ['lib', make_mod('lib', { wanted_by: ['app_a', 'app_b'] })],
+    ['app_c', make_mod('app_c')],
+    ['app_d', make_mod('app_d')],
+]);
+const mod_list = Array.from(mod_map.keys());
+
+function sorted(mod_ids: Iterable<string>): string[] {
+    return Array.from(mod_ids).sort();
+}
+
+describe('partition_mods', () => {
+    test('puts the deps of each closure into its section', () => {
+        const sections = partition_mods(mod_map, mod_list, 2, { unit: 'closure', balance: 'count' });
+        expect(sections.map((section) => section.roots)).toEqual([
+            ['app_a', 'app_c'],
+            ['app_b', 'app_d'],
+        ]);
+        // The shared library goes into both
+        expect(sections.map((section) => sorted(section.mods))).toEqual([
+            ['app_a', 'app_c', 'lib'],
+            ['app_b', 'app_d', 'lib'],
+        ]);
+    });
+
+    test('keeps connected components together', () => {
+        const sections = partition_mods(mod_map, mod_list, 2, { unit: 'component', balance: 'count' });
+        expect(sections.map((section) => sorted(section.mods))).toEqual([
+            ['app_a', 'app_b', 'lib'],
+            ['app_c', 'app_d'],
+        ]);
+    });
+
+    test('splits even scopes from the halves of the smaller scope', () => {
+        const standalone: Map<string, mod_object> = new Map(Array.from({ length: 8 }, (_, i) => [`mod_${i}`, make_mod(`mod_${i}`)]));
+        const halves = partition_mods(standalone, Array.from(standalone.keys()), 2, { unit: 'closure', balance: 'count' });
+        const quarters = partition_mods(standalone, Array.from(standalone.keys()), 4, { unit: 'closure', balance: 'count' });
+
+        expect(quarters.map((section) => section.mods.size)).toEqual([2, 2, 2, 2]);
+        halves.forEach((half, i) => {
+            expect(sorted([...quarters[i * 2]!.roots, ...quarters[i * 2 + 1]!.roots])).toEqual(sorted(half.roots));
+        });
+    });
+
+    test('balances by file size', async () => {
+        const sized: Map<string, mod_object> = new Map([
+            ['big', make_mod('big')],
+            ...Array.from({ length: 4 }, (_, i): [string, mod_object] => [`small_${i}`, make_mod(`small_${i}`)]),
+        ]);
+        await rm(MODS, { recursive: true, force: true });
+        await mkdir(MODS, { recursive: true });
+        for (const [mod_id, mod] of sized) await Bun.write(mod.file_path, 'x'.repeat(mod_id === 'big' ? 100 : 30));
+
+        const by_count = partition_mods(sized, Array.from(sized.keys()), 2, { unit: 'closure', balance: 'count' });
+        expect(by_count.map((section) => section.mods.size)).toEqual([3, 2]);
+        const by_size = partition_mods(sized, Array.from(sized.keys()), 2, { unit: 'closure', balance: 'size' });
+        expect(by_size.map((section) => sorted(section.mods))).toEqual([['big'], ['small_0', 'small_1', 'small_2', 'small_3']]);
+    });
+});
+
+describe('partition option guards', () => {
+    test('only accept known values', () => {
+        expect(isPartitionUnit('component')).toBe(true);
+        expect(isPartitionUnit('size')).toBe(false);
+        expect(isPartitionBalance('size')).toBe(true);
+        expect(isPartitionBalance(undefined)).toBe(false);
+        expect(isPartitionBalance(1)).toBe(false);
+    });
+});
@@ -1,7 +1,6 @@
 import { ANNOTATED_FILE } from '../utils/config';
-import { save_map_to_file } from '../utils/fs';
-import { are_all_mods_unlocked, disable_all_mods, enable_base_mods, enable_mod_deep, isNotItself, read_saved_mods, type mod_object } from '../utils/mods';
-import { divide_to_full_groups, print_pretty } from '../utils/utils';
+import { are_all_mods_unlocked, disable_all_mods, disable_mod_deep, enable_base_mods, enable_mod_deep, isNotItself, read_saved_mods, write_saved_mods, type mod_object } from '../utils/mods';
+import { print_pretty } from '../utils/utils';
 
 type ModGroupOptions = {
     dep_key: 'wants' | 'wanted_by';
@@ -17,7 +16,7 @@ type ModGroupOptions = {
  * @param {object} options - Options to use for dependency lookup ("wanted_by" or "wants")
  * @returns {string[]} Array of mod IDs in the specified group section including dependencies
  */
-function get_mods_in_group(
+export function get_mods_in_group(
     mod_map: Map<string, mod_object>,
     mod_list: Array<string>,
     groups: number[],
@@ -61,7 +60,159 @@ function get_mods_in_group(
     return Array.from(group_list);
 }
 
-export async function binary_search_disable(target_fractions: string[], dry_run: boolean) {
+/**
+ * Get the mods that end up enabled when enabling exactly the given ones: With their deps, and the ones required by the base game
+ */
+export function get_enabled_closure(mod_map: Map<string, mod_object>, mod_ids: string[]): Set<string> {
+    const base_ids = Array.from(mod_map.entries())
+        .filter(([, mod]) => mod.tags?.includes('REQUIRED_BASE'))
+        .map(([mod_id]) => mod_id);
+    const targets = [...mod_ids, ...base_ids];
+    return new Set(get_mods_in_group(mod_map, targets, [targets.length], 0).filter((mod_id) => mod_map.has(mod_id)));
+}
+
+/**
+ * Enable exactly the given mods with their dependencies (and the ones required by the base game), disable everything else
+ * @returns The number of mods enabled afterwards
+ */
+export async function apply_enabled_set(mod_map: Map<string, mod_object>, mod_ids: string[]): Promise<number> {
+    const closure = get_enabled_closure(mod_map, mod_ids);
+
+    // Separate change lists, so mods disabled as a dependent can still be enabled afterwards
+    const disabled_list: string[] = [];
+    for (const mod_id of mod_map.keys()) {
+        if (!closure.has(mod_id)) await disable_mod_deep(mod_id, mod_map, disabled_list);
+    }
+    const enabled_list: string[] = [];
+    for (const mod_id of closure) {
+        await enable_mod_deep(mod_id, mod_map, enabled_list);
+    }
+    await enable_base_mods(mod_map);
+    await write_saved_mods(ANNOTATED_FILE, mod_map);
+
+    return Array.from(mod_map.values()).filter((mod) => mod.enabled).length;
+}
+
+export type PartitionUnit = 'closure' | 'component';
+export type PartitionBalance = 'count' | 'size';
+
+export function isPartitionUnit(val: unknown): val is PartitionUnit {
+    return typeof val === 'string' && ['closure', 'component'].includes(val);
+}
+
+export function isPartitionBalance(val: unknown): val is PartitionBalance {
+    return typeof val === 'string' && ['count', 'size'].includes(val);
+}
+
+type PartitionOptions = {
+    unit: PartitionUnit;
+    balance: PartitionBalance;
+};
+
+type Section = {
+    // Mods the section was built from, without the deps they pulled in
+    roots: string[];
+    mods: Set<string>;
+};
+
+/**
+ * Collect the units mods are moved around in, so a section never needs something from another one.
+ * Closures are a mod nothing wants with all of its deps (libraries can end up in multiple closures),
+ * components are groups of mods connected through any dependency.
+ */
+function collect_units(mod_map: Map<string, mod_object>, mod_list: string[], unit: PartitionUnit): Section[] {
+    const closure_of = (mod_id: string) =>
+        new Set(get_mods_in_group(mod_map, [mod_id], [1], 0).filter((dep_id) => mod_map.has(dep_id) && mod_list.includes(dep_id)));
+
+    if (unit === 'closure') {
+        const units: Section[] = [];
+        const covered = new Set<string>();
+        // Start with mods nothing wants, then pick up whatever is left over (like mods only wanted through a cycle)
+        const wanted = (mod_id: string) => (mod_map.get(mod_id)?.wanted_by ?? []).some((dependent) => mod_list.includes(dependent));
+        for (const mod_id of [...mod_list.filter((mod_id) => !wanted(mod_id)), ...mod_list.filter(wanted)]) {
+            if (covered.has(mod_id)) continue;
+            const mods = closure_of(mod_id);
+            mods.forEach((dep_id) => covered.add(dep_id));
+            units.push({ roots: [mod_id], mods });
+        }
+        return units;
+    }
+
+    const component_of: Map<string, Set<string>> = new Map();
+    for (const mod_id of mod_list) {
+        let component = component_of.get(mod_id) ?? new Set([mod_id]);
+        for (const dep_id of closure_of(mod_id)) {
+            const other = component_of.get(dep_id);
+            if (other != undefined && other != component) {
+                other.forEach((other_id) => component.add(other_id));
+            } else {
+                component.add(dep_id);
+            }
+        }
+        component.forEach((member_id) => component_of.set(member_id, component));
+    }
+    return Array.from(new Set(component_of.values()), (mods) => ({ roots: Array.from(mods), mods }));
+}
+
+function get_mod_weights(mod_map: Map<string, mod_object>, balance: PartitionBalance): Map<string, number> {
+    return new Map(Array.from(mod_map, ([mod_id, mod]) => [mod_id, balance === 'size' ? Bun.file(mod.file_path).size : 1]));
+}
+
+function get_section_weight(mod_ids: Iterable<string>, weights: Map<string, number>): number {
+    let weight = 0;
+    for (const mod_id of mod_ids) weight += weights.get(mod_id) ?? 0;
+    return weight;
+}
+
+/**
+ * Greedily put the heaviest units into whichever section stays lightest with them added.
+ * Even scopes are split into halves first, so that the sections of 2x/4x match the halves of the sections of 1x/2x.
+ */
+function split_units(units: Section[], scope: number, weights: Map<string, number>): Section[] {
+    const parts = scope % 2 == 0 && scope > 2 ? 2 : scope;
+    const sections: Section[] = Array.from({ length: parts }, () => ({ roots: [], mods: new Set<string>() }));
+    const sorted = [...units].sort((a, b) => get_section_weight(b.mods, weights) - get_section_weight(a.mods, weights));
+
+    for (const unit of sorted) {
+        let best_section = sections[0] as Section;
+        let best_weight = Infinity;
+        for (const section of sections) {
+            // Deps shared with the section don't add any weight
+            const weight = get_section_weight(section.mods, weights) + get_section_weight(Array.from(unit.mods).filter((mod_id) => !section.mods.has(mod_id)), weights);
+            if (weight < best_weight) {
+                best_weight = weight;
+                best_section = section;
+            }
+        }
+        best_section.roots.push(...unit.roots);
+        unit.mods.forEach((mod_id) => best_section.mods.add(mod_id));
+    }
+
+    if (parts == scope) return sections;
+    // Split each half further, from the units that landed in it
+    return sections.flatMap((section) =>
+        split_units(
+            units.filter((unit) => unit.roots.every((root) => section.roots.includes(root))),
+            scope / 2,
+            weights,
+        ),
+    );
+}
+
+/**
+ * Split mods into sections of similar weight, where each section already contains all of the deps of its mods
+ */
+export function partition_mods(mod_map: Map<string, mod_object>, mod_list: string[], scope: number, options: PartitionOptions): Section[] {
+    return split_units(collect_units(mod_map, mod_list, options.unit), scope, get_mod_weights(mod_map, options.balance));
+}
+
+function describe_section(name: string, section: Section, mod_map: Map<string, mod_object>): [string, string[]] {
+    const size = get_section_weight(section.mods, get_mod_weights(mod_map, 'size')) / 1024 / 1024;
+    const deps = Array.from(section.mods).filter((mod_id) => !section.roots.includes(mod_id));
+    return [`${name} (${section.mods.size} mods, ${size.toFixed(1)} MiB)`, [...section.roots, ...(deps.length > 0 ? ['-- deps --', ...deps] : [])]];
+}
+
+export async function binary_search_disable(target_fractions: string[], dry_run: boolean, options: PartitionOptions = { unit: 'closure', balance: 'count' }) {
     if (!await are_all_mods_unlocked()) {
         console.warn("W: Something is locking a file in the mods directory. Is the game still running?")
         return;
@@ -69,27 +220,27 @@ export async function binary_search_disable(target_fractions: string[], dry_run:
     
     const mod_map = await read_saved_mods(ANNOTATED_FILE);
     const mod_list = Array.from(mod_map.keys());
-    const fractions: { section: number; scope: number; groups: number[] }[] = [];
+    const fractions: { section: number; scope: number; sections: Section[] }[] = [];
 
     for (const fraction of target_fractions) {
         let [section, scope] = fraction.split('/').map(Number);
         if (section != undefined && scope != undefined && section <= scope && section > 0) {
-            // Split our list into even groups
-            const groups = divide_to_full_groups(mod_list.length, scope);
+            // Split our list into sections that keep dependencies together
+            const sections = partition_mods(mod_map, mod_list, scope, options);
             // Start at 0 for mods indexed at 0
             // Using a new variable for section here, since typescript apparently hates me mutating it before using at groups.reduce()
             const safe_section = section - 1;
-            fractions.push({ section: safe_section, groups, scope });
+            fractions.push({ section: safe_section, sections, scope });
         }
     }
 
     const first_fraction = fractions[0];
     if (first_fraction != undefined) {
-        const { section, scope, groups } = first_fraction;
+        const { section, scope, sections } = first_fraction;
 
-        if (mod_list.length / 2 < scope) {
+        if (sections.filter((entry) => entry.roots.length > 0).length < scope) {
             console.warn(
-                `W: The current scope (${scope}) is bigger than half of your mods, which will lead to imprecisions. Use binary_dry with manual toggling.\n`,
+                `W: The current scope (${scope}) is bigger than the amount of independent mod groups, which leaves some sections empty. Use binary_dry with manual toggling.\n`,
             );
         }
 
@@ -100,24 +251,15 @@ export async function binary_search_disable(target_fractions: string[], dry_run:
             console.info(`Mod groups for target ${target_fractions[0]}:`);
             // Only take pre-group (left) if we can go left from section
             if (section > 0) {
-                print_groups.push([
-                    'group #' + section + ' (pre)',
-                    get_mods_in_group(mod_map, mod_list, groups, section - 1, { dep_key: 'wants', show_deps: true }),
-                ]);
+                print_groups.push(describe_section('group #' + section + ' (pre)', sections[section - 1] as Section, mod_map));
             }
 
             // Middle section is always safe
-            print_groups.push([
-                'group #' + (section + 1) + ' (target)',
-                get_mods_in_group(mod_map, mod_list, groups, section, { dep_key: 'wants', show_deps: true }),
-            ]);
+            print_groups.push(describe_section('group #' + (section + 1) + ' (target)', sections[section] as Section, mod_map));
 
             // Only take post-group (right) if we can go right from section
             if (section < scope - 1) {
-                print_groups.push([
-                    'group #' + (section + 2) + ' (post)',
-                    get_mods_in_group(mod_map, mod_list, groups, section + 1, { dep_key: 'wants', show_deps: true }),
-                ]);
+                print_groups.push(describe_section('group #' + (section + 2) + ' (post)', sections[section + 1] as Section, mod_map));
             }
 
             print_pretty(...print_groups);
@@ -125,12 +267,12 @@ export async function binary_search_disable(target_fractions: string[], dry_run:
             // Print the sub-groups of the current target group
             print_groups = [];
             const sub_scope = scope * 2;
-            const sub_groups = divide_to_full_groups(mod_list.length, sub_scope);
+            const sub_sections = partition_mods(mod_map, mod_list, sub_scope, options);
             const sub_safe_section = (section + 1) * 2 - 1;
 
-            if (mod_list.length / 2 < sub_scope) {
+            if (sub_sections.filter((entry) => entry.roots.length > 0).length < sub_scope) {
                 console.warn(
-                    `W: The next scope (${sub_scope}) is bigger than half of your mods, which will lead to imprecisions. Use binary_dry with manual toggling.\n`,
+                    `W: The next scope (${sub_scope}) is bigger than the amount of independent mod groups, which leaves some sections empty. Use binary_dry with manual toggling.\n`,
                 );
             }
 
@@ -138,17 +280,11 @@ export async function binary_search_disable(target_fractions: string[], dry_run:
 
             // Only take pre-group (left) if we can go left from section
             if (sub_safe_section > 0) {
-                print_groups.push([
-                    'group #' + sub_safe_section + ' (first half)',
-                    get_mods_in_group(mod_map, mod_list, sub_groups, sub_safe_section - 1, { dep_key: 'wants', show_deps: true }),
-                ]);
+                print_groups.push(describe_section('group #' + sub_safe_section + ' (first half)', sub_sections[sub_safe_section - 1] as Section, mod_map));
             }
 
             // Middle section is always safe
-            print_groups.push([
-                'group #' + (sub_safe_section + 1) + ' (second half)',
-                get_mods_in_group(mod_map, mod_list, sub_groups, sub_safe_section, { dep_key: 'wants', show_deps: true }),
-            ]);
+            print_groups.push(describe_section('group #' + (sub_safe_section + 1) + ' (second half)', sub_sections[sub_safe_section] as Section, mod_map));
 
             // No post group here, since the target group is only split up into 2 parts
 
@@ -160,15 +296,14 @@ export async function binary_search_disable(target_fractions: string[], dry_run:
 
             const changed_list: Array<string> = [];
 
-            for (const { section, scope, groups } of fractions) {
+            for (const { section, scope, sections } of fractions) {
                 console.log(`Enabling fraction ${section + 1}/${scope} .`);
-                // print_pretty(["Enabling Mods:", get_mods_in_group(mod_map, mod_list, groups, section)])
-                for (const mod_id of get_mods_in_group(mod_map, mod_list, groups, section)) {
+                for (const mod_id of (sections[section] as Section).mods) {
                     await enable_mod_deep(mod_id, mod_map, changed_list);
                 }
 
                 await enable_base_mods(mod_map);
-                await save_map_to_file(ANNOTATED_FILE, mod_map);
+                await write_saved_mods(ANNOTATED_FILE, mod_map);
             }
             if (changed_list.length > 0) {
                 console.log('Changed ', changed_list.length, ' mods.\n');
@@ -179,4 +314,4 @@ export async function binary_search_disable(target_fractions: string[], dry_run:
     } else {
         console.error('Received faulty fraction.');
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { mkdir, rm } from 'node:fs/promises';
+import { ANNOTATED_FILE, PACKSCRIPTS_TMP_DIR } from '../utils/config';
+import { default_mod_object, read_saved_mods, write_saved_mods, type mod_object } from '../utils/mods';
+import { get_enabled_closure } from './binary';
+import { advance_bisect, bisect_mark, bisect_reset, bisect_start, create_bisect_state, get_tested_mods, split_suspects, type bisect_state } from './bisect';
+
+// The mods directory of the scratch pack from test_setup
+const MODS = 'mods';
+
+function make_mod(mod_id: string, overrides: Partial<mod_object> = {}): mod_object {
+    const enabled = overrides.enabled ?? true;
+    return { ...structuredClone(default_mod_object), file_path: `${MODS}/${mod_id}.jar${enabled ? '' : '.disabled'}`, ...overrides, enabled };
+}
+
+// Eight standalone mods, one the base game needs and one that is turned off
+function make_mod_map(): Map<string, mod_object> {
+    return new Map([
+        ...Array.from({ length: 8 }, (_, i): [string, mod_object] => [`mod_${i}`, make_mod(`mod_${i}`)]),
+        ['base', make_mod('base', { tags: ['REQUIRED_BASE'] })],
+        ['off', make_mod('off', { enabled: false })],
+    ]);
+}
+
+/**
+ * Answer each step by whether all culprits are enabled in it, until the session is done
+ */
+function run_bisect(mod_map: Map<string, mod_object>, culprits: string[], state: bisect_state = create_bisect_state(mod_map)!): bisect_state {
+    while (state.suspects.length > 0 && state.steps < 50) {
+        const enabled = get_enabled_closure(mod_map, get_tested_mods(state, mod_map));
+        advance_bisect(
+            state,
+            mod_map,
+            culprits.every((culprit) => enabled.has(culprit)),
+        );
+    }
+    return state;
+}
+
+describe('split_suspects', () => {
+    test('splits standalone mods into halves', () => {
+        const [first_half, second_half] = split_suspects(['mod_0', 'mod_1', 'mod_2', 'mod_3'], make_mod_map())!;
+        expect(first_half.length).toBe(2);
+        expect([...first_half, ...second_half].sort()).toEqual(['mod_0', 'mod_1', 'mod_2', 'mod_3']);
+    });
+
+    test('tests the deps of a single closure without its root first', () => {
+        const mod_map = new Map([
+            ['app', make_mod('app', { wants: ['lib'] })],
+            ['lib', make_mod('lib', { wanted_by: ['app'] })],
+        ]);
+        expect(split_suspects(['app', 'lib'], mod_map)).toEqual([['lib'], ['app', 'lib']]);
+        expect(split_suspects(['lib'], mod_map)).toBeUndefined();
+    });
+});
+
+describe('bisect state', () => {
+    test('starts over the enabled mods, without the ones the base game needs', () => {
+        const state = create_bisect_state(make_mod_map())!;
+        expect(state.original_enabled).toContain('base');
+        expect(state.original_enabled).not.toContain('off');
+        expect(state.suspects).toEqual(Array.from({ length: 8 }, (_, i) => `mod_${i}`));
+        expect(create_bisect_state(new Map([['mod_0', make_mod('mod_0')]]))).toBeUndefined();
+    });
+
+    test('narrows the suspects down to a single culprit', () => {
+        const state = run_bisect(make_mod_map(), ['mod_5']);
+        expect(state.found).toEqual(['mod_5']);
+        // Three halvings, with an extra step whenever the first half turns out fine
+        expect(state.steps).toBeLessThanOrEqual(7);
+    });
+
+    test('keeps halves that are needed together pending', () => {
+        const mod_map = make_mod_map();
+        const state = create_bisect_state(mod_map)!;
+        const [first_half, second_half] = split_suspects(state.suspects, mod_map)!;
+        const culprits = [first_half[0]!, second_half[0]!];
+
+        // Neither half reproduces it alone
+        advance_bisect(state, mod_map, false);
+        expect(state.testing).toBe('second');
+        advance_bisect(state, mod_map, false);
+        expect(state.pending).toEqual([second_half]);
+        expect(state.suspects).toEqual(first_half);
+        // The pending half stays enabled while the first one is narrowed down
+        expect(get_tested_mods(state, mod_map)).toEqual(expect.arrayContaining(second_half));
+
+        expect(run_bisect(mod_map, culprits, state).found.sort()).toEqual(culprits.sort());
+        expect(state.pending).toEqual([]);
+    });
+
+    test('tells libraries apart from the mods that want them', () => {
+        const mod_map = new Map([
+            ['app', make_mod('app', { wants: ['lib'] })],
+            ['lib', make_mod('lib', { wanted_by: ['app'] })],
+            ['other', make_mod('other')],
+        ]);
+        expect(run_bisect(mod_map, ['lib']).found).toEqual(['lib']);
+        expect(run_bisect(mod_map, ['app']).found).toEqual(['app']);
+    });
+});
+
+describe('bisect session', () => {
+    async function enabled_ids(): Promise<string[]> {
+        return Array.from((await read_saved_mods(ANNOTATED_FILE)).entries())
+            .filter(([, mod]) => mod.enabled)
+            .map(([mod_id]) => mod_id)
+            .sort();
+    }
+
+    beforeEach(async () => {
+        await rm(MODS, { recursive: true, force: true });
+        await rm(PACKSCRIPTS_TMP_DIR + 'bisect.json', { force: true });
+        await mkdir(MODS, { recursive: true });
+        const mod_map = make_mod_map();
+        for (const mod of mod_map.values()) await Bun.write(mod.file_path, '');
+        await write_saved_mods(ANNOTATED_FILE, mod_map);
+    });
+
+    test('restores the enabled mods on reset', async () => {
+        const original = await enabled_ids();
+        await bisect_start();
+        expect((await enabled_ids()).length).toBeLessThan(original.length);
+
+        await bisect_reset();
+        expect(await enabled_ids()).toEqual(original);
+        expect(await Bun.file(PACKSCRIPTS_TMP_DIR + 'bisect.json').exists()).toBe(false);
+    });
+
+    test('restores the enabled mods once the culprit is found', async () => {
+        const original = await enabled_ids();
+        await bisect_start();
+        for (let i = 0; i < 10 && (await Bun.file(PACKSCRIPTS_TMP_DIR + 'bisect.json').exists()); i++) {
+            await bisect_mark(true);
+        }
+
+        expect(await Bun.file(PACKSCRIPTS_TMP_DIR + 'bisect.json').exists()).toBe(false);
+        expect(await enabled_ids()).toEqual(original);
+    });
+});
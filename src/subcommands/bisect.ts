@@ -0,0 +1,213 @@
+import { ANNOTATED_FILE, PACKSCRIPTS_TMP_DIR } from '../utils/config';
+import { write_file_atomic } from '../utils/fs';
+import { are_all_mods_unlocked, read_saved_mods, type mod_object } from '../utils/mods';
+import { CLIColor, print_pretty } from '../utils/utils';
+import { apply_enabled_set, get_mods_in_group, partition_mods } from './binary';
+
+const BISECT_STATE_FILE = PACKSCRIPTS_TMP_DIR + 'bisect.json';
+
+/**
+ * A bisect session narrows down the suspects until a single mod is left, which is then moved to found.
+ * If neither half of the suspects reproduces the problem on its own, it needs mods from both halves:
+ * The second half is parked in pending (and stays enabled), while the first half is narrowed down further.
+ */
+export interface bisect_state {
+    original_enabled: string[];
+    suspects: string[];
+    pending: string[][];
+    found: string[];
+    // Which half of the suspects is currently enabled
+    testing: 'first' | 'second';
+    steps: number;
+}
+
+//#region helpers
+async function read_bisect_state(): Promise<bisect_state | undefined> {
+    const state_file = Bun.file(BISECT_STATE_FILE);
+    if (!(await state_file.exists())) return undefined;
+    return (await state_file.json()) as bisect_state;
+}
+
+async function write_bisect_state(state: bisect_state) {
+    await write_file_atomic(BISECT_STATE_FILE, JSON.stringify(state, null, 4));
+}
+
+/**
+ * Split the suspects over their dependency closures, so enabling one half never enables suspects from the other one.
+ * Libraries wanted from both halves end up in both.
+ * If all suspects are a single closure, the first half is what its mods need, and the second half is the whole closure.
+ * @returns The halves, or undefined if the suspects can't be split any further
+ */
+export function split_suspects(suspects: string[], mod_map: Map<string, mod_object>): [string[], string[]] | undefined {
+    const sections = partition_mods(mod_map, suspects, 2, { unit: 'closure', balance: 'count' }).filter((section) => section.mods.size > 0);
+    if (sections.length == 2) return sections.map((section) => Array.from(section.mods)) as [string[], string[]];
+
+    // Only suspects that don't pull the closure's root back in can be tested without it
+    const roots = sections[0]?.roots ?? [];
+    const deps = suspects.filter((mod_id) => !get_mods_in_group(mod_map, [mod_id], [1], 0).some((dep_id) => roots.includes(dep_id)));
+    return deps.length > 0 ? [deps, suspects] : undefined;
+}
+
+/**
+ * Get the mods the current step enables, without its dependencies
+ */
+export function get_tested_mods(state: bisect_state, mod_map: Map<string, mod_object>): string[] {
+    const [first_half, second_half] = split_suspects(state.suspects, mod_map) ?? [state.suspects, []];
+    return [...state.found, ...state.pending.flat(), ...(state.testing === 'first' ? first_half : second_half)];
+}
+
+/**
+ * Start a session over the enabled mods, leaving out the ones required by the base game
+ * @returns The state of the first step, or undefined if the enabled mods can't be split
+ */
+export function create_bisect_state(mod_map: Map<string, mod_object>): bisect_state | undefined {
+    const original_enabled = Array.from(mod_map.entries())
+        .filter(([, mod]) => mod.enabled)
+        .map(([mod_id]) => mod_id);
+    // Mods required by the base game are always enabled, so they can never be the culprit
+    const suspects = original_enabled.filter((mod_id) => !mod_map.get(mod_id)?.tags?.includes('REQUIRED_BASE'));
+    if (split_suspects(suspects, mod_map) == undefined) return undefined;
+    return { original_enabled, suspects, pending: [], found: [], testing: 'first', steps: 1 };
+}
+
+/**
+ * Move the session on by the result of its current step. No suspects are left once it's done.
+ * @param problem_happened Whether the problem still happened with the current step's mods
+ */
+export function advance_bisect(state: bisect_state, mod_map: Map<string, mod_object>, problem_happened: boolean) {
+    const [first_half, second_half] = split_suspects(state.suspects, mod_map) ?? [state.suspects, []];
+    if (problem_happened) {
+        state.suspects = state.testing === 'first' ? first_half : second_half;
+        state.testing = 'first';
+    } else if (state.testing === 'first' && second_half.length == state.suspects.length) {
+        // What the closure needs is fine on its own, so it's caused by the mods the closure was built from
+        state.found.push(...state.suspects.filter((mod_id) => !first_half.includes(mod_id)));
+        state.suspects = state.pending.pop() ?? [];
+    } else if (state.testing === 'first') {
+        state.testing = 'second';
+    } else {
+        // Neither half causes it alone, so it needs something from both
+        state.pending.push(second_half);
+        state.suspects = first_half;
+        state.testing = 'first';
+    }
+    state.steps++;
+
+    // Move on to the next group once the current one can't be narrowed down any further
+    while (state.suspects.length > 0 && split_suspects(state.suspects, mod_map) == undefined) {
+        state.found.push(...state.suspects);
+        state.suspects = state.pending.pop() ?? [];
+    }
+}
+
+async function apply_step(state: bisect_state, mod_map: Map<string, mod_object>) {
+    const enabled_count = await apply_enabled_set(mod_map, get_tested_mods(state, mod_map));
+    await write_bisect_state(state);
+    console.info(
+        `\n${CLIColor.FgGray}-${CLIColor.Reset} Step ${CLIColor.Bright}${state.steps}${CLIColor.Reset}: ` +
+            `${state.suspects.length} suspects left (~${Math.ceil(Math.log2(state.suspects.length))} steps), ${enabled_count} mods enabled. ` +
+            `Test the game and run ${CLIColor.Bright}bisect good${CLIColor.Reset} if the problem is gone, or ${CLIColor.Bright}bisect bad${CLIColor.Reset} if it still happens.`,
+    );
+}
+
+async function finish_bisect(state: bisect_state, mod_map: Map<string, mod_object>) {
+    if (state.found.length == 1) {
+        console.info(`\n${CLIColor.FgGreen11}✔${CLIColor.Reset} Found the culprit after ${state.steps} steps: ${CLIColor.Bright}${state.found[0]}${CLIColor.Reset}`);
+    } else {
+        console.info(`\n${CLIColor.FgGreen11}✔${CLIColor.Reset} After ${state.steps} steps, the problem needs all of these mods enabled together:`);
+        print_pretty(['culprits', state.found]);
+    }
+
+    console.info('Restoring the enabled state from before the bisect...');
+    await apply_enabled_set(mod_map, state.original_enabled);
+    await Bun.file(BISECT_STATE_FILE).delete();
+}
+
+//#region commands
+/**
+ * Start a bisect session over all currently enabled mods. Assumes the problem happens in the current state.
+ */
+export async function bisect_start() {
+    if (!(await are_all_mods_unlocked())) {
+        console.warn('W: Something is locking a file in the mods directory. Is the game still running?');
+        return;
+    }
+    if ((await read_bisect_state()) != undefined) {
+        console.warn(`W: A bisect session is already running. Finish it, or run ${CLIColor.Bright}bisect reset${CLIColor.Reset} first.`);
+        return;
+    }
+
+    const mod_map = await read_saved_mods(ANNOTATED_FILE);
+    const state = create_bisect_state(mod_map);
+    if (state == undefined) {
+        console.warn('W: Need at least two enabled mods that can be enabled without each other to bisect.');
+        return;
+    }
+
+    console.info(`Starting bisect over ${state.suspects.length} enabled mods.`);
+    await apply_step(state, mod_map);
+}
+
+/**
+ * Record the result of the current step and move on to the next one
+ * @param problem_happened Whether the problem still happened with the current step's mods
+ */
+export async function bisect_mark(problem_happened: boolean) {
+    const state = await read_bisect_state();
+    if (state == undefined) {
+        console.warn(`W: No bisect session is running. Start one with ${CLIColor.Bright}bisect start${CLIColor.Reset}.`);
+        return;
+    }
+    if (!(await are_all_mods_unlocked())) {
+        console.warn('W: Something is locking a file in the mods directory. Is the game still running?');
+        return;
+    }
+
+    const mod_map = await read_saved_mods(ANNOTATED_FILE);
+    advance_bisect(state, mod_map, problem_happened);
+
+    if (state.suspects.length == 0) {
+        await finish_bisect(state, mod_map);
+    } else {
+        await apply_step(state, mod_map);
+    }
+}
+
+export async function bisect_status() {
+    const state = await read_bisect_state();
+    if (state == undefined) {
+        console.log('No bisect session is running.');
+        return;
+    }
+
+    console.info(
+        `Bisect at step ${CLIColor.Bright}${state.steps}${CLIColor.Reset}, testing the ${state.testing} half of ${state.suspects.length} suspects ` +
+            `(~${Math.ceil(Math.log2(state.suspects.length))} steps left for this group, ${state.pending.length} more groups pending).`,
+    );
+    const [first_half, second_half] = split_suspects(state.suspects, await read_saved_mods(ANNOTATED_FILE)) ?? [state.suspects, []];
+    print_pretty(
+        ['found', state.found],
+        ['enabled suspects', state.testing === 'first' ? first_half : second_half],
+        ['disabled suspects', state.testing === 'first' ? second_half : first_half],
+        ['pending', state.pending.flat()],
+    );
+}
+
+/**
+ * Stop the bisect session and restore the enabled state from before it
+ */
+export async function bisect_reset() {
+    const state = await read_bisect_state();
+    if (state == undefined) {
+        console.log('No bisect session is running.');
+        return;
+    }
+    if (!(await are_all_mods_unlocked())) {
+        console.warn('W: Something is locking a file in the mods directory. Is the game still running?');
+        return;
+    }
+
+    await apply_enabled_set(await read_saved_mods(ANNOTATED_FILE), state.original_enabled);
+    await Bun.file(BISECT_STATE_FILE).delete();
+    console.log('Bisect session reset, restored the previously enabled mods.');
+}
@@ -0,0 +1,93 @@
+import { ANNOTATED_FILE } from '../utils/config';
+import { is_version_in_range } from '../utils/metadata';
+import { read_saved_mods, type mod_object } from '../utils/mods';
+import { CLIColor } from '../utils/utils';
+import { getModDeep } from './annotate';
+
+interface range_violation {
+    dependent_id: string;
+    dep_id: string;
+    version: string;
+    range: string;
+}
+
+//#region ranges
+/**
+ * Find the dependents of a mod that would not accept it in the given version
+ * @param mod_id The id of the mod, its other ids are matched as well
+ * @param version The version to check, usually the installed one or the one we want to upgrade to
+ */
+export function find_range_violations(mod_map: Map<string, mod_object>, mod_id: string, version: string): range_violation[] {
+    const mod_ids = [mod_id, ...(mod_map.get(mod_id)?.other_mod_ids ?? [])].map((id) => id.toLowerCase());
+    const violations: range_violation[] = [];
+    for (const [dependent_id, dependent] of mod_map) {
+        for (const [dep_id, range] of Object.entries(dependent.want_ranges ?? {})) {
+            if (!mod_ids.includes(dep_id.toLowerCase())) continue;
+            // Unreadable ranges are not counted as violations
+            if (is_version_in_range(version, range) === false) {
+                violations.push({ dependent_id, dep_id, version, range });
+            }
+        }
+    }
+    return violations;
+}
+
+/**
+ * @param is_installed Whether the version is the installed one, or one we would switch to
+ */
+function describe_violation({ dependent_id, dep_id, version, range }: range_violation, is_installed: boolean): string {
+    return (
+        `${CLIColor.FgGray}-${CLIColor.Reset} ${CLIColor.Bright}${dependent_id}${CLIColor.Reset} needs ${dep_id} ` +
+        `${CLIColor.FgGray}(${CLIColor.FgGray18}${range}${CLIColor.FgGray})${CLIColor.Reset}, ` +
+        `but ${is_installed ? 'has' : 'would get'} ${CLIColor.Bright}${version}${CLIColor.Reset}`
+    );
+}
+
+/**
+ * Warn about the dependents that don't accept a mod in a version
+ */
+export function warn_range_violations(violations: range_violation[]) {
+    for (const violation of violations) {
+        console.warn(describe_violation(violation, false));
+    }
+}
+
+//#region commands
+/**
+ * Report every tracked dependency whose installed version is outside of the range one of its dependents wants
+ */
+export async function check_dependency_ranges() {
+    const mod_map = await read_saved_mods(ANNOTATED_FILE);
+
+    let checked_count = 0;
+    let unreadable_count = 0;
+    const violations: range_violation[] = [];
+    for (const [dependent_id, dependent] of mod_map) {
+        for (const [dep_id, range] of Object.entries(dependent.want_ranges ?? {})) {
+            const [, dep] = getModDeep(mod_map, dep_id);
+            const version = dep?.update_state.version;
+            if (dep == undefined || !version) continue;
+
+            checked_count++;
+            const in_range = is_version_in_range(version, range);
+            if (in_range === false) {
+                violations.push({ dependent_id, dep_id, version, range });
+            } else if (in_range == undefined) {
+                unreadable_count++;
+            }
+        }
+    }
+
+    if (unreadable_count > 0) {
+        console.info(`${CLIColor.FgGray}Skipped ${unreadable_count} ranges that could not be understood.${CLIColor.Reset}`);
+    }
+    if (violations.length == 0) {
+        console.log(`${CLIColor.FgGreen11}✔${CLIColor.Reset} All ${checked_count} checked dependency ranges are satisfied.`);
+        return;
+    }
+
+    console.warn(`W: ${violations.length} of ${checked_count} dependency ranges are not satisfied:`);
+    for (const violation of violations) {
+        console.log(describe_violation(violation, true));
+    }
+}
@@ -5,7 +5,8 @@ import { ANNOTATED_FILE } from '../utils/config';
 
 export async function visualize_graph() {
     const file_contents = await read_from_file(ANNOTATED_FILE);
-    const mod_map: Map<string, any> = new Map(Object.entries(file_contents));
+    // Skip the $schema header keys
+    const mod_map: Map<string, any> = new Map(Object.entries(file_contents).filter(([key]) => !key.startsWith('$')));
 
     // Build Cytoscape elements
     const nodes = mod_map
@@ -24,6 +25,13 @@ export async function visualize_graph() {
                 }
             }
         }
+        if (mod.optional_wants) {
+            for (const dep of mod.optional_wants) {
+                if (mod_map.has(dep)) {
+                    edges.push({ data: { source: mod_id, target: dep, label: 'optionally_wants' } });
+                }
+            }
+        }
         // Derived connections go two-way, so we just use one
         // if (mod.wanted_by) {
         //     for (const dep of mod.wanted_by) {
@@ -100,6 +108,22 @@ export async function visualize_graph() {
                     'text-margin-y': -8
                 }
             },
+            {
+                selector: 'edge[label="optionally_wants"]',
+                style: {
+                    'width': 1,
+                    'color': '#bbb',
+                    'line-color': '#7fdbff',
+                    'line-style': 'dashed',
+                    'target-arrow-color': '#7fdbff',
+                    'target-arrow-shape': 'vee',
+                    'curve-style': 'bezier',
+                    'label': 'data(label)',
+                    'font-size': 6,
+                    'text-rotation': 'autorotate',
+                    'text-margin-y': -8
+                }
+            },
             {
                 selector: 'edge[label="wanted_by"]',
                 style: {
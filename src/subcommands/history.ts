@@ -0,0 +1,110 @@
+import { ANNOTATED_FILE } from '../utils/config';
+import { get_entry_dir, read_journal, replay_journal_entry, revert_journal_entry, write_journal, type journal_entry } from '../utils/journal';
+import { are_all_mods_unlocked } from '../utils/mods';
+import { CLIColor } from '../utils/utils';
+
+//#region helpers
+function describe_entry(entry: journal_entry): string {
+    const changes: string[] = [];
+    if (entry.renames.length > 0) changes.push(`${entry.renames.length} renamed`);
+    if (entry.removed.length > 0) changes.push(`${entry.removed.length} removed`);
+    if (entry.created.length > 0) changes.push(`${entry.created.length} added`);
+    if (entry.annotated_changed) changes.push('annotated mods changed');
+    return (
+        `${CLIColor.Bright}${entry.command}${CLIColor.Reset} ${CLIColor.FgGray}(${CLIColor.FgGray18}${changes.join(', ')}${CLIColor.FgGray}, ` +
+        `${entry.finished_at})${CLIColor.Reset}`
+    );
+}
+
+/**
+ * Warn if the annotated mods were changed by something the journal didn't see, since stepping through it overwrites them
+ */
+async function warn_if_changed_outside(entry: journal_entry, expected_state: 'before' | 'after') {
+    if (!entry.annotated_changed) return;
+    const snapshot = Bun.file(`${get_entry_dir(entry.id)}annotated_${expected_state}.json`);
+    const annotated_file = Bun.file(ANNOTATED_FILE);
+    const current = (await annotated_file.exists()) ? await annotated_file.text() : undefined;
+    const expected = (await snapshot.exists()) ? await snapshot.text() : undefined;
+    if (current !== expected) {
+        console.warn('W: The annotated mods were changed since this operation ran. Those changes will be overwritten.');
+    }
+}
+
+//#region commands
+/**
+ * Revert the last n operations in the journal, newest first
+ */
+export async function undo_operations(count: number) {
+    if (!(await are_all_mods_unlocked())) {
+        console.warn('W: Something is locking a file in the mods directory. Is the game still running?');
+        return;
+    }
+
+    const journal = await read_journal();
+    if (journal.head == 0) {
+        console.log('Nothing to undo.');
+        return;
+    }
+    if (count > journal.head) {
+        console.warn(`W: Only ${journal.head} operations can be undone.`);
+        count = journal.head;
+    }
+
+    for (let i = 0; i < count; i++) {
+        const entry = journal.entries[journal.head - 1] as journal_entry;
+        await warn_if_changed_outside(entry, 'after');
+        const complete = await revert_journal_entry(entry);
+        journal.head--;
+        await write_journal(journal);
+        console.info(`${complete ? `${CLIColor.FgGreen11}✔` : `${CLIColor.FgYellow}!`}${CLIColor.Reset} Undid ${describe_entry(entry)}`);
+    }
+}
+
+/**
+ * Apply the last n undone operations again, oldest first
+ */
+export async function redo_operations(count: number) {
+    if (!(await are_all_mods_unlocked())) {
+        console.warn('W: Something is locking a file in the mods directory. Is the game still running?');
+        return;
+    }
+
+    const journal = await read_journal();
+    const redoable = journal.entries.length - journal.head;
+    if (redoable == 0) {
+        console.log('Nothing to redo.');
+        return;
+    }
+    if (count > redoable) {
+        console.warn(`W: Only ${redoable} operations can be redone.`);
+        count = redoable;
+    }
+
+    for (let i = 0; i < count; i++) {
+        const entry = journal.entries[journal.head] as journal_entry;
+        await warn_if_changed_outside(entry, 'before');
+        const complete = await replay_journal_entry(entry);
+        journal.head++;
+        await write_journal(journal);
+        console.info(`${complete ? `${CLIColor.FgGreen11}✔` : `${CLIColor.FgYellow}!`}${CLIColor.Reset} Redid ${describe_entry(entry)}`);
+    }
+}
+
+/**
+ * Print the journal, newest operation first
+ */
+export async function print_history() {
+    const journal = await read_journal();
+    if (journal.entries.length == 0) {
+        console.log('No operations recorded yet.');
+        return;
+    }
+
+    for (let i = journal.entries.length - 1; i >= 0; i--) {
+        const entry = journal.entries[i] as journal_entry;
+        // Numbered by how many undos it takes to revert them
+        const position = i < journal.head ? String(journal.head - i) : '';
+        const marker = i >= journal.head ? `${CLIColor.FgGray}(undone)${CLIColor.Reset} ` : '';
+        console.log(`${CLIColor.FgGray}${position.padStart(3)} -${CLIColor.Reset} ${marker}${describe_entry(entry)}`);
+    }
+}
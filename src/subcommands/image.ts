@@ -1,19 +1,15 @@
 import path from 'node:path';
 import { mkdir, rm } from 'node:fs/promises';
 import { ANNOTATED_FILE, MOD_BASE_DIR, PACKAGING, RELATIVE_INSTANCE_DIRECTORY } from '../utils/config';
-import { read_saved_mods, type SourceType } from '../utils/mods';
+import { read_saved_mods } from '../utils/mods';
+import { matches_selector, tags_to_selector, type selector_node } from '../utils/selector';
+import { get_source_provider } from '../utils/providers';
 import { is_git_available } from './package';
-import { path_is_directory } from '../utils/fs';
+import { path_is_directory, write_file_atomic } from '../utils/fs';
 import { run_pool } from '../utils/utils';
 
-type BucketName = 'github' | 'curseforge' | 'modrinth' | 'other';
-
-const BUCKET_NAMES: Record<SourceType, BucketName> = {
-    GITHUB: 'github',
-    CURSEFORGE: 'curseforge',
-    MODRINTH: 'modrinth',
-    OTHER: 'other',
-};
+// Named after the source provider of the mods in it
+type BucketName = string;
 
 const MARKER_START = '# === GENERATED BY PACKSCRIPTS IMAGE - DO NOT EDIT ===';
 const MARKER_END = '# === END PACKSCRIPTS IMAGE ===';
@@ -203,33 +199,6 @@ async function read_real_file_content(file_path: string): Promise<ArrayBuffer> {
     return file.arrayBuffer();
 }
 
-function should_include_mod(tags: string[] | undefined, include_tags: string[] | undefined, exclude_tags: string[] | undefined): boolean {
-    if (tags == undefined && include_tags != undefined && include_tags.length > 0) return false;
-
-    let should_be_included = false;
-    if (tags != undefined && include_tags != undefined && include_tags.length > 0) {
-        for (const include_tag of include_tags) {
-            if (tags.includes(include_tag)) {
-                should_be_included = true;
-                break;
-            }
-        }
-    } else {
-        should_be_included = true;
-    }
-
-    if (should_be_included && tags != undefined && exclude_tags != undefined && exclude_tags.length > 0) {
-        for (const exclude_tag of exclude_tags) {
-            if (tags.includes(exclude_tag)) {
-                should_be_included = false;
-                break;
-            }
-        }
-    }
-
-    return should_be_included;
-}
-
 function build_dockerfile_block(
     staging_rel: string,
     bucket_order: BucketName[],
@@ -260,6 +229,8 @@ export async function package_image(
         dry?: boolean;
         include_tags?: string[];
         exclude_tags?: string[];
+        // Only put the mods matching it into the image
+        selector?: selector_node | undefined;
         size_multiplier?: number;
         frequency_multiplier?: number;
     } = {},
@@ -304,11 +275,16 @@ export async function package_image(
         }
     }
 
+    // The tag options narrow down the selector
+    const tags = tags_to_selector(options.include_tags, options.exclude_tags);
+    const mod_selector: selector_node | undefined =
+        tags != undefined && options.selector != undefined ? { type: 'and', operands: [tags, options.selector] } : (tags ?? options.selector);
+
     console.info(`Parsing git log (last ${PACKAGING.IMAGE.GIT_CHANGE_WINDOW} commits)...`);
     // build the set of known stripped basenames from enabled mods
     const known_basenames = new Set<string>();
-    for (const [, mod] of mod_map) {
-        if (!mod.enabled || !should_include_mod(mod.tags, options.include_tags, options.exclude_tags)) continue;
+    for (const [mod_id, mod] of mod_map) {
+        if (!mod.enabled || (mod_selector != undefined && !matches_selector(mod_selector, mod_id, mod))) continue;
         known_basenames.add(strip_version(path.basename(mod.file_path)));
     }
     let change_counts: Map<string, number>;
@@ -323,7 +299,7 @@ export async function package_image(
     const buckets = new Map<BucketName, ModEntry[]>();
     const mod_entries: ModEntry[] = [];
     for (const [mod_id, mod] of mod_map) {
-        if (!mod.enabled || !should_include_mod(mod.tags, options.include_tags, options.exclude_tags)) continue;
+        if (!mod.enabled || (mod_selector != undefined && !matches_selector(mod_selector, mod_id, mod))) continue;
 
         const file = Bun.file(mod.file_path);
         if (!(await file.exists())) {
@@ -334,7 +310,7 @@ export async function package_image(
         const stripped_name = strip_version(path.basename(mod.file_path));
         const change_count = change_counts.get(stripped_name) ?? 0;
         const frequency = change_count / PACKAGING.IMAGE.GIT_CHANGE_WINDOW;
-        const bucket = BUCKET_NAMES[mod.update_state.source_type];
+        const bucket = get_source_provider(mod.update_state.source_type).bucket;
         const mod_entry = {
             mod_id,
             stripped_basename: stripped_name,
@@ -558,7 +534,7 @@ export async function package_image(
     dockerfile = dockerfile.replace(/\n{3,}/g, '\n\n');
 
     await Bun.write(target_dockerfile, dockerfile);
-    await Bun.write(state_path, JSON.stringify(image_state, null, 4));
+    await write_file_atomic(state_path, JSON.stringify(image_state, null, 4));
 
     console.info(
         `\nBuilt layer plan: ${occupied_buckets.size} bucket${occupied_buckets.size === 1 ? '' : 's'}, ` +
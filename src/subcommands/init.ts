@@ -2,6 +2,7 @@ import fs, { existsSync } from 'fs';
 import path from 'path';
 import { CLIColor } from '../utils/utils';
 import { CONFIG_FILE, type Config } from '../utils/config';
+import { write_saved_mods } from '../utils/mods';
 import { input } from '@inquirer/prompts';
 
 export async function init_config(): Promise<void> {
@@ -57,7 +58,7 @@ export async function init_config(): Promise<void> {
 
     // Create empty annotated mods file if it doesn't exist
     if (!fs.existsSync(config.ANNOTATED_FILE)) {
-        await Bun.write(config.ANNOTATED_FILE, JSON.stringify([], null, 2));
+        await write_saved_mods(config.ANNOTATED_FILE, new Map());
         console.log(
             `${CLIColor.FgGreen4}✔${CLIColor.Reset} Created empty annotated mods file at: ${CLIColor.FgCyan1}${config.ANNOTATED_FILE}${CLIColor.Reset}`,
         );
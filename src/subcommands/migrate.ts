@@ -0,0 +1,93 @@
+import { ANNOTATED_FILE } from '../utils/config';
+import { read_from_file } from '../utils/fs';
+import { read_saved_mods, write_saved_mods } from '../utils/mods';
+import { ANNOTATED_SCHEMA_VERSION, migrate_annotated, write_annotated_schema } from '../utils/schema';
+import { CLIColor, print_pretty } from '../utils/utils';
+
+interface field_changes {
+    added: number;
+    changed: number;
+    removed: number;
+}
+
+//#region helpers
+/**
+ * Count, per field, how many mods would gain, change or lose it when going from the stored to the migrated mods.
+ * Fields of update_state are counted on their own, as update_state.<field>.
+ */
+function count_field_changes(before: Record<string, Record<string, unknown>>, after: Record<string, Record<string, unknown>>): Map<string, field_changes> {
+    const changes: Map<string, field_changes> = new Map();
+    const count = (field: string, old_value: unknown, new_value: unknown) => {
+        if (JSON.stringify(old_value) === JSON.stringify(new_value)) return;
+        const entry = changes.get(field) ?? { added: 0, changed: 0, removed: 0 };
+        if (old_value === undefined) entry.added++;
+        else if (new_value === undefined) entry.removed++;
+        else entry.changed++;
+        changes.set(field, entry);
+    };
+
+    for (const [mod_id, new_mod] of Object.entries(after)) {
+        const old_mod = before[mod_id] ?? {};
+        const fields = new Set([...Object.keys(old_mod), ...Object.keys(new_mod)]);
+        for (const field of fields) {
+            if (field === 'update_state') {
+                const old_state = (old_mod.update_state ?? {}) as Record<string, unknown>;
+                const new_state = (new_mod.update_state ?? {}) as Record<string, unknown>;
+                for (const state_field of new Set([...Object.keys(old_state), ...Object.keys(new_state)])) {
+                    count('update_state.' + state_field, old_state[state_field], new_state[state_field]);
+                }
+            } else {
+                count(field, old_mod[field], new_mod[field]);
+            }
+        }
+    }
+    return changes;
+}
+
+//#region commands
+/**
+ * Upgrade the annotated mods file to the current schema version, and write the JSON Schema next to it
+ * @param options.dry Only print the migrations that would run & the fields they would change
+ */
+export async function migrate_annotated_mods(options: { dry: boolean }) {
+    const file_contents = await read_from_file(ANNOTATED_FILE);
+    let migration: ReturnType<typeof migrate_annotated>;
+    try {
+        migration = migrate_annotated(file_contents);
+    } catch (err) {
+        console.error(`Error: ${(err as Error).message}`);
+        return;
+    }
+
+    if (migration.applied.length == 0) {
+        if (!options.dry) await write_annotated_schema(ANNOTATED_FILE);
+        console.log(`Annotated mods are already on schema version ${ANNOTATED_SCHEMA_VERSION}.`);
+        return;
+    }
+
+    console.log(`Annotated mods are on schema version ${migration.from_version}, migrating to ${ANNOTATED_SCHEMA_VERSION}:`);
+    for (const step of migration.applied) {
+        console.log(`${CLIColor.FgGray}-${CLIColor.Reset} ${CLIColor.Bright}${step.to_version}${CLIColor.Reset}: ${step.description}`);
+    }
+
+    // Compare against what is actually saved, which also includes the defaults read_saved_mods fills in
+    const mod_map = await read_saved_mods(ANNOTATED_FILE);
+    const stored = Object.fromEntries(Object.entries(file_contents).filter(([key]) => !key.startsWith('$'))) as Record<string, Record<string, unknown>>;
+    const changes = Array.from(count_field_changes(stored, Object.fromEntries(mod_map)).entries()).sort(([a], [b]) => a.localeCompare(b));
+    if (changes.length > 0) {
+        console.log(`\nChanged fields across ${mod_map.size} mods:`);
+        print_pretty(
+            ['Field', changes.map(([field]) => field)],
+            ['Added', changes.map(([, { added }]) => String(added))],
+            ['Changed', changes.map(([, { changed }]) => String(changed))],
+            ['Removed', changes.map(([, { removed }]) => String(removed))],
+        );
+    }
+
+    if (options.dry) {
+        console.log(`${CLIColor.FgGray}Dry run, nothing was written.${CLIColor.Reset}`);
+        return;
+    }
+    await write_saved_mods(ANNOTATED_FILE, mod_map);
+    console.log(`${CLIColor.FgGreen11}✔${CLIColor.Reset} Migrated ${mod_map.size} mods to schema version ${ANNOTATED_SCHEMA_VERSION}.`);
+}
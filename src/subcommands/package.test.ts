@@ -0,0 +1,321 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { mkdir, rm } from 'node:fs/promises';
+import path from 'node:path';
+import { hash_buffer } from '../utils/utils';
+import {
+    apply_simulated_version,
+    build_override_url,
+    compile_url_overrides,
+    diff_instance_files,
+    parse_repository_url,
+    replay_variant_history,
+    resolve_instance_path,
+} from './package';
+
+const COMMIT = '0123456789abcdef0123456789abcdef01234567';
+const OTHER_COMMIT = 'fedcba9876543210fedcba9876543210fedcba98';
+const REMOTE_URLS = ['https://github.com/owner/pack/raw/main', 'https://media.githubusercontent.com/media/owner/pack/main'];
+
+function compile(overrides: Array<{ path: string; url: string }>, variables: Record<string, string> = {}) {
+    return compile_url_overrides(overrides, (name) => variables[name]);
+}
+
+describe('compile_url_overrides', () => {
+    test('fills in variables without their trailing slash', () => {
+        const [override] = compile([{ path: '**', url: '${CDN_BASE}/{commit}/{path}' }], { CDN_BASE: 'https://cdn.example.com/pack/' });
+        expect(override?.template).toBe('https://cdn.example.com/pack/{commit}/{path}');
+    });
+
+    test('refuses missing variables & placeholders', () => {
+        expect(() => compile([{ path: '**', url: '${CDN_BASE}/{commit}/{path}' }])).toThrow('uses ${CDN_BASE}, which is set neither');
+        expect(() => compile([{ path: '**', url: 'https://cdn.example.com/{path}' }])).toThrow('needs a {commit} and a {path} placeholder');
+    });
+});
+
+describe('build_override_url', () => {
+    test('uses the first override that matches', () => {
+        const overrides = compile([
+            { path: 'config/**', url: 'https://configs.example.com/{commit}/{path}' },
+            { path: '**', url: 'https://cdn.example.com/{commit}/{path}' },
+        ]);
+        expect(build_override_url(overrides, 'config/pack.cfg', COMMIT)).toBe(`https://configs.example.com/${COMMIT}/config/pack.cfg`);
+        expect(build_override_url(overrides, 'mods/mod.jar', COMMIT)).toBe(`https://cdn.example.com/${COMMIT}/mods/mod.jar`);
+        expect(build_override_url(overrides.slice(0, 1), 'mods/mod.jar', COMMIT)).toBeUndefined();
+    });
+});
+
+describe('parse_repository_url', () => {
+    test('reads urls into the repository', () => {
+        expect(parse_repository_url({ url: `${REMOTE_URLS[1]!.replace(/main$/, COMMIT)}/mods/my%20mod.jar` }, REMOTE_URLS, [])).toEqual({
+            commit_sha: COMMIT,
+            file_path: 'mods/my mod.jar',
+        });
+        expect(parse_repository_url({ url: `https://example.com/${COMMIT}/mods/mod.jar` }, REMOTE_URLS, [])).toBeUndefined();
+    });
+
+    test('prefers the mirror url of direct downloads', () => {
+        const file = { url: 'https://cdn.modrinth.com/data/abc/mod.jar', mirror_url: `https://github.com/owner/pack/raw/${COMMIT}/mods/mod.jar` };
+        expect(parse_repository_url(file, REMOTE_URLS, [])).toEqual({ commit_sha: COMMIT, file_path: 'mods/mod.jar' });
+    });
+
+    test('reads back the urls of overrides, with spaces in their path', () => {
+        const overrides = compile([{ path: '**', url: '${CDN_BASE}/{commit}/{path}' }], { CDN_BASE: 'https://cdn.example.com/' });
+        const url = build_override_url(overrides, 'config/my config.cfg', COMMIT)!;
+        expect(url).toBe(`https://cdn.example.com/${COMMIT}/config/my%20config.cfg`);
+        expect(parse_repository_url({ url }, REMOTE_URLS, overrides)).toEqual({ commit_sha: COMMIT, file_path: 'config/my config.cfg' });
+    });
+
+    test('needs repeated placeholders to agree', () => {
+        const overrides = compile([{ path: '**', url: 'https://cdn.example.com/{commit}/{path}?commit={commit}&path={path}' }]);
+        const url = build_override_url(overrides, 'mods/mod.jar', COMMIT)!;
+        expect(parse_repository_url({ url }, REMOTE_URLS, overrides)).toEqual({ commit_sha: COMMIT, file_path: 'mods/mod.jar' });
+        expect(parse_repository_url({ url: url.replace(`commit=${COMMIT}`, `commit=${OTHER_COMMIT}`) }, REMOTE_URLS, overrides)).toBeUndefined();
+        expect(parse_repository_url({ url: url.replace('path=mods', 'path=config') }, REMOTE_URLS, overrides)).toBeUndefined();
+    });
+
+    test('matches regex characters of variables literally', () => {
+        const overrides = compile([{ path: '**', url: '${CDN_BASE}/{commit}/{path}' }], { CDN_BASE: 'https://cdn.example.com/a+b(1)/$x.y' });
+        const url = build_override_url(overrides, 'mods/mod.jar', COMMIT)!;
+        expect(parse_repository_url({ url }, REMOTE_URLS, overrides)).toEqual({ commit_sha: COMMIT, file_path: 'mods/mod.jar' });
+        expect(parse_repository_url({ url: url.replace('a+b(1)/$x.y', 'aab1/$xzy') }, REMOTE_URLS, overrides)).toBeUndefined();
+    });
+
+    test('uses the first override whose url matches', () => {
+        const overrides = compile([
+            { path: 'mods/**', url: 'https://cdn.example.com/{commit}/{path}' },
+            { path: '**', url: 'https://cdn.example.com/{commit}/mods/{path}' },
+        ]);
+        expect(parse_repository_url({ url: `https://cdn.example.com/${COMMIT}/mods/mod.jar` }, REMOTE_URLS, overrides)).toEqual({
+            commit_sha: COMMIT,
+            file_path: 'mods/mod.jar',
+        });
+    });
+});
+
+describe('replay_variant_history', () => {
+    const HASH_A1 = 'a1'.repeat(32);
+    const HASH_A2 = 'a2'.repeat(32);
+    const HASH_B1 = 'b1'.repeat(32);
+    const COMPONENTS: Record<string, string> = { 'net.minecraft': '1.7.10' };
+
+    function make_versions() {
+        return [
+            {
+                version: { actual_name: '1.0 (0123456)', name: '1.0', code: 1, hash: '0123456' },
+                commit_sha: COMMIT,
+                manifest: {
+                    unsup_manifest: 'update-1',
+                    hash_function: 'SHA-2 256',
+                    changes: [
+                        { path: 'mods/a.jar', from_hash: null, from_size: 0, to_hash: HASH_A1, to_size: 1, url: 'a1' },
+                        { path: 'mods/b.jar', from_hash: null, from_size: 0, to_hash: HASH_B1, to_size: 1, url: 'b1' },
+                    ],
+                    component_versions: COMPONENTS,
+                },
+            },
+            {
+                version: { actual_name: '1.1 (fedcba9)', name: '1.1', code: 2, hash: 'fedcba9' },
+                commit_sha: OTHER_COMMIT as string | undefined,
+                manifest: {
+                    unsup_manifest: 'update-1',
+                    hash_function: 'SHA-2 256',
+                    changes: [
+                        { path: 'mods/a.jar', from_hash: HASH_A1, from_size: 1, to_hash: HASH_A2, to_size: 2, url: 'a2' },
+                        { path: 'mods/b.jar', from_hash: HASH_B1, from_size: 1, to_hash: null, to_size: 0 },
+                    ],
+                    component_versions: COMPONENTS,
+                },
+            },
+        ];
+    }
+
+    function make_bootstrap(files: Array<{ path: string; hash: string }>, name = '1.1 (fedcba9)') {
+        return {
+            unsup_manifest: 'bootstrap-1',
+            version: { name, code: 2 },
+            hash_function: 'SHA-2 256',
+            files: files.map((file) => ({ ...file, size: 2, url: file.hash })),
+        };
+    }
+
+    const checked_urls: string[] = [];
+    const checks = {
+        check_file: async (file: { url?: string }) => {
+            checked_urls.push(file.url ?? '');
+            return file.url === 'broken' ? 'links to nothing' : undefined;
+        },
+        read_component_versions: async () => new Map(Object.entries(COMPONENTS)),
+    };
+
+    test('passes a history that chains up', async () => {
+        checked_urls.length = 0;
+        const bootstrap = make_bootstrap([{ path: 'mods/a.jar', hash: HASH_A2 }]);
+        expect(await replay_variant_history(make_versions(), bootstrap, checks)).toEqual({ checked: 5, problems: [] });
+        // Deletions have nothing to link to
+        expect(checked_urls).toEqual(['a1', 'b1', 'a2', HASH_A2]);
+    });
+
+    test('reports changes that start from another file than the versions before leave', async () => {
+        const versions = make_versions();
+        versions[1]!.manifest.changes[0]!.from_hash = HASH_B1;
+        const { problems } = await replay_variant_history(versions, undefined, checks);
+        expect(problems).toEqual([
+            `versions/2.json: mods/a.jar expects ${HASH_B1.slice(0, 12)} before the update, but the versions before it leave ${HASH_A1.slice(0, 12)}.`,
+        ]);
+    });
+
+    test('reports broken links, but only for versions whose commit exists', async () => {
+        const versions = make_versions();
+        versions[0]!.manifest.changes[0]!.url = 'broken';
+        versions[1]!.manifest.changes[0]!.url = 'broken';
+        versions[1]!.commit_sha = undefined;
+        expect((await replay_variant_history(versions, undefined, checks)).problems).toEqual(['versions/1.json: mods/a.jar links to nothing.']);
+    });
+
+    test('stops at missing versions', async () => {
+        const versions = make_versions().map((version) => (version.version.code == 1 ? { ...version, manifest: undefined } : version));
+        expect(await replay_variant_history(versions, undefined, checks)).toEqual({
+            checked: 0,
+            problems: ["versions/1.json is missing, so the versions after it can't be replayed."],
+        });
+    });
+
+    test('reports component versions that differ from the mmc-pack.json', async () => {
+        const versions = make_versions();
+        versions[1]!.manifest.component_versions = { 'net.minecraft': '1.7.10', 'net.minecraftforge': '10.13.4.1614' };
+        expect((await replay_variant_history(versions, undefined, checks)).problems).toEqual([
+            `versions/2.json: component_versions differ from the mmc-pack.json at ${OTHER_COMMIT.slice(0, 7)} in net.minecraftforge.`,
+        ]);
+    });
+
+    test('compares the bootstrap to the replayed files at its version', async () => {
+        const bootstrap = make_bootstrap([
+            { path: 'mods/a.jar', hash: HASH_A1 },
+            { path: 'mods/b.jar', hash: HASH_B1 },
+        ]);
+        expect((await replay_variant_history(make_versions(), bootstrap, checks)).problems).toEqual([
+            `bootstrap.json: mods/a.jar is ${HASH_A1.slice(0, 12)}, but replaying up to version 2 gives ${HASH_A2.slice(0, 12)}.`,
+            `bootstrap.json: mods/b.jar is ${HASH_B1.slice(0, 12)}, but replaying up to version 2 gives no file.`,
+        ]);
+        expect((await replay_variant_history(make_versions(), make_bootstrap([]), checks)).problems).toEqual([
+            'bootstrap.json: mods/a.jar is missing, but replaying up to version 2 gives it.',
+        ]);
+    });
+
+    test('leaves bootstraps of other commits alone', async () => {
+        const dirty_bootstrap = make_bootstrap([], '1.1 (fedcba9-dirty)');
+        expect(await replay_variant_history(make_versions(), dirty_bootstrap, checks)).toEqual({ checked: 4, problems: [] });
+
+        const unlisted_bootstrap = { ...make_bootstrap([]), version: { name: '1.2 (abcdef0)', code: 3 } };
+        expect((await replay_variant_history(make_versions(), unlisted_bootstrap, checks)).problems).toEqual([
+            'bootstrap.json is for version code 3, which manifest.json does not list.',
+        ]);
+    });
+});
+
+describe('simulated instances', () => {
+    // Inside the scratch pack from test_setup
+    const INSTANCE_DIR = 'simulate/';
+    // What the stand-in for the local server serves, by url
+    const served: Map<string, string> = new Map([
+        ['old', 'old config'],
+        ['new', 'new config'],
+        ['mod', 'mod jar'],
+    ]);
+    const hash = (content: string) => hash_buffer(new TextEncoder().encode(content));
+
+    async function download(file: { url?: string }, expected_hash: string, size: number, target_path: string): Promise<string | undefined> {
+        const content = served.get(file.url ?? '');
+        if (content == undefined) return 'could not be downloaded';
+        if ((await hash(content)) !== expected_hash || content.length !== size) return 'was downloaded with another hash';
+        await Bun.write(target_path, content);
+        return undefined;
+    }
+
+    async function make_change(file_path: string, from: string | undefined, to: string | undefined, url?: string) {
+        return {
+            path: file_path,
+            from_hash: from != undefined ? await hash(served.get(from)!) : null,
+            from_size: from != undefined ? served.get(from)!.length : 0,
+            to_hash: to != undefined ? await hash(served.get(to)!) : null,
+            to_size: to != undefined ? served.get(to)!.length : 0,
+            url: url ?? to,
+        };
+    }
+
+    beforeEach(async () => {
+        await rm(INSTANCE_DIR, { recursive: true, force: true });
+        await mkdir(INSTANCE_DIR + 'config', { recursive: true });
+        await Bun.write(INSTANCE_DIR + 'config/pack.cfg', 'old config');
+    });
+
+    test('keep manifest paths inside the instance', () => {
+        expect(resolve_instance_path(INSTANCE_DIR, 'config/pack.cfg')).toBe(path.resolve(INSTANCE_DIR, 'config/pack.cfg'));
+        expect(resolve_instance_path(INSTANCE_DIR, 'config/../mods/mod.jar')).toBe(path.resolve(INSTANCE_DIR, 'mods/mod.jar'));
+        expect(resolve_instance_path(INSTANCE_DIR, '../outside.cfg')).toBeUndefined();
+        expect(resolve_instance_path(INSTANCE_DIR, 'config/../../outside.cfg')).toBeUndefined();
+        expect(resolve_instance_path(INSTANCE_DIR, '/etc/passwd')).toBeUndefined();
+        expect(resolve_instance_path('simulate', '../simulate_other/file.cfg')).toBeUndefined();
+    });
+
+    test('are updated like unsup does', async () => {
+        const result = { checked: 0, problems: [] as string[] };
+        const version_manifest = {
+            unsup_manifest: 'update-1',
+            hash_function: 'SHA-2 256',
+            changes: [await make_change('config/pack.cfg', 'old', 'new'), await make_change('mods/mod.jar', undefined, 'mod')],
+            component_versions: {},
+        };
+        await apply_simulated_version('versions/2.json', version_manifest, INSTANCE_DIR, result, download);
+
+        expect(result).toEqual({ checked: 2, problems: [] });
+        expect(await Bun.file(INSTANCE_DIR + 'config/pack.cfg').text()).toBe('new config');
+        expect(await Bun.file(INSTANCE_DIR + 'mods/mod.jar').text()).toBe('mod jar');
+
+        const removal = { ...version_manifest, changes: [await make_change('mods/mod.jar', 'mod', undefined)] };
+        await apply_simulated_version('versions/3.json', removal, INSTANCE_DIR, result, download);
+        expect(await Bun.file(INSTANCE_DIR + 'mods/mod.jar').exists()).toBe(false);
+    });
+
+    test('leave files alone that are not where the change starts from', async () => {
+        const result = { checked: 0, problems: [] as string[] };
+        const version_manifest = {
+            unsup_manifest: 'update-1',
+            hash_function: 'SHA-2 256',
+            changes: [
+                await make_change('config/pack.cfg', 'new', 'old'),
+                await make_change('../outside.cfg', undefined, 'new'),
+                await make_change('mods/mod.jar', undefined, 'mod', 'missing'),
+            ],
+            component_versions: {},
+        };
+        await apply_simulated_version('versions/2.json', version_manifest, INSTANCE_DIR, result, download);
+
+        expect(result.checked).toBe(3);
+        expect(result.problems).toEqual([
+            `versions/2.json: config/pack.cfg is ${(await hash('old config')).slice(0, 12)}, but the change starts from ${(await hash('new config')).slice(0, 12)}, so unsup would not replace it.`,
+            'versions/2.json: ../outside.cfg points outside of the instance.',
+            'versions/2.json: mods/mod.jar could not be downloaded.',
+        ]);
+        expect(await Bun.file(INSTANCE_DIR + 'config/pack.cfg').text()).toBe('old config');
+        expect(await Bun.file('outside.cfg').exists()).toBe(false);
+    });
+
+    test('are compared to the files they should have', async () => {
+        await Bun.write(INSTANCE_DIR + 'mods/extra.jar', 'extra');
+        await Bun.write(INSTANCE_DIR + '.hidden/options.txt', 'options');
+        const expected = new Map([
+            [path.normalize('config/pack.cfg'), await hash('new config')],
+            [path.normalize('mods/mod.jar'), await hash('mod jar')],
+            [path.normalize('.hidden/options.txt'), await hash('options')],
+        ]);
+
+        const { checked, problems } = await diff_instance_files(INSTANCE_DIR, expected);
+        expect(checked).toBe(4);
+        expect(problems).toEqual([
+            `${path.normalize('config/pack.cfg')} is ${(await hash('old config')).slice(0, 12)}, instead of ${(await hash('new config')).slice(0, 12)}.`,
+            `${path.normalize('mods/mod.jar')} is missing.`,
+            `${path.normalize('mods/extra.jar')} should not be there.`,
+        ]);
+    });
+});
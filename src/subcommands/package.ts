@@ -2,23 +2,42 @@ import fs from 'fs';
 import {
     ANNOTATED_FILE,
     CONFIG_FILE,
+    ENV_FILE,
     MOD_BASE_DIR,
     PACKAGING,
+    PACKAGING_SIGNING_KEY,
+    PACKSCRIPTS_TMP_DIR,
     RELATIVE_INSTANCE_DIRECTORY,
     read_intermediate_config,
+    read_secret,
     set_config_keys,
+    set_secret_keys,
     type PackagingConfig,
     type PackPackagingVariant,
 } from '../utils/config';
 import { mkdir, rm } from 'node:fs/promises';
 import { download_file } from '../utils/fetch';
 import { expandOid, readBlob, resolveRef, TREE, walk } from 'isomorphic-git';
-import { bundle_files_to_zip, path_is_directory } from '../utils/fs';
+import { bundle_files_to_zip, hash_file, path_is_directory } from '../utils/fs';
 import { sync } from 'fast-glob';
 import { CLIColor, finish_live_zone, hash_buffer, init_live_zone, update_live_zone } from '../utils/utils';
 import { read_saved_mods, type mod_object } from '../utils/mods';
+import { matches_selector, parse_selector, tags_to_selector } from '../utils/selector';
 import { input, confirm } from '@inquirer/prompts';
 import { parse_gh_url } from '../utils/sources';
+import {
+    decode_public_key,
+    decode_secret_key,
+    encode_public_key,
+    encode_secret_key,
+    generate_signing_key,
+    is_same_key,
+    sign_detached,
+    verify_detached,
+    type signing_key,
+    type verify_key,
+} from '../utils/signing';
+import path from 'node:path';
 
 interface bootstrap_json {
     unsup_manifest: string;
@@ -144,6 +163,27 @@ export async function is_git_available(dir: string): Promise<boolean> {
     }
 }
 
+/**
+ * Get the oids of all blobs in the tree of a commit
+ * @returns The oids, by the path of their file in the repository
+ */
+async function read_tree_oids(commit_sha: string): Promise<Map<string, string>> {
+    const file_oids: Map<string, string> = new Map();
+    await walk({
+        fs: fs,
+        dir: RELATIVE_INSTANCE_DIRECTORY,
+        trees: [TREE({ ref: commit_sha })],
+        map: async (filepath, [entry]) => {
+            if (!entry) return null;
+            const type = await entry.type();
+            if (type === 'tree') return undefined;
+            file_oids.set(filepath, await entry.oid());
+            return null;
+        },
+    });
+    return file_oids;
+}
+
 async function get_lfs_oids(dir: string, target_commits: string[]): Promise<Map<string, { hash: string; size: number }>> {
     const lfs_files = new Map<string, { hash: string; size: number }>();
 
@@ -330,7 +370,14 @@ async function collect_mmc_component_versions(optional_early_instance_dir: strin
         return component_versions;
     }
 
-    const mmc_json = await Bun.file(instance_dir + 'mmc-pack.json').json();
+    return parse_mmc_component_versions(await Bun.file(instance_dir + 'mmc-pack.json').json());
+}
+
+/**
+ * Get the versions by component uid from the contents of a mmc-pack.json
+ */
+function parse_mmc_component_versions(mmc_json: any): Map<string, string> {
+    const component_versions = new Map();
     if (mmc_json && mmc_json.components && Array.isArray(mmc_json.components) && mmc_json.components.length > 0) {
         for (const component of mmc_json.components) {
             if (component.uid && (component.version || component.cachedVersion)) {
@@ -381,6 +428,9 @@ async function filter_and_plan_files<T>(
     );
     const exclude_patterns = packaging_config.EXCLUDE_PATTERNS.map((pattern) => RegExp(pattern, 'm'));
     const non_relative_mod_dir = MOD_BASE_DIR.replace(new RegExp(`^${RELATIVE_INSTANCE_DIRECTORY}`, 'm'), '');
+    const mod_selector = packaging_config.MOD_SELECTOR != undefined ? parse_selector(packaging_config.MOD_SELECTOR) : undefined;
+    // Untagged mods are included either way
+    const tags_filter = tags_to_selector(packaging_config.REQUIRED_MOD_TAGS, packaging_config.EXCLUDED_MOD_TAGS);
 
     file_iter: for (const [file_path, carryon_obj] of Object.entries(files)) {
         // Need to do this before we check if the jar is tracked below
@@ -401,32 +451,19 @@ async function filter_and_plan_files<T>(
                     let mod_file_path = file_path.startsWith(RELATIVE_INSTANCE_DIRECTORY)
                         ? file_path
                         : RELATIVE_INSTANCE_DIRECTORY + file_path;
-                    const mod_obj = mod_map.get(mod_file_path)?.mod;
+                    const mod_entry = mod_map.get(mod_file_path);
+                    const mod_obj = mod_entry?.mod;
                     if (mod_obj == undefined) {
                         console.warn(
                             `W: Mod jar ${file_path} is in mods folder, but does not seem to be tracked by packscripts. Including by default..`,
                         );
-                    } else if (mod_obj.tags != undefined && mod_obj.tags.length > 0) {
-                        for (const exclude_tags of packaging_config.EXCLUDED_MOD_TAGS) {
-                            for (const mod_tag of mod_obj.tags) {
-                                if (mod_tag === exclude_tags) {
-                                    // Mod had a tag we want to exclude, do not include it (on this filter)
-                                    continue path_filter_iter;
-                                }
-                            }
-                        }
-
-                        let is_included = packaging_config.REQUIRED_MOD_TAGS.length == 0; // Include by default if no tags were given
-                        for (const required_tag of packaging_config.REQUIRED_MOD_TAGS) {
-                            for (const mod_tag of mod_obj.tags) {
-                                if (mod_tag === required_tag) {
-                                    is_included = true;
-                                }
-                            }
-                        }
-
-                        // Mod does not have any of the tags we require, do not include it (on this filter)
-                        if (!is_included) continue path_filter_iter;
+                    } else if (mod_obj.tags != undefined && mod_obj.tags.length > 0 && tags_filter != undefined) {
+                        // Mod does not have any of the tags we require, or one we exclude, do not include it (on this filter)
+                        if (mod_entry != undefined && !matches_selector(tags_filter, mod_entry.mod_id, mod_obj)) continue path_filter_iter;
+                    }
+                    // Mod does not match the selector of this variant, do not include it (on this filter)
+                    if (mod_entry != undefined && mod_selector != undefined && !matches_selector(mod_selector, mod_entry.mod_id, mod_entry.mod)) {
+                        continue path_filter_iter;
                     }
 
                     if (mod_obj != undefined && mod_obj.source && mod_obj.update_state.sha256_sum) {
@@ -497,6 +534,165 @@ async function update_file_modmap_from_gitrefs(
     return to_update_map;
 }
 
+//#region signing
+let cached_signing_key: signing_key | undefined = undefined;
+
+/**
+ * Get the key that signs the unsup manifests, if one was created with "package keygen"
+ * @throws If the configured key is malformed
+ */
+function get_signing_key(): signing_key | undefined {
+    if (cached_signing_key == undefined && PACKAGING_SIGNING_KEY != undefined) cached_signing_key = decode_secret_key(PACKAGING_SIGNING_KEY);
+    return cached_signing_key;
+}
+
+/**
+ * Read the public key unsup checks the manifests of a pack variant against, from the variants unsup.ini
+ * @throws If the key in it is malformed
+ */
+async function read_variant_public_key(variant_name: string): Promise<verify_key | undefined> {
+    if (PACKAGING == undefined) throw Error('Config not yet initialized.');
+
+    const ini_file = Bun.file(PACKAGING.PACKAGE_DIRECTORY + variant_name + '/unsup.ini');
+    if (!(await ini_file.exists())) return undefined;
+    const public_key = (await ini_file.text()).match(/^public_key=(.+)$/m)?.[1];
+    return public_key != undefined ? decode_public_key(public_key) : undefined;
+}
+
+/**
+ * Make sure the manifests of a pack variant get signed by the key its unsup.ini expects, since unsup rejects them otherwise
+ * @returns Whether manifests can be built for the variant, after printing why not if they can't
+ */
+async function can_sign_for_variant(variant_name: string): Promise<boolean> {
+    try {
+        const public_key = await read_variant_public_key(variant_name);
+        const key = get_signing_key();
+        if (public_key != undefined && key == undefined) {
+            console.error(
+                `ERR: The unsup.ini of pack variant '${variant_name}' has a public key, but no signing key is set. Set PACKAGING_SIGNING_KEY in ${ENV_FILE}, or create a new key with "packscripts package keygen".`,
+            );
+            return false;
+        } else if (public_key != undefined && key != undefined && !is_same_key(key, public_key)) {
+            console.error(`ERR: The signing key does not belong to the public key in the unsup.ini of pack variant '${variant_name}'.`);
+            return false;
+        }
+        return true;
+    } catch (err) {
+        console.error('ERR: ' + (err as Error).message);
+        return false;
+    }
+}
+
+/**
+ * Write a manifest, with a detached signature next to it if a signing key is set
+ */
+async function write_manifest(file_path: string, content: string) {
+    await Bun.write(file_path, content);
+    const key = get_signing_key();
+    if (key != undefined) {
+        await Bun.write(file_path + '.sig', sign_detached(Buffer.from(content), key, path.basename(file_path)));
+    } else {
+        // A signature of an older version of the file would only be rejected
+        await rm(file_path + '.sig', { force: true });
+    }
+}
+
+/**
+ * Get the paths of all manifests of a pack variant that exist on disk
+ */
+function list_variant_manifests(variant_name: string): string[] {
+    if (PACKAGING == undefined) throw Error('Config not yet initialized.');
+
+    const unsup_dir = PACKAGING.PACKAGE_DIRECTORY + variant_name + '/unsup/';
+    const versions = sync(unsup_dir + 'versions/*.json', { onlyFiles: true }).sort(
+        (a, b) => Number(path.basename(a, '.json')) - Number(path.basename(b, '.json')),
+    );
+    return [unsup_dir + 'manifest.json', unsup_dir + 'bootstrap.json', ...versions].filter((file_path) => fs.existsSync(file_path));
+}
+
+//#region remote urls
+export interface url_override {
+    glob: Bun.Glob;
+    // The url with its variables filled in, still containing the {commit} & {path} placeholders
+    template: string;
+    // Matches the urls built from the template, to get their commit & path back
+    pattern: RegExp;
+}
+let cached_url_overrides: url_override[] | undefined = undefined;
+
+/**
+ * Compile the URL_OVERRIDES of the packaging config, with the ${VARIABLES} in their urls filled from the secrets file or environment
+ * @throws If a variable is not set, or an url is missing its {commit} or {path} placeholder
+ */
+function get_url_overrides(): url_override[] {
+    if (PACKAGING == undefined) throw Error('Config not yet initialized.');
+    cached_url_overrides ??= compile_url_overrides(PACKAGING.URL_OVERRIDES ?? [], read_secret);
+    return cached_url_overrides;
+}
+
+/**
+ * Compile url overrides, in the order they are matched in
+ * @param read_variable Gets the value of a ${VARIABLE} in their urls
+ * @throws If a variable is not set, or an url is missing its {commit} or {path} placeholder
+ */
+export function compile_url_overrides(overrides: Array<{ path: string; url: string }>, read_variable: (name: string) => string | undefined): url_override[] {
+    return overrides.map(({ path: glob, url }) => {
+        const template = url.replace(/\$\{(\w+)\}/g, (_, name: string) => {
+            const value = read_variable(name);
+            if (value == undefined) throw Error(`The URL_OVERRIDES url for ${glob} uses \${${name}}, which is set neither in ${ENV_FILE} nor the environment.`);
+            return value.replace(/\/$/, '');
+        });
+        if (!template.includes('{commit}') || !template.includes('{path}')) {
+            throw Error(`The URL_OVERRIDES url for ${glob} needs a {commit} and a {path} placeholder, so every version links to its own files.`);
+        }
+
+        const pattern = template
+            .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+            .replace('\\{commit\\}', '(?<commit>[0-9a-f]{40})')
+            .replaceAll('\\{commit\\}', '\\k<commit>')
+            .replace('\\{path\\}', '(?<path>.+)')
+            .replaceAll('\\{path\\}', '\\k<path>');
+        return { glob: new Bun.Glob(glob), template, pattern: RegExp('^' + pattern + '$', 'm') };
+    });
+}
+
+/**
+ * Make sure the URL_OVERRIDES can be filled in, before building or checking any urls
+ * @returns Whether they can, after printing why not if they can't
+ */
+function can_build_remote_urls(): boolean {
+    try {
+        get_url_overrides();
+        return true;
+    } catch (err) {
+        console.error('ERR: ' + (err as Error).message);
+        return false;
+    }
+}
+
+/**
+ * Build the url a file of the repository is served from at a commit.
+ * Uses the first of the URL_OVERRIDES that matches its path, and the (lfs) remote url of the repository otherwise.
+ */
+function build_remote_url(file_path: string, commit_sha: string, is_lfs: boolean): string {
+    if (PACKAGING == undefined) throw Error('Config not yet initialized.');
+
+    const override_url = build_override_url(get_url_overrides(), file_path, commit_sha);
+    if (override_url != undefined) return override_url;
+
+    // Remove branch / git ref from remote url and use the commit
+    return (is_lfs ? PACKAGING.GIT_LFS_REMOTE_URL : PACKAGING.GIT_REMOTE_URL).replace(/[^\/]+?$/m, '') + commit_sha + '/' + encodeURI(file_path);
+}
+
+/**
+ * Build the url a file of the repository is served from at a commit, by the first override that matches its path
+ * @returns The url, or undefined if no override matches
+ */
+export function build_override_url(overrides: url_override[], file_path: string, commit_sha: string): string | undefined {
+    const override = overrides.find((override) => override.glob.match(file_path));
+    return override?.template.replaceAll('{commit}', commit_sha).replaceAll('{path}', encodeURI(file_path));
+}
+
 //#region initialization
 export async function initialize_packaging(overwrite: boolean, skip_prompts: boolean) {
     if (PACKAGING != undefined && !(overwrite || skip_prompts)) {
@@ -650,15 +846,18 @@ export async function initialize_packaging(overwrite: boolean, skip_prompts: boo
                 '',
             );
 
+        // Embed the public key, if there already is a signing key, so unsup only accepts manifests signed by it
+        const key = get_signing_key();
         await Bun.file(packaging_dir + variant_name + '/unsup.ini').write(
             `version=1
 source_format=unsup
 source=${base_source_url}/${variant_name}/unsup/manifest.json
-use_parent_directory=${pack_variant.TYPE === 'client' ? 'true' : 'false'}`,
+use_parent_directory=${pack_variant.TYPE === 'client' ? 'true' : 'false'}` + (key != undefined ? `\npublic_key=signify ${encode_public_key(key)}` : ''),
         );
 
         // Yes, I know this is an object but it really isn't worth to stringify here
-        await Bun.file(packaging_dir + variant_name + '/unsup/manifest.json').write(
+        await write_manifest(
+            packaging_dir + variant_name + '/unsup/manifest.json',
             `{
     "unsup_manifest": "root-1",
     "name": "${intermediate_config.PACKAGING.PACK_NAME} - ${variant_name.toUpperCase()}",
@@ -698,37 +897,26 @@ export async function build_bootstrap(commit_sha: string, input_tag: string | un
     if (PACKAGING == undefined) {
         console.error("ERR: Missing config settings for packaging. Make sure to run 'packscripts package init' first.");
         return;
+    } else if (!can_build_remote_urls()) {
+        return;
     }
 
     commit_sha = await resolve_to_correct_git_ref(commit_sha);
     const short_commit_sha = commit_sha.slice(0, 7);
 
     console.info('Walking index of git blobs...');
-    const file_oids: Map<string, string> = new Map();
-    await walk({
-        fs: fs,
-        dir: RELATIVE_INSTANCE_DIRECTORY,
-        trees: [TREE({ ref: commit_sha })],
-        map: async (filepath, [entry]) => {
-            if (!entry) return null;
-            const type = await entry.type();
-            if (type === 'tree') return undefined;
-            file_oids.set(filepath, await entry.oid());
-            return null;
-        },
-    });
+    const file_oids = await read_tree_oids(commit_sha);
 
     console.info('Building bootstrap for git ref ', commit_sha, ' from ', file_oids.size, ' git objects...');
     const git_available = await is_git_available(RELATIVE_INSTANCE_DIRECTORY);
     const lfs_oids = git_available ? await get_lfs_oids(RELATIVE_INSTANCE_DIRECTORY, [commit_sha]) : undefined;
-    const target_remote_url = PACKAGING.GIT_REMOTE_URL.replace(/[^\/]+?$/m, '') + commit_sha;
-    const target_remote_lfs_url = PACKAGING.GIT_LFS_REMOTE_URL.replace(/[^\/]+?$/m, '') + commit_sha;
     const WORKER_COUNT = Math.min(PACKAGING.MAX_WORKER_THREADS, 10);
 
     for (const [variant_name, pack_variant] of target_variant != undefined
         ? Object.entries(PACKAGING.PACK_VARIANTS).filter((variant) => variant[0].toLowerCase() === target_variant.toLowerCase())
         : Object.entries(PACKAGING.PACK_VARIANTS)) {
         console.info(`\nRunning for pack variant '${variant_name}'`);
+        if (!(await can_sign_for_variant(variant_name))) return;
 
         // Don't mutate this across loops
         let tag = input_tag;
@@ -763,7 +951,7 @@ export async function build_bootstrap(commit_sha: string, input_tag: string | un
                 );
 
                 // Use direct git url as mirror url and direct url as primary if available
-                const repo_url = (is_lfs ? target_remote_lfs_url : target_remote_url) + '/' + encodeURI(plan_item[0].path);
+                const repo_url = build_remote_url(plan_item[0].path, commit_sha, is_lfs);
                 const has_direct_url = plan_item[0].extra_mod_info != undefined && plan_item[0].extra_mod_info.mod_hash === hash;
                 file_refs.push({
                     path: plan_item[0].include_as,
@@ -828,10 +1016,8 @@ export async function build_bootstrap(commit_sha: string, input_tag: string | un
                 code: version_code,
             };
 
-            await Bun.file(PACKAGING.PACKAGE_DIRECTORY + variant_name + `/unsup/versions/1.json`).write(
-                JSON.stringify(version_manifest, null, 4),
-            );
-            await Bun.file(PACKAGING.PACKAGE_DIRECTORY + variant_name + '/unsup/manifest.json').write(JSON.stringify(main_manifest, null, 4));
+            await write_manifest(PACKAGING.PACKAGE_DIRECTORY + variant_name + `/unsup/versions/1.json`, JSON.stringify(version_manifest, null, 4));
+            await write_manifest(PACKAGING.PACKAGE_DIRECTORY + variant_name + '/unsup/manifest.json', JSON.stringify(main_manifest, null, 4));
         }
 
         const manifest_versions = await read_unsup_versions_from_manifest(variant_name);
@@ -869,7 +1055,7 @@ export async function build_bootstrap(commit_sha: string, input_tag: string | un
             files: file_refs,
         };
 
-        await Bun.write(PACKAGING.PACKAGE_DIRECTORY + variant_name + '/unsup/bootstrap.json', JSON.stringify(bootstrap_manifest, null, 4));
+        await write_manifest(PACKAGING.PACKAGE_DIRECTORY + variant_name + '/unsup/bootstrap.json', JSON.stringify(bootstrap_manifest, null, 4));
         console.info(`Built & saved bootstrap manifest for pack variant '${variant_name}' with ${packaging_plan.length} items!`);
     }
 }
@@ -927,6 +1113,144 @@ export async function bundle_pack_into_starter() {
 }
 
 //#region building
+/**
+ * Build the changes that update a pack variant from one commit to another, from a walk over both of their trees
+ */
+async function build_changes_for_diff(
+    pack_variant: PackPackagingVariant,
+    base_commit_sha: string,
+    target_commit_sha: string,
+    git_available: boolean,
+    worker_count: number,
+): Promise<version_json['changes']> {
+    if (PACKAGING == undefined) throw Error('Config not yet initialized.');
+
+    console.info(`Building diff, with ${base_commit_sha.slice(0, 7)} as base -> and ${target_commit_sha.slice(0, 7)} as target...`);
+    const lfs_oids = git_available ? await get_lfs_oids(RELATIVE_INSTANCE_DIRECTORY, [base_commit_sha, target_commit_sha]) : undefined;
+
+    const diffs: {
+        filepath: string;
+        status: 'added' | 'deleted' | 'modified';
+        old_oid: string | undefined;
+        new_oid: string | undefined;
+    }[] = await walk({
+        fs: fs,
+        dir: RELATIVE_INSTANCE_DIRECTORY,
+        trees: [TREE({ ref: base_commit_sha }), TREE({ ref: target_commit_sha })],
+        map: async (filepath, [a, b]) => {
+            if (filepath === '.') return;
+
+            const type = await (a ?? b)?.type();
+            if (type === 'tree') return;
+
+            const a_oid = await a?.oid();
+            const b_oid = await b?.oid();
+
+            if (a_oid === b_oid) return;
+
+            return {
+                filepath,
+                status: !a ? 'added' : !b ? 'deleted' : 'modified',
+                old_oid: a_oid,
+                new_oid: b_oid,
+            };
+        },
+    });
+
+    // Filter by filepaths
+    const filtered_diffs = await filter_and_plan_files(
+        Object.fromEntries(diffs.map((diff_item) => [diff_item.filepath, diff_item])),
+        pack_variant,
+        await update_file_modmap_from_gitrefs([base_commit_sha, target_commit_sha]),
+    );
+
+    console.info(`Building list of changes from ${filtered_diffs.length} diffs...`);
+    const changes: version_json['changes'] = [];
+
+    const pool = create_worker_pool(filtered_diffs.length, worker_count);
+    pool.start();
+
+    const queue = [...filtered_diffs];
+    const workers = Array.from({ length: worker_count }, async (_, worker_id) => {
+        while (queue.length > 0) {
+            const [{ path: file_path, include_as: include_path, extra_mod_info }, diff_item] = queue.shift()!;
+            if (PACKAGING == undefined) throw Error('Config was initialized but is not available off-thread? Something is wrong.');
+
+            pool.set_status(worker_id, `${diff_item.status} ${file_path}`);
+
+            if (diff_item.status === 'added') {
+                const { hash, size, is_lfs } = await get_blob_info(
+                    git_available,
+                    diff_item.new_oid,
+                    RELATIVE_INSTANCE_DIRECTORY,
+                    target_commit_sha,
+                    file_path,
+                    lfs_oids,
+                );
+
+                const repo_url = build_remote_url(file_path, target_commit_sha, is_lfs);
+                const has_direct_url = extra_mod_info != undefined && extra_mod_info.mod_hash === hash;
+
+                changes.push({
+                    path: include_path,
+                    from_hash: null,
+                    from_size: 0,
+                    to_hash: hash,
+                    to_size: size,
+                    url: has_direct_url ? extra_mod_info!.direct_url : repo_url,
+                    ...(has_direct_url && { mirror_url: repo_url }),
+                });
+            } else if (diff_item.status === 'deleted') {
+                const { hash, size } = await get_blob_info(
+                    git_available,
+                    diff_item.old_oid,
+                    RELATIVE_INSTANCE_DIRECTORY,
+                    base_commit_sha,
+                    file_path,
+                    lfs_oids,
+                );
+
+                changes.push({
+                    path: include_path,
+                    from_hash: hash,
+                    from_size: size,
+                    to_hash: null,
+                    to_size: 0,
+                });
+            } else if (diff_item.status === 'modified') {
+                const [old_blob, new_blob] = await Promise.all([
+                    get_blob_info(git_available, diff_item.old_oid, RELATIVE_INSTANCE_DIRECTORY, base_commit_sha, file_path, lfs_oids),
+                    get_blob_info(git_available, diff_item.new_oid, RELATIVE_INSTANCE_DIRECTORY, target_commit_sha, file_path, lfs_oids),
+                ]);
+
+                const repo_url = build_remote_url(file_path, target_commit_sha, new_blob.is_lfs);
+                const has_direct_url = extra_mod_info != undefined && extra_mod_info.mod_hash === new_blob.hash;
+
+                changes.push({
+                    path: include_path,
+                    from_hash: old_blob.hash,
+                    from_size: old_blob.size,
+                    to_hash: new_blob.hash,
+                    to_size: new_blob.size,
+                    url: has_direct_url ? extra_mod_info!.direct_url : repo_url,
+                    ...(has_direct_url && { mirror_url: repo_url }),
+                });
+            } else {
+                throw Error('Encountered an unrecognized git change while building changes from diff: ' + diff_item);
+            }
+
+            pool.complete(worker_id);
+        }
+    });
+
+    await Promise.all(workers);
+    pool.finish(
+        `${CLIColor.Reset}Built ${CLIColor.FgWhite}${changes.length}${CLIColor.Reset} changes — ${CLIColor.FgGreen}${changes.filter((c) => c.from_hash === null).length} added${CLIColor.Reset}, ${CLIColor.FgYellow}${changes.filter((c) => c.from_hash !== null && c.to_hash !== null).length} modified${CLIColor.Reset}, ${CLIColor.FgRed}${changes.filter((c) => c.to_hash === null).length} deleted${CLIColor.Reset}.`,
+    );
+
+    return changes;
+}
+
 export async function build_version_for_diff(
     target_commit_sha: string,
     input_base_commit_sha: string | undefined,
@@ -937,6 +1261,8 @@ export async function build_version_for_diff(
     if (PACKAGING == undefined) {
         console.error("ERR: Missing config settings for packaging. Make sure to run 'packscripts package init' first.");
         return;
+    } else if (!can_build_remote_urls()) {
+        return;
     }
 
     target_commit_sha = await resolve_to_correct_git_ref(target_commit_sha);
@@ -947,6 +1273,7 @@ export async function build_version_for_diff(
         ? Object.entries(PACKAGING.PACK_VARIANTS).filter((variant) => variant[0].toLowerCase() === target_variant.toLowerCase())
         : Object.entries(PACKAGING.PACK_VARIANTS)) {
         console.info(`\nRunning for pack variant '${variant_name}'`);
+        if (!(await can_sign_for_variant(variant_name))) return;
 
         const main_manifest: manifest_json = await Bun.file(PACKAGING.PACKAGE_DIRECTORY + variant_name + '/unsup/manifest.json').json();
         if (main_manifest.versions.current.name === 'initial') {
@@ -974,139 +1301,7 @@ export async function build_version_for_diff(
             return;
         }
 
-        console.info(`Building diff, with ${base_commit_sha.slice(0, 7)} as base -> and ${target_commit_sha.slice(0, 7)} as target...`);
-        const lfs_oids = git_available ? await get_lfs_oids(RELATIVE_INSTANCE_DIRECTORY, [base_commit_sha, target_commit_sha]) : undefined;
-
-        const diffs: {
-            filepath: string;
-            status: 'added' | 'deleted' | 'modified';
-            old_oid: string | undefined;
-            new_oid: string | undefined;
-        }[] = await walk({
-            fs: fs,
-            dir: RELATIVE_INSTANCE_DIRECTORY,
-            trees: [TREE({ ref: base_commit_sha }), TREE({ ref: target_commit_sha })],
-            map: async (filepath, [a, b]) => {
-                if (filepath === '.') return;
-
-                const type = await (a ?? b)?.type();
-                if (type === 'tree') return;
-
-                const a_oid = await a?.oid();
-                const b_oid = await b?.oid();
-
-                if (a_oid === b_oid) return;
-
-                return {
-                    filepath,
-                    status: !a ? 'added' : !b ? 'deleted' : 'modified',
-                    old_oid: a_oid,
-                    new_oid: b_oid,
-                };
-            },
-        });
-
-        // Filter by filepaths
-        const filtered_diffs = await filter_and_plan_files(
-            Object.fromEntries(diffs.map((diff_item) => [diff_item.filepath, diff_item])),
-            pack_variant,
-            await update_file_modmap_from_gitrefs([base_commit_sha, target_commit_sha]),
-        );
-
-        console.info(`Building list of changes from ${filtered_diffs.length} diffs...`);
-        // Remove branch / git ref from remote url and use the target ref
-        const target_remote_url = PACKAGING.GIT_REMOTE_URL.replace(/[^\/]+?$/m, '') + target_commit_sha;
-        const target_remote_lfs_url = PACKAGING.GIT_LFS_REMOTE_URL.replace(/[^\/]+?$/m, '') + target_commit_sha;
-
-        const changes: {
-            path: string;
-            from_hash: string | null;
-            from_size: number;
-            to_hash: string | null;
-            to_size: number;
-            url?: string;
-        }[] = [];
-
-        const pool = create_worker_pool(filtered_diffs.length, WORKER_COUNT);
-        pool.start();
-
-        const queue = [...filtered_diffs];
-        const workers = Array.from({ length: WORKER_COUNT }, async (_, worker_id) => {
-            while (queue.length > 0) {
-                const [{ path: file_path, include_as: include_path, extra_mod_info }, diff_item] = queue.shift()!;
-                if (PACKAGING == undefined) throw Error('Config was initialized but is not available off-thread? Something is wrong.');
-
-                pool.set_status(worker_id, `${diff_item.status} ${file_path}`);
-
-                if (diff_item.status === 'added') {
-                    const { hash, size, is_lfs } = await get_blob_info(
-                        git_available,
-                        diff_item.new_oid,
-                        RELATIVE_INSTANCE_DIRECTORY,
-                        target_commit_sha,
-                        file_path,
-                        lfs_oids,
-                    );
-
-                    const repo_url = (is_lfs ? target_remote_lfs_url : target_remote_url) + '/' + encodeURI(file_path);
-                    const has_direct_url = extra_mod_info != undefined && extra_mod_info.mod_hash === hash;
-
-                    changes.push({
-                        path: include_path,
-                        from_hash: null,
-                        from_size: 0,
-                        to_hash: hash,
-                        to_size: size,
-                        url: has_direct_url ? extra_mod_info!.direct_url : repo_url,
-                        ...(has_direct_url && { mirror_url: repo_url }),
-                    });
-                } else if (diff_item.status === 'deleted') {
-                    const { hash, size } = await get_blob_info(
-                        git_available,
-                        diff_item.old_oid,
-                        RELATIVE_INSTANCE_DIRECTORY,
-                        base_commit_sha,
-                        file_path,
-                        lfs_oids,
-                    );
-
-                    changes.push({
-                        path: include_path,
-                        from_hash: hash,
-                        from_size: size,
-                        to_hash: null,
-                        to_size: 0,
-                    });
-                } else if (diff_item.status === 'modified') {
-                    const [old_blob, new_blob] = await Promise.all([
-                        get_blob_info(git_available, diff_item.old_oid, RELATIVE_INSTANCE_DIRECTORY, base_commit_sha, file_path, lfs_oids),
-                        get_blob_info(git_available, diff_item.new_oid, RELATIVE_INSTANCE_DIRECTORY, target_commit_sha, file_path, lfs_oids),
-                    ]);
-
-                    const repo_url = (new_blob.is_lfs ? target_remote_lfs_url : target_remote_url) + '/' + encodeURI(file_path);
-                    const has_direct_url = extra_mod_info != undefined && extra_mod_info.mod_hash === new_blob.hash;
-
-                    changes.push({
-                        path: include_path,
-                        from_hash: old_blob.hash,
-                        from_size: old_blob.size,
-                        to_hash: new_blob.hash,
-                        to_size: new_blob.size,
-                        url: has_direct_url ? extra_mod_info!.direct_url : repo_url,
-                        ...(has_direct_url && { mirror_url: repo_url }),
-                    });
-                } else {
-                    throw Error('Encountered an unrecognized git change while building changes from diff: ' + diff_item);
-                }
-
-                pool.complete(worker_id);
-            }
-        });
-
-        await Promise.all(workers);
-        pool.finish(
-            `${CLIColor.Reset}Built ${CLIColor.FgWhite}${changes.length}${CLIColor.Reset} changes — ${CLIColor.FgGreen}${changes.filter((c) => c.from_hash === null).length} added${CLIColor.Reset}, ${CLIColor.FgYellow}${changes.filter((c) => c.from_hash !== null && c.to_hash !== null).length} modified${CLIColor.Reset}, ${CLIColor.FgRed}${changes.filter((c) => c.to_hash === null).length} deleted${CLIColor.Reset}.`,
-        );
+        const changes = await build_changes_for_diff(pack_variant, base_commit_sha, target_commit_sha, git_available, WORKER_COUNT);
 
         const version_code = versions.current.code + 1;
         if (tag == undefined) {
@@ -1134,10 +1329,693 @@ export async function build_version_for_diff(
             code: version_code,
         };
 
-        await Bun.file(PACKAGING.PACKAGE_DIRECTORY + variant_name + `/unsup/versions/${version_code}.json`).write(
-            JSON.stringify(version_manifest, null, 4),
-        );
-        await Bun.file(PACKAGING.PACKAGE_DIRECTORY + variant_name + '/unsup/manifest.json').write(JSON.stringify(main_manifest, null, 4));
+        await write_manifest(PACKAGING.PACKAGE_DIRECTORY + variant_name + `/unsup/versions/${version_code}.json`, JSON.stringify(version_manifest, null, 4));
+        await write_manifest(PACKAGING.PACKAGE_DIRECTORY + variant_name + '/unsup/manifest.json', JSON.stringify(main_manifest, null, 4));
         console.info(`Built & saved manifests for pack variant '${variant_name}' under version ${tag}!`);
     }
 }
+
+//#region keys
+/**
+ * Create the key that signs the unsup manifests, embed its public key in the unsup.ini of every pack variant
+ * and sign the manifests that already exist with it.
+ */
+export async function generate_packaging_key(overwrite: boolean) {
+    if (PACKAGING == undefined) {
+        console.error("ERR: Missing config settings for packaging. Make sure to run 'packscripts package init' first.");
+        return;
+    }
+    if (PACKAGING_SIGNING_KEY != undefined && !overwrite) {
+        console.info(
+            'Found an already existing signing key, refusing to create a new one. Players reject manifests signed by a new key until they get an unsup.ini with it. Overwrite with --overwrite.',
+        );
+        return;
+    }
+
+    const key = generate_signing_key();
+    await set_secret_keys({ PACKAGING_SIGNING_KEY: encode_secret_key(key) });
+    cached_signing_key = key;
+    const public_key = 'signify ' + encode_public_key(key);
+
+    for (const variant_name of Object.keys(PACKAGING.PACK_VARIANTS)) {
+        const ini_file = Bun.file(PACKAGING.PACKAGE_DIRECTORY + variant_name + '/unsup.ini');
+        if (await ini_file.exists()) {
+            const ini = await ini_file.text();
+            await ini_file.write(
+                /^public_key=/m.test(ini) ? ini.replace(/^public_key=.*$/m, 'public_key=' + public_key) : ini.replace(/\n?$/, '\n') + 'public_key=' + public_key,
+            );
+        } else {
+            console.warn(`W: Pack variant '${variant_name}' has no unsup.ini, add "public_key=${public_key}" to it yourself.`);
+        }
+
+        const manifests = list_variant_manifests(variant_name);
+        for (const manifest_path of manifests) {
+            await write_manifest(manifest_path, await Bun.file(manifest_path).text());
+        }
+        console.info(`Signed ${manifests.length} manifests of pack variant '${variant_name}'.`);
+    }
+
+    console.info(
+        `\nWrote the signing key to ${ENV_FILE}. Keep it out of git, and back it up, since losing it means shipping a new unsup.ini to every player.
+        Public key: ${CLIColor.Bright}${public_key}${CLIColor.Reset}
+        Rebundle your pack with "packscripts package bundle", so new installs get the public key.`,
+    );
+}
+
+//#region verification
+interface verification_result {
+    checked: number;
+    problems: string[];
+}
+
+/**
+ * Check the detached signatures of all manifests of a pack variant against the public key in its unsup.ini, like unsup does
+ */
+async function verify_variant_signatures(variant_name: string): Promise<verification_result> {
+    if (PACKAGING == undefined) throw Error('Config not yet initialized.');
+
+    let public_key: verify_key | undefined;
+    try {
+        public_key = await read_variant_public_key(variant_name);
+    } catch (err) {
+        return { checked: 0, problems: [`The public key in unsup.ini is invalid: ${(err as Error).message}`] };
+    }
+    if (public_key == undefined) {
+        return { checked: 0, problems: ['unsup.ini has no public_key, so unsup does not check the manifests. Create one with "packscripts package keygen".'] };
+    }
+
+    const manifests = list_variant_manifests(variant_name);
+    const problems: string[] = [];
+    for (const manifest_path of manifests) {
+        const signature_file = Bun.file(manifest_path + '.sig');
+        const problem = !(await signature_file.exists())
+            ? 'is missing'
+            : verify_detached(await Bun.file(manifest_path).bytes(), await signature_file.text(), public_key);
+        if (problem != undefined) problems.push(`${path.relative(PACKAGING.PACKAGE_DIRECTORY + variant_name, manifest_path)}: signature ${problem}`);
+    }
+    return { checked: manifests.length, problems };
+}
+
+/**
+ * Get the oid of the blob at a path in a commit
+ * @returns The oid, or undefined if there is no file at that path
+ */
+async function resolve_blob_oid(git_available: boolean, commit_sha: string, file_path: string): Promise<string | undefined> {
+    if (git_available) {
+        const proc = Bun.spawn(['git', 'rev-parse', '--verify', '--quiet', `${commit_sha}:${file_path}`], {
+            cwd: RELATIVE_INSTANCE_DIRECTORY,
+            stdout: 'pipe',
+            stderr: 'pipe',
+        });
+        const out = await new Response(proc.stdout).text();
+        return (await proc.exited) === 0 && out.trim() ? out.trim() : undefined;
+    }
+    return (await readBlob({ fs, dir: RELATIVE_INSTANCE_DIRECTORY, oid: commit_sha, filepath: file_path }).catch(() => undefined))?.oid;
+}
+
+/**
+ * Find where a manifest file points into the repository, by the remote urls & URL_OVERRIDES of the packaging config
+ */
+function locate_repository_file(file: { url?: string; mirror_url?: string }): { commit_sha: string; file_path: string } | undefined {
+    if (PACKAGING == undefined) throw Error('Config not yet initialized.');
+    return parse_repository_url(file, [PACKAGING.GIT_REMOTE_URL, PACKAGING.GIT_LFS_REMOTE_URL], get_url_overrides());
+}
+
+/**
+ * Find the url of a manifest file that points into the repository, or into one of the url overrides.
+ * Direct urls (like github releases) always come with a mirror url into it.
+ * @param remote_urls The (lfs) remote urls of the repository, which end in the branch or git ref
+ * @returns The commit & path in the repository it points at, or undefined if none of its urls do
+ */
+export function parse_repository_url(
+    file: { url?: string; mirror_url?: string },
+    remote_urls: string[],
+    overrides: url_override[],
+): { commit_sha: string; file_path: string } | undefined {
+    const remote_prefixes = remote_urls.map((url) => url.replace(/[^\/]+?$/m, ''));
+    for (const url of [file.mirror_url, file.url]) {
+        const override_match = overrides.map((override) => (url != undefined ? override.pattern.exec(url) : null)).find((match) => match?.groups != undefined);
+        if (override_match?.groups?.commit != undefined && override_match.groups.path != undefined) {
+            return { commit_sha: override_match.groups.commit, file_path: decodeURI(override_match.groups.path) };
+        }
+
+        const remote_prefix = remote_prefixes.find((prefix) => url?.startsWith(prefix));
+        if (url == undefined || remote_prefix == undefined) continue;
+
+        const [commit_sha, ...path_parts] = url.slice(remote_prefix.length).split('/');
+        if (commit_sha) return { commit_sha, file_path: decodeURI(path_parts.join('/')) };
+    }
+    return undefined;
+}
+
+/**
+ * Check that a file of a manifest links into the repository at the commit of its version, and has the hash & size it claims there
+ * @returns Why it doesn't, or undefined if it does
+ */
+async function check_manifest_file(
+    file: { url?: string; mirror_url?: string },
+    hash: string,
+    size: number,
+    commit_sha: string,
+    git_available: boolean,
+    lfs_oids: Map<string, { hash: string; size: number }> | undefined,
+): Promise<string | undefined> {
+    const location = locate_repository_file(file);
+    if (location == undefined) return 'has no url into the repository';
+    if (location.commit_sha !== commit_sha) return `links to commit ${location.commit_sha.slice(0, 7)}, instead of ${commit_sha.slice(0, 7)}`;
+
+    const file_path = location.file_path;
+    const oid = await resolve_blob_oid(git_available, commit_sha, file_path);
+    if (oid == undefined) return `links to ${file_path}, which does not exist at ${commit_sha.slice(0, 7)}`;
+
+    const blob = await get_blob_info(git_available, oid, RELATIVE_INSTANCE_DIRECTORY, commit_sha, file_path, lfs_oids);
+    if (blob.hash !== hash || blob.size !== size) {
+        return `claims ${hash.slice(0, 12)} (${size} bytes), but ${file_path} at ${commit_sha.slice(0, 7)} is ${blob.hash.slice(0, 12)} (${blob.size} bytes)`;
+    }
+    return undefined;
+}
+
+/**
+ * Read the mmc-component versions from the mmc-pack.json at a commit
+ * @returns The versions by component uid, or undefined if the commit has no mmc-pack.json
+ */
+async function read_mmc_component_versions_at(commit_sha: string): Promise<Map<string, string> | undefined> {
+    const blob = await readBlob({ fs, dir: RELATIVE_INSTANCE_DIRECTORY, oid: commit_sha, filepath: 'mmc-pack.json' }).catch(() => undefined);
+    if (blob == undefined) return undefined;
+    return parse_mmc_component_versions(JSON.parse(new TextDecoder().decode(blob.blob)));
+}
+
+/**
+ * Replay the version manifests of a pack variant in order, and check them against the commits their versions were built from:
+ * every change has to start where the versions before it left the file, link to an existing file at its commit with the hash & size it claims,
+ * and the component versions have to match the mmc-pack.json of that commit. bootstrap.json has to match the replayed files at its version.
+ */
+async function verify_variant_history(variant_name: string, git_available: boolean): Promise<verification_result> {
+    if (PACKAGING == undefined) throw Error('Config not yet initialized.');
+
+    const unsup_dir = PACKAGING.PACKAGE_DIRECTORY + variant_name + '/unsup/';
+    const main_manifest: manifest_json = await Bun.file(unsup_dir + 'manifest.json').json();
+    if (main_manifest.versions.current.name === 'initial') return { checked: 0, problems: [] };
+
+    const manifest_versions = await read_unsup_versions_from_manifest(variant_name);
+    const versions = [...manifest_versions.history, manifest_versions.current].sort((a, b) => a.code - b.code);
+    const problems: string[] = [];
+
+    const commits: Map<number, string> = new Map();
+    for (const version of versions) {
+        try {
+            commits.set(version.code, await resolve_to_correct_git_ref(version.hash));
+        } catch {
+            problems.push(`Version ${version.actual_name} (${version.code}) was built from commit ${version.hash}, which is not in the repository.`);
+        }
+    }
+    const lfs_oids = git_available ? await get_lfs_oids(RELATIVE_INSTANCE_DIRECTORY, [...commits.values()]) : undefined;
+
+    const replayed_versions: replayed_version[] = [];
+    for (const version of versions) {
+        const version_file = Bun.file(unsup_dir + `versions/${version.code}.json`);
+        const manifest: version_json | undefined = (await version_file.exists()) ? await version_file.json() : undefined;
+        replayed_versions.push({ version, commit_sha: commits.get(version.code), manifest });
+    }
+
+    const bootstrap_file = Bun.file(unsup_dir + 'bootstrap.json');
+    const bootstrap: bootstrap_json | undefined = (await bootstrap_file.exists()) ? await bootstrap_file.json() : undefined;
+
+    const result = await replay_variant_history(replayed_versions, bootstrap, {
+        check_file: (file, hash, size, commit_sha) => check_manifest_file(file, hash, size, commit_sha, git_available, lfs_oids),
+        read_component_versions: read_mmc_component_versions_at,
+    });
+    return { checked: result.checked, problems: [...problems, ...result.problems] };
+}
+
+interface replayed_version {
+    version: PackVersion;
+    // The commit it was built from, if that is in the repository
+    commit_sha: string | undefined;
+    // Its versions/N.json, if that exists
+    manifest: version_json | undefined;
+}
+
+interface history_checks {
+    // Why a file of a manifest doesn't match the commit it links into, or undefined if it does
+    check_file: (file: { url?: string; mirror_url?: string }, hash: string, size: number, commit_sha: string) => Promise<string | undefined>;
+    // The component versions in the mmc-pack.json of a commit
+    read_component_versions: (commit_sha: string) => Promise<Map<string, string> | undefined>;
+}
+
+/**
+ * Replay parsed version manifests in order, and check each of them against the commit it was built from (see verify_variant_history)
+ * @param versions The versions of a pack variant, sorted by their code
+ */
+export async function replay_variant_history(versions: replayed_version[], bootstrap: bootstrap_json | undefined, checks: history_checks): Promise<verification_result> {
+    const problems: string[] = [];
+    let checked = 0;
+
+    const bootstrap_commit = bootstrap?.version.name.match(/\((\w+)\)$/m)?.[1];
+    if (bootstrap != undefined && !versions.some(({ version }) => version.code == bootstrap.version.code)) {
+        problems.push(`bootstrap.json is for version code ${bootstrap.version.code}, which manifest.json does not list.`);
+    }
+
+    // The files a player has after updating through each version, by their path in the instance
+    const files: Map<string, { hash: string; size: number }> = new Map();
+    for (const { version, commit_sha, manifest: version_manifest } of versions) {
+        const version_name = `versions/${version.code}.json`;
+        if (version_manifest == undefined) {
+            problems.push(`${version_name} is missing, so the versions after it can't be replayed.`);
+            break;
+        }
+
+        for (const change of version_manifest.changes) {
+            checked++;
+            const previous_hash = files.get(change.path)?.hash ?? null;
+            if (previous_hash !== change.from_hash) {
+                problems.push(
+                    `${version_name}: ${change.path} expects ${change.from_hash?.slice(0, 12) ?? 'no file'} before the update, but the versions before it leave ${previous_hash?.slice(0, 12) ?? 'no file'}.`,
+                );
+            }
+
+            if (change.to_hash == null) {
+                files.delete(change.path);
+                continue;
+            }
+            files.set(change.path, { hash: change.to_hash, size: change.to_size });
+            if (commit_sha == undefined) continue;
+
+            const problem = await checks.check_file(change, change.to_hash, change.to_size, commit_sha);
+            if (problem != undefined) problems.push(`${version_name}: ${change.path} ${problem}.`);
+        }
+
+        if (commit_sha != undefined) {
+            const mmc_versions = await checks.read_component_versions(commit_sha);
+            const recorded_versions = version_manifest.component_versions ?? {};
+            const differing = [...new Set([...(mmc_versions?.keys() ?? []), ...Object.keys(recorded_versions)])].filter(
+                (uid) => mmc_versions?.get(uid) !== recorded_versions[uid],
+            );
+            if (mmc_versions != undefined && differing.length > 0) {
+                problems.push(`${version_name}: component_versions differ from the mmc-pack.json at ${commit_sha.slice(0, 7)} in ${differing.join(', ')}.`);
+            }
+        }
+
+        if (bootstrap == undefined || bootstrap.version.code != version.code) continue;
+        if (bootstrap_commit !== version.hash) {
+            // Bootstraps of commits between versions are marked -dirty, and can't match any replayed state
+            console.warn(
+                `W: bootstrap.json was built from ${bootstrap_commit}, not from the commit of version ${version.actual_name}, so it is not compared to the replayed files.`,
+            );
+        } else {
+            for (const file of bootstrap.files) {
+                checked++;
+                if (files.get(file.path)?.hash !== file.hash) {
+                    problems.push(
+                        `bootstrap.json: ${file.path} is ${file.hash.slice(0, 12)}, but replaying up to version ${version.code} gives ${files.get(file.path)?.hash.slice(0, 12) ?? 'no file'}.`,
+                    );
+                }
+                if (commit_sha == undefined) continue;
+                const problem = await checks.check_file(file, file.hash, file.size, commit_sha);
+                if (problem != undefined) problems.push(`bootstrap.json: ${file.path} ${problem}.`);
+            }
+            const bootstrap_paths = new Set(bootstrap.files.map((file) => file.path));
+            for (const file_path of files.keys().filter((file_path) => !bootstrap_paths.has(file_path))) {
+                problems.push(`bootstrap.json: ${file_path} is missing, but replaying up to version ${version.code} gives it.`);
+            }
+        }
+    }
+
+    return { checked, problems };
+}
+
+/**
+ * Print the result of a verification step, with its problems below it
+ */
+function report_verification(step: string, unit: string, { checked, problems }: verification_result) {
+    if (problems.length == 0) {
+        console.log(`${CLIColor.FgGreen11}✔${CLIColor.Reset} ${step}: ${checked} ${unit}`);
+        return;
+    }
+    console.log(`${CLIColor.FgRed}✖${CLIColor.Reset} ${step}: ${problems.length} problems in ${checked} ${unit}`);
+    for (const problem of problems) {
+        console.log(`    ${CLIColor.FgGray}-${CLIColor.Reset} ${problem}`);
+    }
+}
+
+/**
+ * Check the published manifests of every pack variant: their signatures, and whether they still agree with the git history they were built from.
+ * Sets a non-zero exit code if any check fails, so CI can gate on it.
+ */
+export async function verify_packaging(options: { target_variant?: string | undefined; skip_signatures: boolean }) {
+    if (PACKAGING == undefined) {
+        console.error("ERR: Missing config settings for packaging. Make sure to run 'packscripts package init' first.");
+        process.exitCode = 1;
+        return;
+    } else if (!can_build_remote_urls()) {
+        process.exitCode = 1;
+        return;
+    }
+
+    const git_available = await is_git_available(RELATIVE_INSTANCE_DIRECTORY);
+    const variant_names =
+        options.target_variant != undefined
+            ? Object.keys(PACKAGING.PACK_VARIANTS).filter((variant) => variant.toLowerCase() === options.target_variant?.toLowerCase())
+            : Object.keys(PACKAGING.PACK_VARIANTS);
+
+    const failed_variants: string[] = [];
+    let problem_count = 0;
+    for (const variant_name of variant_names) {
+        console.info(`\nVerifying pack variant '${variant_name}'`);
+        const results: verification_result[] = [];
+
+        if (!options.skip_signatures) {
+            results.push(await verify_variant_signatures(variant_name));
+            report_verification('Signatures', 'manifests', results.at(-1)!);
+        }
+
+        try {
+            results.push(await verify_variant_history(variant_name, git_available));
+        } catch (err) {
+            results.push({ checked: 0, problems: [(err as Error).message] });
+        }
+        report_verification('History', 'files', results.at(-1)!);
+
+        const variant_problems = results.reduce((sum, result) => sum + result.problems.length, 0);
+        if (variant_problems > 0) failed_variants.push(variant_name);
+        problem_count += variant_problems;
+    }
+
+    if (variant_names.length == 0) {
+        console.error(`ERR: No pack variant is called '${options.target_variant}'.`);
+        process.exitCode = 1;
+    } else if (failed_variants.length > 0) {
+        console.error(`\nVerification: FAILED - ${problem_count} problems in ${failed_variants.join(', ')}.`);
+        process.exitCode = 1;
+    } else {
+        console.log(
+            `\n${CLIColor.FgGreen11}✔${CLIColor.Reset} Verification: PASSED - all ${variant_names.length} pack variants agree with ${options.skip_signatures ? 'their' : 'their signatures &'} git history.`,
+        );
+    }
+}
+
+//#region simulation
+/**
+ * Find a version of a manifest by its code, its tag or its full name
+ */
+function find_manifest_version(versions: PackVersion[], query: string): PackVersion | undefined {
+    return versions.find((version) => String(version.code) === query) ?? versions.find((version) => version.name === query || version.actual_name === query);
+}
+
+/**
+ * Read the content of a file at a commit, with lfs pointers resolved to the object they point at
+ * @returns The content, or undefined if there is no such file or its lfs object is not available
+ */
+async function read_file_at_commit(git_available: boolean, commit_sha: string, file_path: string): Promise<Uint8Array | undefined> {
+    const oid = await resolve_blob_oid(git_available, commit_sha, file_path);
+    if (oid == undefined) return undefined;
+
+    const { blob } = await readBlob({ fs, dir: RELATIVE_INSTANCE_DIRECTORY, oid });
+    if (blob.byteLength >= 512 || !new TextDecoder().decode(blob).startsWith('version https://git-lfs.github.com/spec/v1')) return blob;
+    if (!git_available) return undefined;
+
+    const proc = Bun.spawn(['git', 'lfs', 'smudge'], { cwd: RELATIVE_INSTANCE_DIRECTORY, stdin: blob, stdout: 'pipe', stderr: 'pipe' });
+    const content = new Uint8Array(await new Response(proc.stdout).arrayBuffer());
+    return (await proc.exited) === 0 ? content : undefined;
+}
+
+/**
+ * Serve the files of the repository the way GIT_REMOTE_URL does, as /<commit>/<path>
+ */
+function serve_repository(git_available: boolean) {
+    return Bun.serve({
+        port: 0,
+        hostname: '127.0.0.1',
+        fetch: async (request) => {
+            const [commit_sha, ...path_parts] = new URL(request.url).pathname.slice(1).split('/');
+            const content =
+                commit_sha != undefined
+                    ? await read_file_at_commit(git_available, commit_sha, decodeURI(path_parts.join('/'))).catch(() => undefined)
+                    : undefined;
+            return content != undefined ? new Response(content) : new Response('Not found', { status: 404 });
+        },
+    });
+}
+
+/**
+ * Resolve a path of a manifest inside the simulated instance
+ * @returns The path, or undefined if it would end up outside of the instance
+ */
+export function resolve_instance_path(instance_dir: string, file_path: string): string | undefined {
+    const target_path = path.resolve(instance_dir, file_path);
+    return target_path.startsWith(path.resolve(instance_dir) + path.sep) ? target_path : undefined;
+}
+
+/**
+ * Download a file of a manifest from the local server into the simulated instance, and check it like unsup does
+ * @returns Why it failed, or undefined if it worked
+ */
+async function download_simulated_file(
+    file: { url?: string; mirror_url?: string },
+    hash: string,
+    size: number,
+    target_path: string,
+    server_url: string,
+): Promise<string | undefined> {
+    const location = locate_repository_file(file);
+    if (location == undefined) return 'has no url into the repository';
+
+    const response = await fetch(`${server_url}${location.commit_sha}/${encodeURI(location.file_path)}`);
+    if (!response.ok) return `could not be downloaded from ${location.file_path} at ${location.commit_sha.slice(0, 7)}`;
+
+    const content = new Uint8Array(await response.arrayBuffer());
+    const content_hash = await hash_buffer(content);
+    if (content_hash !== hash || content.byteLength !== size) {
+        return `was downloaded as ${content_hash.slice(0, 12)} (${content.byteLength} bytes), but the manifest expects ${hash.slice(0, 12)} (${size} bytes)`;
+    }
+    await Bun.write(target_path, content);
+    return undefined;
+}
+
+/**
+ * Apply the version manifest of a pack variant to the simulated instance, with its files downloaded from the local server
+ */
+async function apply_simulated_version_file(variant_name: string, version_code: number, instance_dir: string, server_url: string, result: verification_result) {
+    if (PACKAGING == undefined) throw Error('Config not yet initialized.');
+
+    const version_name = `versions/${version_code}.json`;
+    const version_file = Bun.file(PACKAGING.PACKAGE_DIRECTORY + variant_name + '/unsup/' + version_name);
+    if (!(await version_file.exists())) {
+        result.problems.push(`${version_name} is missing.`);
+        return;
+    }
+
+    await apply_simulated_version(version_name, await version_file.json(), instance_dir, result, (file, hash, size, target_path) =>
+        download_simulated_file(file, hash, size, target_path, server_url),
+    );
+}
+
+/**
+ * Apply the changes of a version to the simulated instance like unsup does.
+ * Files that are not in the state a change starts from are left alone, like unsup does with files the player changed.
+ * @param download Downloads a file of the manifest to the target path, and returns why that failed
+ */
+export async function apply_simulated_version(
+    version_name: string,
+    version_manifest: version_json,
+    instance_dir: string,
+    result: verification_result,
+    download: (file: { url?: string; mirror_url?: string }, hash: string, size: number, target_path: string) => Promise<string | undefined>,
+) {
+    for (const change of version_manifest.changes) {
+        result.checked++;
+        const target_path = resolve_instance_path(instance_dir, change.path);
+        if (target_path == undefined) {
+            result.problems.push(`${version_name}: ${change.path} points outside of the instance.`);
+            continue;
+        }
+
+        const current_hash = (await Bun.file(target_path).exists()) ? await hash_file(target_path) : null;
+        if (current_hash !== change.from_hash) {
+            result.problems.push(
+                `${version_name}: ${change.path} is ${current_hash?.slice(0, 12) ?? 'missing'}, but the change starts from ${change.from_hash?.slice(0, 12) ?? 'no file'}, so unsup would not replace it.`,
+            );
+            continue;
+        }
+
+        if (change.to_hash == null) {
+            await rm(target_path, { force: true });
+            continue;
+        }
+        const problem = await download(change, change.to_hash, change.to_size, target_path);
+        if (problem != undefined) result.problems.push(`${version_name}: ${change.path} ${problem}.`);
+    }
+}
+
+/**
+ * Compare the files of the simulated instance to the files a pack variant should have at a commit
+ */
+async function diff_simulated_instance(
+    instance_dir: string,
+    pack_variant: PackPackagingVariant,
+    commit_sha: string,
+    git_available: boolean,
+): Promise<verification_result> {
+    const file_oids = await read_tree_oids(commit_sha);
+    const packaging_plan = await filter_and_plan_files(
+        Object.fromEntries(file_oids.keys().map((file_path) => [file_path, null])),
+        pack_variant,
+        await update_file_modmap_from_gitrefs([commit_sha]),
+    );
+    const lfs_oids = git_available ? await get_lfs_oids(RELATIVE_INSTANCE_DIRECTORY, [commit_sha]) : undefined;
+
+    const expected: Map<string, string> = new Map();
+    for (const [{ path: file_path, include_as }] of packaging_plan) {
+        const { hash } = await get_blob_info(git_available, file_oids.get(file_path), RELATIVE_INSTANCE_DIRECTORY, commit_sha, file_path, lfs_oids);
+        expected.set(path.normalize(include_as), hash);
+    }
+    return await diff_instance_files(instance_dir, expected);
+}
+
+/**
+ * Compare the files of the simulated instance to the expected ones
+ * @param expected The hashes of the files it should have, by their normalized path in the instance
+ */
+export async function diff_instance_files(instance_dir: string, expected: Map<string, string>): Promise<verification_result> {
+    const actual: Map<string, string> = new Map();
+    for (const file_path of sync('**/*', { cwd: instance_dir, onlyFiles: true, dot: true })) {
+        actual.set(path.normalize(file_path), await hash_file(path.join(instance_dir, file_path)));
+    }
+
+    const problems: string[] = [];
+    for (const [file_path, hash] of expected) {
+        const actual_hash = actual.get(file_path);
+        if (actual_hash == undefined) {
+            problems.push(`${file_path} is missing.`);
+        } else if (actual_hash !== hash) {
+            problems.push(`${file_path} is ${actual_hash.slice(0, 12)}, instead of ${hash.slice(0, 12)}.`);
+        }
+    }
+    for (const file_path of actual.keys().filter((file_path) => !expected.has(file_path))) {
+        problems.push(`${file_path} should not be there.`);
+    }
+    return { checked: new Set([...expected.keys(), ...actual.keys()]).size, problems };
+}
+
+/**
+ * Install a version of a pack variant into a temporary directory, update it to another version & compare it to the git tree of that version
+ * @returns How many problems were found
+ */
+async function simulate_variant_update(
+    variant_name: string,
+    from_query: string,
+    to_query: string,
+    git_available: boolean,
+    server_url: string,
+    keep: boolean,
+): Promise<number> {
+    if (PACKAGING == undefined) throw Error('Config not yet initialized.');
+    const pack_variant = PACKAGING.PACK_VARIANTS[variant_name] as PackPackagingVariant;
+
+    const manifest_versions = await read_unsup_versions_from_manifest(variant_name);
+    const versions = [...manifest_versions.history, manifest_versions.current].sort((a, b) => a.code - b.code);
+    const from_version = find_manifest_version(versions, from_query);
+    const to_version = find_manifest_version(versions, to_query);
+    if (from_version == undefined || to_version == undefined) {
+        throw Error(`manifest.json has no version ${from_version == undefined ? from_query : to_query}.`);
+    } else if (from_version.code >= to_version.code) {
+        throw Error(`unsup only updates to newer versions, but ${to_version.actual_name} is not newer than ${from_version.actual_name}.`);
+    }
+
+    const instance_dir = PACKSCRIPTS_TMP_DIR + 'simulate/' + variant_name + '/';
+    await rm(instance_dir, { recursive: true, force: true });
+    await mkdir(instance_dir, { recursive: true });
+
+    // New players start from the bootstrap, if it is for that version, and from the first version otherwise
+    const install: verification_result = { checked: 0, problems: [] };
+    const bootstrap_file = Bun.file(PACKAGING.PACKAGE_DIRECTORY + variant_name + '/unsup/bootstrap.json');
+    const bootstrap: bootstrap_json | undefined = (await bootstrap_file.exists()) ? await bootstrap_file.json() : undefined;
+    const use_bootstrap = bootstrap != undefined && bootstrap.version.code == from_version.code && bootstrap.version.name === from_version.actual_name;
+    if (use_bootstrap) {
+        for (const file of bootstrap.files) {
+            install.checked++;
+            const target_path = resolve_instance_path(instance_dir, file.path);
+            const problem =
+                target_path == undefined ? 'points outside of the instance' : await download_simulated_file(file, file.hash, file.size, target_path, server_url);
+            if (problem != undefined) install.problems.push(`bootstrap.json: ${file.path} ${problem}.`);
+        }
+    } else {
+        for (const version of versions.filter((version) => version.code <= from_version.code)) {
+            await apply_simulated_version_file(variant_name, version.code, instance_dir, server_url, install);
+        }
+    }
+    report_verification(`Installed ${from_version.actual_name} from ${use_bootstrap ? 'bootstrap.json' : 'the version manifests'}`, 'files', install);
+
+    const update: verification_result = { checked: 0, problems: [] };
+    for (const version of versions.filter((version) => version.code > from_version.code && version.code <= to_version.code)) {
+        await apply_simulated_version_file(variant_name, version.code, instance_dir, server_url, update);
+    }
+    report_verification(`Updated to ${to_version.actual_name}`, 'changes', update);
+
+    const to_commit_sha = await resolve_to_correct_git_ref(to_version.hash);
+    const diff = await diff_simulated_instance(instance_dir, pack_variant, to_commit_sha, git_available);
+    report_verification(`Compared to the git tree at ${to_commit_sha.slice(0, 7)}`, 'files', diff);
+
+    if (keep) {
+        console.info(`Kept the simulated instance at ${instance_dir}`);
+    } else {
+        await rm(instance_dir, { recursive: true, force: true });
+    }
+    return install.problems.length + update.problems.length + diff.problems.length;
+}
+
+/**
+ * Simulate a player updating between two versions: install the first version from the manifests, update it to the second one like unsup does,
+ * with all files served from the repository by a local server instead of GIT_REMOTE_URL, and compare the result to the git tree of the second version.
+ * Sets a non-zero exit code if anything does not match.
+ */
+export async function simulate_update(from_query: string | undefined, to_query: string | undefined, options: { target_variant?: string | undefined; keep: boolean }) {
+    if (PACKAGING == undefined) {
+        console.error("ERR: Missing config settings for packaging. Make sure to run 'packscripts package init' first.");
+        process.exitCode = 1;
+        return;
+    } else if (from_query == undefined || to_query == undefined) {
+        console.error('ERR: Missing the version to update from, or the one to update to.');
+        process.exitCode = 1;
+        return;
+    } else if (!can_build_remote_urls()) {
+        process.exitCode = 1;
+        return;
+    }
+
+    const git_available = await is_git_available(RELATIVE_INSTANCE_DIRECTORY);
+    const variant_names =
+        options.target_variant != undefined
+            ? Object.keys(PACKAGING.PACK_VARIANTS).filter((variant) => variant.toLowerCase() === options.target_variant?.toLowerCase())
+            : Object.keys(PACKAGING.PACK_VARIANTS);
+    const server = serve_repository(git_available);
+
+    const failed_variants: string[] = [];
+    let problem_count = 0;
+    try {
+        for (const variant_name of variant_names) {
+            console.info(`\nSimulating pack variant '${variant_name}'`);
+            let variant_problems: number;
+            try {
+                variant_problems = await simulate_variant_update(variant_name, from_query, to_query, git_available, server.url.href, options.keep);
+            } catch (err) {
+                console.error('ERR: ' + (err as Error).message);
+                variant_problems = 1;
+            }
+            if (variant_problems > 0) failed_variants.push(variant_name);
+            problem_count += variant_problems;
+        }
+    } finally {
+        await server.stop(true);
+    }
+
+    if (variant_names.length == 0) {
+        console.error(`ERR: No pack variant is called '${options.target_variant}'.`);
+        process.exitCode = 1;
+    } else if (failed_variants.length > 0) {
+        console.error(`\nSimulation: FAILED - ${problem_count} problems in ${failed_variants.join(', ')}.`);
+        process.exitCode = 1;
+    } else {
+        console.log(`\n${CLIColor.FgGreen11}✔${CLIColor.Reset} Simulation: PASSED - updating from ${from_query} to ${to_query} gives the git tree of ${to_query}.`);
+    }
+}
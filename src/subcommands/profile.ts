@@ -0,0 +1,135 @@
+import { ANNOTATED_FILE, PROFILES_FILE } from '../utils/config';
+import { write_file_atomic } from '../utils/fs';
+import { are_all_mods_unlocked, read_saved_mods, type mod_object } from '../utils/mods';
+import { matches_selector, tags_to_selector } from '../utils/selector';
+import { CLIColor, print_pretty } from '../utils/utils';
+import { apply_enabled_set, get_enabled_closure } from './binary';
+
+/**
+ * A profile is either a snapshot of the enabled mods, or a tag query that is resolved each time it gets loaded
+ */
+export interface mod_profile {
+    enabled?: string[];
+    include_tags?: string[];
+    exclude_tags?: string[];
+    saved_at: string;
+}
+
+//#region helpers
+async function read_profiles(): Promise<Map<string, mod_profile>> {
+    const profiles_file = Bun.file(PROFILES_FILE);
+    if (!(await profiles_file.exists())) return new Map();
+    return new Map(Object.entries(await profiles_file.json()));
+}
+
+async function write_profiles(profiles: Map<string, mod_profile>) {
+    await write_file_atomic(PROFILES_FILE, JSON.stringify(Object.fromEntries(profiles), null, 4));
+}
+
+/**
+ * Get the ids of the mods a profile wants enabled, without their dependencies
+ */
+function resolve_profile(profile: mod_profile, mod_map: Map<string, mod_object>): string[] {
+    if (profile.enabled != undefined) {
+        const missing = profile.enabled.filter((mod_id) => !mod_map.has(mod_id));
+        if (missing.length > 0) {
+            console.warn(`W: Profile contains mods that are no longer tracked, ignoring them: ${missing.join(', ')}`);
+        }
+        return profile.enabled.filter((mod_id) => mod_map.has(mod_id));
+    }
+    const selector = tags_to_selector(profile.include_tags, profile.exclude_tags);
+    return Array.from(mod_map.entries())
+        .filter(([mod_id, mod]) => selector == undefined || matches_selector(selector, mod_id, mod))
+        .map(([mod_id]) => mod_id);
+}
+
+async function get_profile(name: string): Promise<mod_profile | undefined> {
+    const profile = (await read_profiles()).get(name);
+    if (profile == undefined) {
+        console.warn(`W: No profile named ${name} exists. Use ${CLIColor.Bright}profile list${CLIColor.Reset} to see all profiles.`);
+    }
+    return profile;
+}
+
+//#region commands
+/**
+ * Save the currently enabled mods as a profile, or save a tag query if tags are given
+ */
+export async function profile_save(name: string, options: { include_tags: string[]; exclude_tags: string[] }) {
+    const profiles = await read_profiles();
+    const profile: mod_profile = { saved_at: new Date(Date.now()).toISOString() };
+    if (options.include_tags.length > 0 || options.exclude_tags.length > 0) {
+        profile.include_tags = options.include_tags;
+        profile.exclude_tags = options.exclude_tags;
+    } else {
+        const mod_map = await read_saved_mods(ANNOTATED_FILE);
+        profile.enabled = Array.from(mod_map.entries())
+            .filter(([, mod]) => mod.enabled)
+            .map(([mod_id]) => mod_id);
+    }
+
+    if (profiles.has(name)) console.info(`Overwriting existing profile ${name}.`);
+    profiles.set(name, profile);
+    await write_profiles(profiles);
+    console.log(
+        `${CLIColor.FgGreen11}✔${CLIColor.Reset} Saved profile ${CLIColor.Bright}${name}${CLIColor.Reset}` +
+            (profile.enabled != undefined ? ` with ${profile.enabled.length} enabled mods.` : ' as a tag query.'),
+    );
+}
+
+/**
+ * Enable exactly the mods of a profile (with their deps), and disable all others
+ */
+export async function profile_load(name: string) {
+    if (!(await are_all_mods_unlocked())) {
+        console.warn('W: Something is locking a file in the mods directory. Is the game still running?');
+        return;
+    }
+    const profile = await get_profile(name);
+    if (profile == undefined) return;
+
+    const mod_map = await read_saved_mods(ANNOTATED_FILE);
+    const enabled_count = await apply_enabled_set(mod_map, resolve_profile(profile, mod_map));
+    console.log(`Loaded profile ${CLIColor.Bright}${name}${CLIColor.Reset}, ${enabled_count} mods are enabled now.`);
+}
+
+/**
+ * Print which mods would change when loading a profile
+ */
+export async function profile_diff(name: string) {
+    const profile = await get_profile(name);
+    if (profile == undefined) return;
+
+    const mod_map = await read_saved_mods(ANNOTATED_FILE);
+    const target = get_enabled_closure(mod_map, resolve_profile(profile, mod_map));
+    const to_enable = Array.from(mod_map.entries())
+        .filter(([mod_id, mod]) => !mod.enabled && target.has(mod_id))
+        .map(([mod_id]) => mod_id);
+    const to_disable = Array.from(mod_map.entries())
+        .filter(([mod_id, mod]) => mod.enabled && !target.has(mod_id))
+        .map(([mod_id]) => mod_id);
+
+    if (to_enable.length == 0 && to_disable.length == 0) {
+        console.log(`Profile ${CLIColor.Bright}${name}${CLIColor.Reset} matches the current state.`);
+        return;
+    }
+    print_pretty(['would enable', to_enable], ['would disable', to_disable]);
+}
+
+export async function profile_list() {
+    const profiles = await read_profiles();
+    if (profiles.size == 0) {
+        console.log(`No profiles saved yet. Create one with ${CLIColor.Bright}profile save <name>${CLIColor.Reset}.`);
+        return;
+    }
+
+    for (const [name, profile] of profiles) {
+        const description =
+            profile.enabled != undefined
+                ? `${profile.enabled.length} enabled mods`
+                : `mods tagged [${profile.include_tags?.join(', ') || 'any'}]` + (profile.exclude_tags?.length ? `, except [${profile.exclude_tags.join(', ')}]` : '');
+        console.log(
+            `${CLIColor.FgGray} - ${CLIColor.Reset}${CLIColor.Bright}${name}${CLIColor.Reset} ${CLIColor.FgGray}(${CLIColor.FgGray18}${description}${CLIColor.FgGray}, saved ${profile.saved_at})${CLIColor.Reset}`,
+        );
+    }
+}
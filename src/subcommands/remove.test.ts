@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { mkdir, readdir, rm } from 'node:fs/promises';
+import { default_mod_object, strip_edges, type mod_object } from '../utils/mods';
+import { plan_cascade, remove_mod } from './remove';
+
+// The mods directory of the scratch pack from test_setup
+const MODS = 'mods';
+
+function make_mod(mod_id: string, overrides: Partial<mod_object> = {}): mod_object {
+    return { ...structuredClone(default_mod_object), file_path: `${MODS}/${mod_id}.jar`, ...overrides };
+}
+
+// An app with a private library chain, a library it shares with another app, and a content mod it integrates with
+function make_mod_map(): Map<string, mod_object> {
+    return new Map([
+        ['app', make_mod('app', { wants: ['lib_private', 'lib_shared', 'content'], optional_wants: ['addon'], other_mod_ids: ['app_core'] })],
+        ['other_app', make_mod('other_app', { wants: ['lib_shared', 'APP_CORE'], incompatible_with: ['app'] })],
+        ['lib_private', make_mod('lib_private', { tags: ['LIB'], wants: ['lib_deep'], wanted_by: ['app'] })],
+        ['lib_deep', make_mod('lib_deep', { tags: ['LIB'], wanted_by: ['lib_private'] })],
+        ['lib_shared', make_mod('lib_shared', { tags: ['LIB'], wanted_by: ['app', 'other_app'] })],
+        ['content', make_mod('content', { wanted_by: ['app'] })],
+        ['addon', make_mod('addon', { optionally_wanted_by: ['app'] })],
+    ]);
+}
+
+beforeEach(async () => {
+    await rm(MODS, { recursive: true, force: true });
+    await mkdir(MODS, { recursive: true });
+});
+
+describe('strip_edges', () => {
+    test('drops the ids from all edge lists, ignoring case', () => {
+        const mod_map = make_mod_map();
+        strip_edges(mod_map, ['APP', 'app_core']);
+        for (const mod of mod_map.values()) {
+            for (const edges of [mod.wants, mod.wanted_by, mod.optional_wants, mod.optionally_wanted_by, mod.incompatible_with]) {
+                expect(edges ?? []).not.toContainAnyValues(['app', 'APP_CORE']);
+            }
+        }
+        expect(mod_map.get('other_app')?.wants).toEqual(['lib_shared']);
+    });
+});
+
+describe('plan_cascade', () => {
+    test('only takes libraries nothing else wants, down the whole chain', async () => {
+        const cascade = await plan_cascade(make_mod_map(), 'app');
+        expect(cascade.map((orphan) => orphan.mod_id).sort()).toEqual(['lib_deep', 'lib_private']);
+    });
+
+    test('leaves the map alone', async () => {
+        const mod_map = make_mod_map();
+        await plan_cascade(mod_map, 'app');
+        expect(Array.from(mod_map.keys())).toEqual(Array.from(make_mod_map().keys()));
+    });
+});
+
+describe('remove_mod', () => {
+    test('deletes the jar & entry, and strips the edges of the other mods', async () => {
+        const mod_map = make_mod_map();
+        for (const mod of mod_map.values()) await Bun.write(mod.file_path, '');
+
+        await remove_mod('App', { cascade: false }, mod_map);
+        expect(mod_map.has('app')).toBe(false);
+        expect(await readdir(MODS)).not.toContain('app.jar');
+        expect(mod_map.get('lib_shared')?.wanted_by).toEqual(['other_app']);
+        expect(mod_map.get('addon')?.optionally_wanted_by).toEqual([]);
+        expect(mod_map.get('other_app')?.wants).toEqual(['lib_shared']);
+        expect(mod_map.get('other_app')?.incompatible_with).toEqual([]);
+        // Without cascade its libraries stay
+        expect(mod_map.has('lib_private')).toBe(true);
+    });
+});
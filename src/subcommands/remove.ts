@@ -0,0 +1,125 @@
+import { ANNOTATED_FILE } from '../utils/config';
+import { are_all_mods_unlocked, read_saved_mods, strip_edges, write_saved_mods, type mod_object } from '../utils/mods';
+import { CLIColor } from '../utils/utils';
+import { confirm } from '@inquirer/prompts';
+import { getModDeep } from './annotate';
+import { find_orphan_candidates, type orphan_candidate } from './audit';
+
+//#region remove
+/**
+ * Delete a mod and its entry, and clean up the edges other mods have to it.
+ * With cascade, libraries the removed mods depended on that nothing wants anymore get removed as well, after asking.
+ */
+export async function remove_mod(
+    mod_id: string,
+    options: {
+        cascade: boolean;
+    },
+    mod_map?: Map<string, mod_object>,
+) {
+    if (!(await are_all_mods_unlocked())) {
+        console.warn('W: Something is locking a file in the mods directory. Is the game still running?');
+        return;
+    }
+
+    mod_map = mod_map ?? (await read_saved_mods(ANNOTATED_FILE));
+
+    const [matched_mod_id] = getModDeep(mod_map, mod_id);
+    if (matched_mod_id == undefined) {
+        console.warn('W: Failed to resolve ', mod_id, ' to any annotated mod.');
+        return;
+    }
+
+    const to_remove = [matched_mod_id];
+    if (options.cascade) {
+        const cascade = await plan_cascade(mod_map, matched_mod_id);
+        if (cascade.length > 0) {
+            console.info(`Removing ${matched_mod_id} leaves these libraries unwanted:`);
+            for (const { mod_id: dep_id, reasons } of cascade) {
+                console.log(
+                    `${CLIColor.FgGray}-${CLIColor.Reset} ${CLIColor.Bright}${dep_id}${CLIColor.Reset} ${CLIColor.FgGray}(${reasons.join(', ')})${CLIColor.Reset}`,
+                );
+            }
+            if (await confirm({ message: `Remove these ${cascade.length} libraries as well?` })) {
+                to_remove.push(...cascade.map(({ mod_id: dep_id }) => dep_id));
+            }
+        }
+    }
+
+    const removed: string[] = [];
+    // Other mods might want a removed mod under one of its alternate ids
+    const removed_aliases: string[] = [];
+    for (const next_id of to_remove) {
+        const mod = mod_map.get(next_id);
+        if (mod == undefined) continue;
+
+        await remove_single_mod(next_id, mod, mod_map);
+        removed.push(next_id);
+        removed_aliases.push(next_id, ...(mod.other_mod_ids ?? []));
+    }
+
+    // Report what now misses one of its wants
+    for (const removed_id of removed_aliases) {
+        for (const [dependent_id, dependent] of mod_map) {
+            if (dependent.wants?.some((dep_id) => dep_id.toLowerCase() === removed_id.toLowerCase())) {
+                console.warn(`W: Mod ${dependent_id} wants ${removed_id}, which was removed.`);
+            }
+        }
+    }
+    strip_edges(mod_map, removed_aliases);
+
+    await write_saved_mods(ANNOTATED_FILE, mod_map);
+    console.info(`${CLIColor.FgGreen11}✔${CLIColor.Reset} Removed ${removed.length} mod(s): ${removed.join(', ')}`);
+}
+
+/**
+ * Find the libraries that would be left unwanted by removing a mod, and by removing those libraries in turn.
+ * Content mods are never part of the cascade, only mods tagged as libraries or that look like one.
+ */
+export async function plan_cascade(mod_map: Map<string, mod_object>, mod_id: string): Promise<orphan_candidate[]> {
+    // Dropping the removed mods from a copy of the map is enough for them to stop counting as dependents
+    const remaining = new Map(mod_map);
+    remaining.delete(mod_id);
+
+    const cascade: orphan_candidate[] = [];
+    let removed_ids = [mod_id];
+    while (removed_ids.length > 0) {
+        const former_deps = removed_ids
+            .flatMap((removed_id) => mod_map.get(removed_id)?.wants ?? [])
+            .map((dep_id) => getModDeep(remaining, dep_id)[0])
+            .filter((dep_id) => dep_id != undefined);
+        const orphans = await find_orphan_candidates(remaining, Array.from(new Set(former_deps)));
+        orphans.forEach((orphan) => remaining.delete(orphan.mod_id));
+        cascade.push(...orphans);
+        removed_ids = orphans.map((orphan) => orphan.mod_id);
+    }
+    return cascade;
+}
+
+/**
+ * Delete the jar of a mod and drop it from the map
+ */
+async function remove_single_mod(mod_id: string, mod: mod_object, mod_map: Map<string, mod_object>) {
+    const mod_file = Bun.file(mod.file_path);
+    if (await mod_file.exists()) {
+        await mod_file.delete();
+    } else {
+        console.warn(`W: File of ${mod_id} at ${mod.file_path} is already missing.`);
+    }
+    mod_map.delete(mod_id);
+    console.log('Removed mod ', mod_id);
+
+    // Its deps shouldn't count it as a dependent anymore
+    for (const dep_id of mod.wants ?? []) {
+        const [, dep] = getModDeep(mod_map, dep_id);
+        if (dep != undefined) {
+            dep.wanted_by = dep.wanted_by?.filter((dependent_id) => dependent_id.toLowerCase() !== mod_id.toLowerCase());
+        }
+    }
+    for (const dep_id of mod.optional_wants ?? []) {
+        const [, dep] = getModDeep(mod_map, dep_id);
+        if (dep != undefined) {
+            dep.optionally_wanted_by = dep.optionally_wanted_by?.filter((dependent_id) => dependent_id.toLowerCase() !== mod_id.toLowerCase());
+        }
+    }
+}
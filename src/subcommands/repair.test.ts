@@ -0,0 +1,51 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { mkdir, readdir, rm } from 'node:fs/promises';
+import { ANNOTATED_FILE, RENAME_BATCH_FILE } from '../utils/config';
+import { default_mod_object, read_saved_mods, write_saved_mods, type mod_object } from '../utils/mods';
+import { repair_mods } from './repair';
+
+// The mods directory of the scratch pack from test_setup
+const MODS = 'mods';
+
+function make_mod(file_path: string, enabled: boolean): mod_object {
+    return { ...structuredClone(default_mod_object), file_path, enabled };
+}
+
+beforeEach(async () => {
+    await rm(MODS, { recursive: true, force: true });
+    await rm(RENAME_BATCH_FILE, { force: true });
+    await mkdir(MODS, { recursive: true });
+});
+
+describe('repair_mods', () => {
+    test('matches the annotated mods to the jars on disk', async () => {
+        await Bun.write(`${MODS}/alpha.jar.disabled`, 'alpha');
+        await Bun.write(`${MODS}/beta.jar`, 'beta');
+        await write_saved_mods(
+            ANNOTATED_FILE,
+            new Map([
+                ['alpha', make_mod(`${MODS}/alpha.jar`, true)],
+                ['beta', make_mod(`${MODS}/beta.jar`, true)],
+                ['gamma', make_mod(`${MODS}/gamma.jar`, true)],
+            ]),
+        );
+
+        await repair_mods();
+        const mod_map = await read_saved_mods(ANNOTATED_FILE);
+        expect(mod_map.get('alpha')).toMatchObject({ file_path: `${MODS}/alpha.jar.disabled`, enabled: false });
+        expect(mod_map.get('beta')).toMatchObject({ file_path: `${MODS}/beta.jar`, enabled: true });
+        // Mods without any jar are only reported
+        expect(mod_map.get('gamma')).toMatchObject({ file_path: `${MODS}/gamma.jar`, enabled: true });
+    });
+
+    test('moves back the renames of an interrupted batch first', async () => {
+        await Bun.write(`${MODS}/alpha.jar.disabled`, 'alpha');
+        await Bun.write(RENAME_BATCH_FILE, JSON.stringify({ from: `${MODS}/alpha.jar`, to: `${MODS}/alpha.jar.disabled` }) + '\n');
+        await write_saved_mods(ANNOTATED_FILE, new Map([['alpha', make_mod(`${MODS}/alpha.jar`, true)]]));
+
+        await repair_mods();
+        expect(await readdir(MODS)).toEqual(['alpha.jar']);
+        expect(await Bun.file(RENAME_BATCH_FILE).exists()).toBe(false);
+        expect((await read_saved_mods(ANNOTATED_FILE)).get('alpha')).toMatchObject({ file_path: `${MODS}/alpha.jar`, enabled: true });
+    });
+});
@@ -0,0 +1,65 @@
+import { rm } from 'node:fs/promises';
+import { ANNOTATED_FILE, RENAME_BATCH_FILE } from '../utils/config';
+import { read_rename_batch, rollback_renames } from '../utils/fs';
+import { are_all_mods_unlocked, read_saved_mods, write_saved_mods } from '../utils/mods';
+import { CLIColor, print_pretty } from '../utils/utils';
+
+//#region repair
+/**
+ * Recover from an interrupted command: move back the files of an unfinished rename batch,
+ * then make enabled & file_path of every mod match the jar that is actually on disk.
+ */
+export async function repair_mods() {
+    if (!(await are_all_mods_unlocked())) {
+        console.warn('W: Something is locking a file in the mods directory. Is the game still running?');
+        return;
+    }
+
+    if (await Bun.file(RENAME_BATCH_FILE).exists()) {
+        const renames = await read_rename_batch(RENAME_BATCH_FILE);
+        const moved_back = await rollback_renames(renames);
+        await rm(RENAME_BATCH_FILE, { force: true });
+        console.info(`Found an interrupted batch of ${renames.length} renames, moved ${moved_back} files back.`);
+    }
+
+    const mod_map = await read_saved_mods(ANNOTATED_FILE);
+    const fixed: string[] = [];
+    const missing: string[] = [];
+    for (const [mod_id, mod] of mod_map) {
+        const enabled_path = mod.file_path.replace(/\.disabled$/m, '');
+        const disabled_path = enabled_path + '.disabled';
+        const enabled_exists = await Bun.file(enabled_path).exists();
+        const disabled_exists = await Bun.file(disabled_path).exists();
+
+        let actual_path: string;
+        if (enabled_exists && disabled_exists) {
+            console.warn(`W: Mod ${mod_id} exists both enabled and disabled, keeping the one at ${mod.file_path}.`);
+            actual_path = mod.file_path;
+        } else if (enabled_exists || disabled_exists) {
+            actual_path = enabled_exists ? enabled_path : disabled_path;
+        } else {
+            missing.push(mod_id);
+            continue;
+        }
+
+        const is_enabled = !actual_path.endsWith('.disabled');
+        if (mod.file_path !== actual_path || mod.enabled !== is_enabled) {
+            mod.file_path = actual_path;
+            mod.enabled = is_enabled;
+            fixed.push(mod_id);
+        }
+    }
+
+    if (missing.length > 0) {
+        console.warn(
+            `W: ${missing.length} mods have no file on disk at all. Run ${CLIColor.Bright}refresh --remove_nonexistent${CLIColor.Reset} to drop them, or restore their jars.`,
+        );
+    }
+    if (fixed.length == 0 && missing.length == 0) {
+        console.log('Annotated mods already match the mods directory.');
+        return;
+    }
+
+    if (fixed.length > 0) await write_saved_mods(ANNOTATED_FILE, mod_map);
+    print_pretty(['fixed', fixed], ['missing', missing]);
+}
@@ -0,0 +1,112 @@
+import { ANNOTATED_FILE } from '../utils/config';
+import { isUpdateFrequency, read_saved_mods, UpdateFrequenciesEnum, write_saved_mods, type mod_object } from '../utils/mods';
+import { get_source_type_of_url } from '../utils/providers';
+import { CLIColor } from '../utils/utils';
+import { getModDeep } from './annotate';
+
+interface mod_field {
+    get: (mod: mod_object) => string;
+    // Returns why the value was rejected, if it was
+    set: (mod: mod_object, value: string) => string | undefined;
+}
+
+const parse_list = (value: string) =>
+    value
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter((entry) => entry.length > 0);
+
+// The fields that are meant to be edited by hand. Everything else is read from the jars or set by other commands.
+const MOD_FIELDS: Record<string, mod_field> = {
+    notes: {
+        get: (mod) => mod.notes ?? '',
+        set: (mod, value) => {
+            mod.notes = value;
+            return undefined;
+        },
+    },
+    source: {
+        get: (mod) => mod.source ?? '',
+        set: (mod, value) => {
+            if (value !== '' && !URL.canParse(value)) return 'must be a url, or empty';
+            mod.source = value;
+            mod.update_state.source_type = get_source_type_of_url(value);
+            return undefined;
+        },
+    },
+    frequency: {
+        get: (mod) => mod.update_state.frequency,
+        set: (mod, value) => {
+            value = value.toUpperCase();
+            if (!isUpdateFrequency(value)) return `must be one of: ${Object.values(UpdateFrequenciesEnum).join(', ')}`;
+            mod.update_state.frequency = value;
+            return undefined;
+        },
+    },
+    disable_check: {
+        get: (mod) => String(mod.update_state.disable_check),
+        set: (mod, value) => {
+            if (!['true', 'false'].includes(value.toLowerCase())) return 'must be true or false';
+            mod.update_state.disable_check = value.toLowerCase() === 'true';
+            return undefined;
+        },
+    },
+    file_pattern: {
+        get: (mod) => mod.update_state.file_pattern ?? '',
+        set: (mod, value) => {
+            try {
+                new RegExp(value, 'gm');
+            } catch {
+                return 'must be a valid regex';
+            }
+            mod.update_state.file_pattern = value;
+            return undefined;
+        },
+    },
+    incompatible_with: {
+        get: (mod) => (mod.incompatible_with ?? []).join(','),
+        set: (mod, value) => {
+            mod.incompatible_with = parse_list(value);
+            return undefined;
+        },
+    },
+};
+
+/**
+ * Set annotations of a mod by hand, like "frequency=RARE" or "incompatible_with=optifine,angelica"
+ * @param assignments A list of field=value pairs, which are all validated before anything is saved
+ */
+export async function set_mod_fields(mod_id: string, assignments: string[]) {
+    const mod_map = await read_saved_mods(ANNOTATED_FILE);
+    const [actual_mod_id, mod] = getModDeep(mod_map, mod_id);
+    if (actual_mod_id == undefined || mod == undefined) {
+        console.warn(`W: Failed to resolve ${mod_id} to any annotated mod.`);
+        return;
+    }
+
+    const changes: Array<{ field: string; before: string; after: string }> = [];
+    for (const assignment of assignments) {
+        const separator = assignment.indexOf('=');
+        const field = separator == -1 ? assignment : assignment.slice(0, separator);
+        const mod_field = MOD_FIELDS[field];
+        if (separator == -1 || mod_field == undefined) {
+            console.error(`Error: Expected <field>=<value>, with field being one of: ${Object.keys(MOD_FIELDS).join(', ')}. Got "${assignment}".`);
+            return;
+        }
+
+        const before = mod_field.get(mod);
+        const rejection = mod_field.set(mod, assignment.slice(separator + 1));
+        if (rejection != undefined) {
+            console.error(`Error: Invalid value for ${field}, it ${rejection}.`);
+            return;
+        }
+        changes.push({ field, before, after: mod_field.get(mod) });
+    }
+
+    await write_saved_mods(ANNOTATED_FILE, mod_map);
+    for (const { field, before, after } of changes) {
+        console.log(
+            `${CLIColor.FgGray}-${CLIColor.Reset} ${actual_mod_id}.${field}: ${CLIColor.FgGray18}${before || '(empty)'}${CLIColor.Reset} -> ${CLIColor.Bright}${after || '(empty)'}${CLIColor.Reset}`,
+        );
+    }
+}
@@ -1,36 +1,38 @@
 import { ANNOTATED_FILE, MOD_BASE_DIR } from '../utils/config';
-import { save_map_to_file, scan_mods_folder } from '../utils/fs';
+import { scan_mods_folder } from '../utils/fs';
 import {
     disable_mod_deep,
     enable_base_mods,
     enable_mod_deep,
     extract_modinfos,
+    write_saved_mods,
+    type enable_options,
     read_saved_mods,
     toggle_mod_deep,
     type mod_object,
 } from '../utils/mods';
+import { matches_selector, select_mods, type selector_node } from '../utils/selector';
 import { CLIColor, print_pretty, rev_replace_all } from '../utils/utils';
 
 /**
- * Enable a list of mods by their id
+ * Enable all mods matching a selector
  */
-export async function enable_atomic_deep(opts_mod_id: string[], mod_map?: Map<string, mod_object>) {
+export async function enable_atomic_deep(selector: selector_node, mod_map?: Map<string, mod_object>, options: enable_options = {}) {
     // Initialize map if not provided, since we can't use await in param
     mod_map = mod_map == undefined ? await read_saved_mods(ANNOTATED_FILE) : mod_map;
     const change_list: string[] = [];
     let changes = 0;
 
-    for (let mod_id of opts_mod_id) {
-        mod_id = mod_id.toLowerCase();
-        const matched_mod_id = mod_map.keys().find((key: string) => key.toLowerCase() === mod_id);
-
-        if (matched_mod_id != undefined) {
-            changes += await enable_mod_deep(matched_mod_id, mod_map, change_list);
-        }
+    const matched_mod_ids = select_mods(mod_map, selector);
+    if (matched_mod_ids.length == 0) {
+        console.warn('W: No annotated mods match the selector.');
+    }
+    for (const matched_mod_id of matched_mod_ids) {
+        changes += await enable_mod_deep(matched_mod_id, mod_map, change_list, options);
     }
 
     if (changes > 0) {
-        await save_map_to_file(ANNOTATED_FILE, mod_map);
+        await write_saved_mods(ANNOTATED_FILE, mod_map);
         console.log('Changed ', changes, ' mods.\n');
     } else {
         console.log('No changes made.');
@@ -38,28 +40,26 @@ export async function enable_atomic_deep(opts_mod_id: string[], mod_map?: Map<st
 }
 
 /**
- * Disable a list of mods by their id
+ * Disable all mods matching a selector
+ * @param with_optional Also disable the mods that optionally want them
  */
-export async function disable_atomic_deep(opts_mod_id: string[], mod_map?: Map<string, mod_object>) {
+export async function disable_atomic_deep(selector: selector_node, mod_map?: Map<string, mod_object>, with_optional: boolean = false) {
     // Initialize map if not provided, since we can't use await in param
     mod_map = mod_map == undefined ? await read_saved_mods(ANNOTATED_FILE) : mod_map;
     const change_list: string[] = [];
     let changes = 0;
 
-    for (let mod_id of opts_mod_id) {
-        mod_id = mod_id.toLowerCase();
-        const matched_mod_id = mod_map.keys().find((key: string) => key.toLowerCase() === mod_id);
-
-        if (matched_mod_id != undefined) {
-            changes += await disable_mod_deep(matched_mod_id, mod_map, change_list);
-        } else {
-            console.warn("W: Failed to resolve ", mod_id, " to any annotated mod, skipping it.")
-        }
+    const matched_mod_ids = select_mods(mod_map, selector);
+    if (matched_mod_ids.length == 0) {
+        console.warn('W: No annotated mods match the selector.');
+    }
+    for (const matched_mod_id of matched_mod_ids) {
+        changes += await disable_mod_deep(matched_mod_id, mod_map, change_list, with_optional);
     }
     await enable_base_mods(mod_map);
 
     if (changes > 0) {
-        await save_map_to_file(ANNOTATED_FILE, mod_map);
+        await write_saved_mods(ANNOTATED_FILE, mod_map);
         console.log('Changed ', changes, ' mods.\n');
     } else {
         console.log('No changes made.');
@@ -93,7 +93,10 @@ export async function list_mods_folder(only_show_enabled: boolean = false) {
     print_pretty(...mods);
 }
 
-export async function list_mods() {
+/**
+ * @param selector Only list the mods matching it
+ */
+export async function list_mods(selector?: selector_node) {
     // Intialize array with 4 cols, and set their headers
     const mods: Array<[string, string[]]> = [
         ['Enabled Mod Id', []],
@@ -103,6 +106,7 @@ export async function list_mods() {
     ];
 
     for (const [mod_id, mod_object] of await read_saved_mods(ANNOTATED_FILE)) {
+        if (selector != undefined && !matches_selector(selector, mod_id, mod_object)) continue;
         if (mod_object.enabled) {
             //@ts-ignore
             mods[0][1].push(mod_id);
@@ -119,7 +123,10 @@ export async function list_mods() {
     print_pretty(...mods);
 }
 
-export async function list_mods_wide(only_show_enabled: boolean = false) {
+/**
+ * @param selector Only list the mods matching it
+ */
+export async function list_mods_wide(only_show_enabled: boolean = false, selector?: selector_node) {
     const mod_map = await read_saved_mods(ANNOTATED_FILE);
 
     let longest_mod_id_length = 0;
@@ -136,6 +143,7 @@ export async function list_mods_wide(only_show_enabled: boolean = false) {
 
     for (const mod_id of Array.from(mod_map.keys()).sort((a, b) => a.localeCompare(b, undefined, { "sensitivity": "base"}))) {
         const mod = mod_map.get(mod_id);
+        if (mod != undefined && selector != undefined && !matches_selector(selector, mod_id, mod)) continue;
         if (mod == undefined || (!mod.enabled && only_show_enabled)) {
             excluded_mods++;
             continue;
@@ -168,7 +176,7 @@ export async function toggle_mod(opts: string | undefined) {
             await enable_base_mods(mod_map);
 
             if (changes > 0) {
-                await save_map_to_file(ANNOTATED_FILE, mod_map);
+                await write_saved_mods(ANNOTATED_FILE, mod_map);
                 console.log('Changed ', changes, ' mods.\n');
             } else {
                 console.log('No changes made.');
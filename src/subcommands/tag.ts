@@ -0,0 +1,96 @@
+import { ANNOTATED_FILE } from '../utils/config';
+import { read_saved_mods, write_saved_mods } from '../utils/mods';
+import { matches_selector, select_mods, type selector_node } from '../utils/selector';
+import { CLIColor, print_pretty } from '../utils/utils';
+
+//#region helpers
+/**
+ * Check that a tag can be stored and selected again
+ * @returns Whether it is usable, after warning if it isn't
+ */
+function is_valid_tag(tag: string): boolean {
+    if (tag.length == 0 || /\s/.test(tag)) {
+        console.warn(`W: Tag "${tag}" is empty or contains whitespace, which selectors can't match.`);
+        return false;
+    }
+    return true;
+}
+
+//#region commands
+/**
+ * Add a tag to all mods matching a selector
+ */
+export async function tag_add(tag: string, selector: selector_node) {
+    if (!is_valid_tag(tag)) return;
+    const mod_map = await read_saved_mods(ANNOTATED_FILE);
+    const selected = select_mods(mod_map, selector);
+    if (selected.length == 0) {
+        console.warn('W: No annotated mods match the selector.');
+        return;
+    }
+
+    const tagged: string[] = [];
+    for (const mod_id of selected) {
+        const mod = mod_map.get(mod_id);
+        if (mod == undefined || mod.tags?.includes(tag)) continue;
+        mod.tags = [...(mod.tags ?? []), tag];
+        tagged.push(mod_id);
+    }
+
+    if (tagged.length > 0) await write_saved_mods(ANNOTATED_FILE, mod_map);
+    console.log(
+        `Tagged ${tagged.length} mods with ${CLIColor.Bright}${tag}${CLIColor.Reset}` +
+            (tagged.length < selected.length ? `${CLIColor.FgGray}, ${selected.length - tagged.length} already had it${CLIColor.Reset}` : '') +
+            '.',
+    );
+}
+
+/**
+ * Remove a tag from all mods matching a selector
+ */
+export async function tag_remove(tag: string, selector: selector_node) {
+    const mod_map = await read_saved_mods(ANNOTATED_FILE);
+    const selected = select_mods(mod_map, selector);
+    if (selected.length == 0) {
+        console.warn('W: No annotated mods match the selector.');
+        return;
+    }
+
+    const untagged: string[] = [];
+    for (const mod_id of selected) {
+        const mod = mod_map.get(mod_id);
+        if (mod == undefined || !mod.tags?.includes(tag)) continue;
+        mod.tags = mod.tags.filter((mod_tag) => mod_tag !== tag);
+        untagged.push(mod_id);
+    }
+
+    if (untagged.length > 0) await write_saved_mods(ANNOTATED_FILE, mod_map);
+    console.log(`Removed ${CLIColor.Bright}${tag}${CLIColor.Reset} from ${untagged.length} mods.`);
+}
+
+/**
+ * List the mods with a tag, or how many mods have each tag if none is given
+ * @param selector Only look at the mods matching it
+ */
+export async function tag_list(tag?: string, selector?: selector_node) {
+    const mod_map = await read_saved_mods(ANNOTATED_FILE);
+    const mods = mod_map.entries().filter(([mod_id, mod]) => selector == undefined || matches_selector(selector, mod_id, mod));
+
+    if (tag == undefined) {
+        const tag_counts: Map<string, number> = new Map();
+        for (const [, mod] of mods) {
+            for (const mod_tag of mod.tags ?? []) tag_counts.set(mod_tag, (tag_counts.get(mod_tag) ?? 0) + 1);
+        }
+        const sorted = Array.from(tag_counts.entries()).sort(([a], [b]) => a.localeCompare(b));
+        print_pretty(['Tag', sorted.map(([mod_tag]) => mod_tag)], ['Mods', sorted.map(([, count]) => String(count))]);
+        return;
+    }
+
+    const enabled: string[] = [];
+    const disabled: string[] = [];
+    for (const [mod_id, mod] of mods) {
+        if (!mod.tags?.includes(tag)) continue;
+        (mod.enabled ? enabled : disabled).push(mod_id);
+    }
+    print_pretty(['Enabled Mod Id', enabled], ['Disabled Mod Id', disabled]);
+}
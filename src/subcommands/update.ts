@@ -2,8 +2,8 @@ import {
     are_all_mods_unlocked,
     getUpdateFrequencyOrdinal,
     read_saved_mods,
+    write_saved_mods,
     type mod_object,
-    type SourceType,
     type update_frequency,
 } from '../utils/mods';
 import {
@@ -16,19 +16,22 @@ import {
     rev_replace_all,
     update_live_zone,
 } from '../utils/utils';
-import { glob_files_in_dir, read_arr_from_file, save_list_to_file, save_map_to_file } from '../utils/fs';
 import { mkdir, rename } from 'node:fs/promises';
-import { ANNOTATED_FILE, DOWNLOAD_TEMP_DIR, DOWNLOAD_UNDO_DIR, GITHUB_API_KEY, MOD_BASE_DIR } from '../utils/config';
-import { download_file, print_gh_ratelimits, query_gh_project_by_url } from '../utils/fetch';
+import { ANNOTATED_FILE, DOWNLOAD_TEMP_DIR, GITHUB_API_KEY, MOD_BASE_DIR } from '../utils/config';
+import { print_gh_ratelimits } from '../utils/fetch';
+import { get_source_provider, pick_release_asset, warn_skipped_providers, type SourceProvider } from '../utils/providers';
 import { toNamespacedPath } from 'node:path';
-
-const SOURCE_API_KEYS: Map<SourceType, string> = new Map();
+import { find_range_violations, warn_range_violations } from './check';
+import { matches_selector, type selector_node } from '../utils/selector';
+import { ensure_journal_backup } from '../utils/journal';
 
 export async function check_all_mods_for_updates(
     options: {
         retry_failed: boolean;
         frequency_range: update_frequency;
         force_downgrade: boolean;
+        // Only check the mods matching it
+        selector?: selector_node | undefined;
     } = {
         retry_failed: false,
         frequency_range: 'COMMON',
@@ -37,13 +40,6 @@ export async function check_all_mods_for_updates(
     dry: boolean = true,
     mod_map?: Map<string, mod_object>,
 ) {
-    if (GITHUB_API_KEY == undefined) {
-        // can't throw in ternary
-        throw Error('Missing GITHUB_API_KEY.');
-    } else {
-        SOURCE_API_KEYS.set('GITHUB', GITHUB_API_KEY);
-    }
-
     if (!(await are_all_mods_unlocked())) {
         console.warn('W: Something is locking a file in the mods directory. Is the game still running?');
         return;
@@ -61,13 +57,13 @@ export async function check_all_mods_for_updates(
                       version: string;
                       file_name: string;
                       file_url: string;
-                      source_api_key: string;
                   }
                 | undefined
             >;
         }
     > = new Map();
     let longest_mod_id_length = 0;
+    const skipped_counts: Map<SourceProvider, number> = new Map();
 
     for (const [mod_id, mod_obj] of mod_map.entries()) {
         // Skip this mod if errored on a previous check and retry is off
@@ -76,15 +72,20 @@ export async function check_all_mods_for_updates(
         if (getUpdateFrequencyOrdinal(mod_obj.update_state.frequency) > getUpdateFrequencyOrdinal(options.frequency_range)) continue;
         // Skip this mod if it has updates disabled
         if (mod_obj.update_state.disable_check) continue;
+        // Skip this mod if it wasn't selected
+        if (options.selector != undefined && !matches_selector(options.selector, mod_id, mod_obj)) continue;
 
         longest_mod_id_length = Math.max(mod_id.length, longest_mod_id_length);
         if (mod_obj.source) {
-            const source_api_key = SOURCE_API_KEYS.get(mod_obj.update_state.source_type);
-            if (source_api_key) {
-                fetch_map.set(mod_id, { mod_obj, res: check_url_for_updates(mod_obj, mod_obj.source, source_api_key) });
+            const provider = get_source_provider(mod_obj.update_state.source_type);
+            if (provider.is_available()) {
+                fetch_map.set(mod_id, { mod_obj, res: check_url_for_updates(provider, mod_obj, mod_obj.source) });
+            } else {
+                skipped_counts.set(provider, (skipped_counts.get(provider) ?? 0) + 1);
             }
         }
     }
+    warn_skipped_providers(skipped_counts);
 
     longest_mod_id_length++;
     let version_length = 20;
@@ -94,26 +95,25 @@ export async function check_all_mods_for_updates(
         remote_version: string;
         file_name: string;
         file_url: string;
-        source_api_key: string;
     }[] = [];
 
     for (const [mod_id, { mod_obj, res }] of fetch_map.entries()) {
         const content = await res;
         if (content != undefined) {
             const mod_version = mod_obj.update_state.version || '0';
-            const { version: remote_version, status, file_name, file_url, source_api_key } = content;
+            const { version: remote_version, status, file_name, file_url } = content;
             const id_padding_len = longest_mod_id_length - mod_id.length;
             const vers_padding_len = version_length - Math.min(mod_version.length, version_length);
             const version_change = compare_versions(mod_version, remote_version);
             let change_string = `${CLIColor.FgBlack}-${CLIColor.Reset}`;
 
             if (version_change == -1) {
-                to_update_mods.push({ mod_id, mod_obj, remote_version, file_url, file_name, source_api_key });
+                to_update_mods.push({ mod_id, mod_obj, remote_version, file_url, file_name });
                 change_string = `${CLIColor.FgGreen}↑${CLIColor.Reset}`;
             } else if (version_change == 1) {
                 change_string = `${CLIColor.FgYellow}↓${CLIColor.Reset}`;
                 if (options.force_downgrade) {
-                    to_update_mods.push({ mod_id, mod_obj, remote_version, file_url, file_name, source_api_key });
+                    to_update_mods.push({ mod_id, mod_obj, remote_version, file_url, file_name });
                 }
             }
 
@@ -126,6 +126,16 @@ export async function check_all_mods_for_updates(
             mod_obj.update_state.last_status = status;
         }
     }
+
+    // Don't upgrade anything into a version its dependents don't accept
+    to_update_mods = to_update_mods.filter(({ mod_id, remote_version }) => {
+        const violations = find_range_violations(mod_map, mod_id, remote_version);
+        if (violations.length == 0) return true;
+        console.warn(`W: Won't upgrade ${mod_id} to ${remote_version}, since its dependents don't accept that version:`);
+        warn_range_violations(violations);
+        return false;
+    });
+
     console.log(
         `\n ${CLIColor.FgWhite}${CLIColor.Bright}${to_update_mods.length}${CLIColor.Reset}${CLIColor.FgGray} of ${CLIColor.FgWhite}${CLIColor.Bright}${mod_map.size}${CLIColor.Reset}${CLIColor.FgGray} mods can be upgraded. ` +
             `${CLIColor.FgGray}(${CLIColor.FgGreen}${to_update_mods.filter(({ mod_obj }) => mod_obj.update_state.source_type === 'GITHUB').length}${CLIColor.FgGray} from ${CLIColor.FgWhite}GitHub${CLIColor.FgGray}, ` +
@@ -135,7 +145,7 @@ export async function check_all_mods_for_updates(
     );
 
     // Save http status codes returned from sources back to map for next time
-    await save_map_to_file(ANNOTATED_FILE, mod_map);
+    await write_saved_mods(ANNOTATED_FILE, mod_map);
 
     // to_update_mods = to_update_mods.slice(0, 2);
 
@@ -148,10 +158,6 @@ export async function check_all_mods_for_updates(
             console.error(`Failed to create temporary download directory at ${toNamespacedPath(DOWNLOAD_TEMP_DIR)}`);
             throw err;
         });
-        await mkdir(DOWNLOAD_UNDO_DIR, { recursive: true }).catch((err) => {
-            console.error(`Failed to create temporary download directory at ${toNamespacedPath(DOWNLOAD_TEMP_DIR)}`);
-            throw err;
-        });
 
         let running_updates = 0;
         let completed_dls = 0;
@@ -185,12 +191,10 @@ export async function check_all_mods_for_updates(
                     if (to_download_mod != undefined) {
                         // console.log(`Downloading ${to_download_mod.mod_id} from ${to_download_mod.file_url}...`);
                         download_map.set(to_download_mod.mod_id, {
-                            response: download_file(
+                            response: get_source_provider(to_download_mod.mod_obj.update_state.source_type).download(
                                 to_download_mod.file_url,
-                                to_download_mod.mod_obj.update_state.source_type,
                                 DOWNLOAD_TEMP_DIR,
                                 to_download_mod.file_name,
-                                to_download_mod.source_api_key,
                             ),
                             remote_version: to_download_mod.remote_version,
                             download_url: to_download_mod.file_url,
@@ -244,48 +248,25 @@ export async function check_all_mods_for_updates(
 
         // Replace the mod jars
         if (downloaded_mods.size > 0) {
-            const undo_list: Array<{ mod_id: string; old_file: string; new_file: string; old_version: string }> = [];
-            // Clear old update undo jars
-            (await glob_files_in_dir(DOWNLOAD_UNDO_DIR, /\.jar(?:\.disabled)?$/m, false)).forEach(
-                async (file) =>
-                    await Bun.file(file)
-                        .delete()
-                        .catch(() => console.warn('W: Failed to delete leftover update-undo mod ' + file)),
-            );
-
             for (const [mod_id, { file_name, remote_version, download_url, is_base_required }] of downloaded_mods.entries()) {
                 const mod = mod_map.get(mod_id);
                 if (mod && (await Bun.file(`${DOWNLOAD_TEMP_DIR}/${file_name}`).exists())) {
-                    const old_mod_jar = mod.file_path.replace(RegExp(String.raw`${MOD_BASE_DIR}.*\/`), '');
                     const new_mod_path = `${MOD_BASE_DIR}/${file_name + (mod.enabled ? '' : '.disabled')}`;
-
-                    await rename(mod.file_path, `${DOWNLOAD_UNDO_DIR}/${old_mod_jar}`).catch((err) => {
-                        console.warn(
-                            `W: Failed to move the older jar for mod ${mod_id} from the mod dir into the undo dir. Won't be able to undo changes for this mod.`,
-                        );
-                    });
+                    if (!(await ensure_journal_backup(mod.file_path))) {
+                        console.warn(`W: Failed to back up the older jar for mod ${mod_id}, keeping it instead of replacing it.`);
+                        continue;
+                    }
 
                     await rename(`${DOWNLOAD_TEMP_DIR}/${file_name}`, new_mod_path)
                         .then(async () => {
                             if (!(await Bun.file(new_mod_path).exists())) {
-                                console.warn(
-                                    `W: Failed to move newer file for ${mod_id} (${file_name}) to mod directory. Reverting to previous version.`,
-                                );
-                                await rename(`${DOWNLOAD_UNDO_DIR}/${old_mod_jar}`, mod.file_path).catch((err) => {
-                                    console.warn(
-                                        `W: Failed to move the older jar for mod ${mod_id} back from the undo dir into the mod dir.`,
-                                    );
-                                });
+                                console.warn(`W: Failed to move newer file for ${mod_id} (${file_name}) to mod directory. Keeping the previous version.`);
                             } else {
-                                if (await Bun.file(`${DOWNLOAD_UNDO_DIR}/${old_mod_jar}`).exists()) {
-                                    undo_list.push({
-                                        mod_id,
-                                        new_file: file_name + (mod.enabled ? '' : '.disabled'),
-                                        old_file: old_mod_jar,
-                                        old_version: mod.update_state?.version || '',
-                                    });
+                                if (mod.file_path !== new_mod_path) {
+                                    await Bun.file(mod.file_path)
+                                        .delete()
+                                        .catch(() => console.warn(`W: Failed to delete the older jar for mod ${mod_id}, at ${mod.file_path}`));
                                 }
-
                                 mod.file_path = new_mod_path;
                                 mod.update_state.version = remote_version;
                                 mod.source = download_url;
@@ -302,11 +283,10 @@ export async function check_all_mods_for_updates(
                     console.warn(`W: Failed to download mod for ${mod_id} for remote asset ${file_name}!`);
                 }
             }
-            await save_list_to_file(DOWNLOAD_UNDO_DIR + '/update_undo.json', undo_list);
         }
 
         // Save updated files & versions back to file (only changes when upgrading)
-        await save_map_to_file(ANNOTATED_FILE, mod_map);
+        await write_saved_mods(ANNOTATED_FILE, mod_map);
     }
 
     // Clean up temp folder
@@ -319,127 +299,28 @@ export async function check_all_mods_for_updates(
     await print_gh_ratelimits(GITHUB_API_KEY);
 }
 
-export async function undo_last_update(mod_map?: Map<string, mod_object>) {
-    // Load undo list from undo folder
-    const undo_list: Array<{ mod_id: string; old_file: string; new_file: string; old_version: string }> = await read_arr_from_file(
-        DOWNLOAD_UNDO_DIR + '/update_undo.json',
-    ).catch(() => {
-        console.warn('W: Failed to read previous update undo state.');
-        return [];
-    });
-
-    if (undo_list.length > 0) {
-        const undoed_mods: Set<string> = new Set();
-        mod_map = mod_map == undefined ? await read_saved_mods(ANNOTATED_FILE) : mod_map;
-        for (const { mod_id, new_file, old_file, old_version } of undo_list) {
-            const mod = mod_map.get(mod_id);
-            if (mod) {
-                const restored_old_path = `${MOD_BASE_DIR}/${old_file}`;
-                await rename(`${DOWNLOAD_UNDO_DIR}/${old_file}`, restored_old_path)
-                    .then(async () => {
-                        console.info(`Restored mod ${mod_id} to version ${old_version}.`);
-                        await Bun.file(`${MOD_BASE_DIR}/${new_file}`)
-                            .delete()
-                            .catch(() => console.warn(`W: Failed to delete newer mod file for mod ${mod_id}.`));
-                        mod.file_path = restored_old_path;
-                        mod.update_state.version = old_version;
-                        mod.update_state.last_updated_at = new Date(Date.now()).toISOString();
-                        if (mod.tags?.includes('REQUIRED_BASE')) {
-                            console.info(
-                                `Mod required by basegame (${mod_id}) was un-upgraded. Don't forget to also change it externally if required.`,
-                            );
-                        }
-
-                        undoed_mods.add(mod_id);
-                    })
-                    .catch(() => console.warn(`W: Failed to move back the older jar for mod ${mod_id} into the mod directory.`));
-            }
-        }
-
-        // Save updated files & versions back to file
-        await save_map_to_file(ANNOTATED_FILE, mod_map);
-        // Remove undoed mods from undo list in file
-        await save_list_to_file(
-            DOWNLOAD_UNDO_DIR + '/update_undo.json',
-            undo_list.filter((entry) => !undoed_mods.has(entry.mod_id)),
-        );
-    } else {
-        console.log("No mods found in last update state, won't be able to undo anything.");
-    }
-}
-
 async function check_url_for_updates(
+    provider: SourceProvider,
     mod_obj: mod_object,
     url: string,
-    source_api_key: string,
-): Promise<{ status: string; version: string; file_name: string; file_url: string; source_api_key: string } | undefined> {
-    if (mod_obj.update_state.source_type === 'GITHUB') {
-        const { status, body } = await query_gh_project_by_url(url, source_api_key, '/releases/latest');
-        if (status == '200' && body != undefined) {
-            const version = body.tag_name;
-            let assets: Array<{ url: string; name: string }> = (body.assets as Array<{ [key: string]: string }>).map((asset) => {
-                return {
-                    url: asset.browser_download_url as string,
-                    name: asset.name as string,
-                };
-            });
-            if (assets.length < 1) {
-                console.warn('W: Got response with empty assets for: ', url, status);
-                return undefined;
-            }
-
-            let filtered_assets: Array<{ url: string; name: string }> = [];
-
-            // Use file_pattern if available
-            if (assets.length > 1 && mod_obj.update_state.file_pattern != undefined && mod_obj.update_state.file_pattern.length > 0) {
-                const pattern = new RegExp(mod_obj.update_state.file_pattern, 'gm');
-                for (const asset of assets) {
-                    if (asset.name.match(pattern)) {
-                        filtered_assets.push(asset);
-                    }
-                }
-                assets = filtered_assets;
-                filtered_assets = [];
-            }
-            // If no file pattern was set, or we still matched multiple jars, remove common suffixes
-            if (assets.length > 1) {
-                for (const asset of assets) {
-                    if (asset.name.endsWith('.jar')) {
-                        if (
-                            !asset.name.endsWith('-sources.jar') &&
-                            !asset.name.endsWith('-dev.jar') &&
-                            !asset.name.endsWith('-api.jar') &&
-                            !asset.name.endsWith('-preshadow.jar') &&
-                            !asset.name.endsWith('-prestub.jar') &&
-                            !asset.name.endsWith('-javadoc.jar') &&
-                            !asset.name.endsWith('-reobf.jar') &&
-                            !asset.name.includes('-panama-') &&
-                            !asset.name.includes('-deploader')
-                        ) {
-                            filtered_assets.push(asset);
-                        }
-                    }
-                }
-                assets = filtered_assets;
-            }
-
-            let file: string;
-            let dl_url: string;
-            if (assets.length === 1) {
-                file = assets[0]?.name as string;
-                dl_url = assets[0]?.url as string;
-            } else {
-                console.warn(
-                    `W: More or less than one asset remaining for ${url}: `,
-                    assets.map((asset) => asset.name),
-                );
-                return undefined;
-            }
+): Promise<{ status: string; version: string; file_name: string; file_url: string } | undefined> {
+    const { status, release } = await provider.latest_release(url);
+    if (status == '200' && release != undefined) {
+        if (release.assets.length < 1) {
+            console.warn('W: Got response with empty assets for: ', url, status);
+            return undefined;
+        }
 
-            return { version: version as string, status, file_name: file, file_url: dl_url, source_api_key };
-        } else {
+        const asset = pick_release_asset(release, mod_obj.update_state.file_pattern);
+        if (asset == undefined) {
+            console.warn(
+                `W: More or less than one asset remaining for ${url}: `,
+                release.assets.map((asset) => asset.name),
+            );
             return undefined;
         }
+
+        return { version: release.version, status, file_name: asset.name, file_url: asset.url };
     }
     return undefined;
 }
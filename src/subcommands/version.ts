@@ -1,41 +1,22 @@
-import { ANNOTATED_FILE, DOWNLOAD_TEMP_DIR, DOWNLOAD_UNDO_DIR, GITHUB_API_KEY, MOD_BASE_DIR } from '../utils/config';
-import { assert_gh_key, download_file, filter_assets, print_gh_ratelimits, query_gh_project_by_url, SOURCE_API_KEYS } from '../utils/fetch';
+import { ANNOTATED_FILE, DOWNLOAD_TEMP_DIR, GITHUB_API_KEY, MOD_BASE_DIR } from '../utils/config';
+import { assert_gh_key, download_file, print_gh_ratelimits, SOURCE_API_KEYS } from '../utils/fetch';
 import {
     collect_files_from_zip,
     extract_file_from_zip,
-    glob_files_in_dir,
+    hash_file,
     is_zip_file,
     path_is_directory,
     rename_file,
-    save_list_to_file,
-    save_map_to_file,
 } from '../utils/fs';
-import { are_all_mods_unlocked, default_mod_object, is_mod_ignored_by_name, parse_mod_details, read_saved_mods, type mod_object } from '../utils/mods';
+import { are_all_mods_unlocked, default_mod_object, is_mod_ignored_by_name, parse_mod_details, read_saved_mods, write_saved_mods, type mod_object } from '../utils/mods';
+import { side_to_tags } from '../utils/metadata';
+import { ensure_journal_backup } from '../utils/journal';
 import { CLIColor, clone, finish_live_zone, hash_buffer, init_live_zone, is_finished, live_log, render_md, rev_replace_all, update_live_zone } from '../utils/utils';
 import { mkdir, rename, rm } from 'node:fs/promises';
 import { toNamespacedPath } from 'node:path';
 import { extract_required_prs, parse_gh_url } from '../utils/sources';
 import { get_dl_url_from_github_url, type Artifact } from './pr';
-
-interface ReleaseAsset {
-    url: string;
-    browser_download_url: string;
-    id: number;
-    name: string;
-    content_type: string;
-    size: number;
-    digest: string | null; // sha256:2151b604e3429bff440b9fbc03eb3617bc2603cda96c95b9bb05277f9ddba255
-}
-interface Release {
-    url: string;
-    assets_url: string;
-    id: number;
-    tag_name: string;
-    target_commitish: string;
-    name: string;
-    body: string;
-    assets: ReleaseAsset[];
-}
+import { get_source_provider, pick_release_asset, warn_skipped_providers, type SourceProvider, type SourceRelease } from '../utils/providers';
 
 //#region general helpers
 
@@ -47,16 +28,7 @@ function color_by_age(days: number): CLIColor {
 }
 
 function render_wide_release(
-    release: {
-        tag_name: string;
-        author: { login: string };
-        name: string;
-        draft: string;
-        prerelease: string;
-        published_at: string;
-        assets: { name: string; download_count: number; size: number }[];
-        body: string;
-    },
+    release: SourceRelease,
     options: {
         version_padding: number;
         add_underscores?: boolean;
@@ -68,18 +40,18 @@ function render_wide_release(
 ): string {
     const age_days_raw = (new Date(Date.now()).getTime() - new Date(release.published_at).getTime()) / 86400000;
     const age_days = age_days_raw.toFixed(2);
-    const padding = rev_replace_all(' '.repeat(options.version_padding - release.tag_name.length), '   ', ' . ');
+    const padding = rev_replace_all(' '.repeat(options.version_padding - release.version.length), '   ', ' . ');
     const release_name =
-        release.name && release.name !== release.tag_name ? ` ${CLIColor.FgGray}·${CLIColor.Reset} ${CLIColor.FgWhite2}${release.name}${CLIColor.Reset}` : '';
+        release.name && release.name !== release.version ? ` ${CLIColor.FgGray}·${CLIColor.Reset} ${CLIColor.FgWhite2}${release.name}${CLIColor.Reset}` : '';
     const badges =
         (release.draft ? ` ${CLIColor.BgYellow0}${CLIColor.FgBlack}${CLIColor.Bright} DRAFT ${CLIColor.Reset}` : '') +
         (release.prerelease ? ` ${CLIColor.BgMagenta0}${CLIColor.FgWhite}${CLIColor.Bright} PRE ${CLIColor.Reset}` : '');
-    const author = release.author?.login
-        ? `${options.add_underscores ? CLIColor.Underscore : ''}${CLIColor.FgGray} by ${CLIColor.FgGray15}${release.author.login}${CLIColor.Reset}`
+    const author = release.author
+        ? `${options.add_underscores ? CLIColor.Underscore : ''}${CLIColor.FgGray} by ${CLIColor.FgGray15}${release.author}${CLIColor.Reset}`
         : '';
     let result_text =
         (options.text_start || `${options.add_underscores ? CLIColor.Underscore : ''}${CLIColor.FgGray} - ${CLIColor.Reset}`) +
-        `${options.add_underscores ? CLIColor.Underscore : ''}${CLIColor.BgBlue0}${CLIColor.FgWhite1}${CLIColor.Bright} ${release.tag_name} ${CLIColor.Reset}` +
+        `${options.add_underscores ? CLIColor.Underscore : ''}${CLIColor.BgBlue0}${CLIColor.FgWhite1}${CLIColor.Bright} ${release.version} ${CLIColor.Reset}` +
         `${options.add_underscores ? CLIColor.Underscore : ''}${CLIColor.FgGray}${padding}${CLIColor.Reset}` +
         `${options.add_underscores ? CLIColor.Underscore : ''}${color_by_age(age_days_raw)}${CLIColor.Bright}${age_days}${CLIColor.Reset}` +
         `${options.add_underscores ? CLIColor.Underscore : ''}${CLIColor.FgGray} days ago${CLIColor.Reset}` +
@@ -93,8 +65,8 @@ function render_wide_release(
     // Assets section — colored gutter, transparent content background
     if (Array.isArray(release.assets) && release.assets.length > 0 && options.render_assets) {
         const gutter_a = `${CLIColor.BgGray5}${CLIColor.Dim}${CLIColor.FgMagenta11}▌${CLIColor.Reset}    `;
-        const longest_asset = (release.assets as { name: string }[]).reduce((m, a) => Math.max(m, a.name.length), 0);
-        for (const asset of release.assets as { name: string; size: number; download_count: number }[]) {
+        const longest_asset = release.assets.reduce((m, a) => Math.max(m, a.name.length), 0);
+        for (const asset of release.assets) {
             const kb = (asset.size / 1024).toFixed(0);
             const name_pad = ' '.repeat(longest_asset - asset.name.length + 2);
             result_text +=
@@ -102,7 +74,7 @@ function render_wide_release(
                 `${CLIColor.FgGray} - ${CLIColor.Reset}` +
                 `${CLIColor.Dim}${CLIColor.FgMagenta11}${asset.name}${CLIColor.Reset}${name_pad}` +
                 `${CLIColor.FgGray10}(${CLIColor.Reset}` +
-                `${CLIColor.FgGray20}${asset.download_count}↓${CLIColor.FgGray11}, ` +
+                `${CLIColor.FgGray20}${asset.download_count ?? '?'}↓${CLIColor.FgGray11}, ` +
                 `${CLIColor.FgGray18}${kb} ${CLIColor.FgGray14}KB` +
                 `${CLIColor.FgGray10})${CLIColor.Reset}\n`;
         }
@@ -135,8 +107,6 @@ export async function list_all_versions_for_mod(
     },
     mod_map?: Map<string, mod_object>,
 ) {
-    assert_gh_key();
-
     let limitToXReleases = Infinity;
     if (options.count != undefined && !Number.isNaN(Number(options.count))) {
         limitToXReleases = Number(options.count);
@@ -153,31 +123,17 @@ export async function list_all_versions_for_mod(
         return;
     }
 
-    const source_api_key = SOURCE_API_KEYS.get(mod.update_state.source_type);
-    if (!source_api_key) {
-        console.warn('W: Missing API key for mods source ', mod.update_state.source_type, ', ignoring.');
+    const provider = get_source_provider(mod.update_state.source_type);
+    if (!provider.is_available()) {
+        console.warn(`W: Missing ${provider.api_key_name ?? 'API key'} for mods source ${provider.name}, ignoring.`);
         return;
     }
 
-    let { headers, status, body } = await query_gh_project_by_url(mod.source, '/releases?per_page=100');
-    if (status == '200' && body != undefined && Array.isArray(body)) {
-        const releases = Array.from(body);
-        if (options.all_pages && headers?.get('link')?.includes('rel="last"')) {
-            let page = 2;
-            while (page < 10 && headers?.get('link')?.includes('rel="last"')) {
-                ({ headers, status, body } = await query_gh_project_by_url(mod.source, '/releases?per_page=100&page=' + page));
-                if (status == '200' && body != undefined && Array.isArray(body)) {
-                    releases.push(...body);
-                    page++;
-                } else {
-                    console.warn('W: Failed to fetch further releases for page ', page, '.');
-                    break;
-                }
-            }
-        }
+    const { status, releases, truncated } = await provider.list_releases(mod.source, options.all_pages);
+    if (status == '200') {
 
         let longest_tag_length = 0;
-        releases.forEach((release) => (longest_tag_length = Math.max(release.tag_name.length || 0, longest_tag_length)));
+        releases.forEach((release) => (longest_tag_length = Math.max(release.version.length || 0, longest_tag_length)));
         longest_tag_length += 3;
 
         for (const release of releases.slice(0, Math.min(limitToXReleases, releases.length)).reverse()) {
@@ -187,7 +143,7 @@ export async function list_all_versions_for_mod(
                         version_padding: longest_tag_length,
                         add_underscores: true,
                         text_end:
-                            release.tag_name === mod.update_state.version
+                            release.version === mod.update_state.version
                                 ? `   \t${CLIColor.FgGray19}<- ${CLIColor.FgGray14}[${CLIColor.FgGray19}current version${CLIColor.FgGray14}]${CLIColor.Reset}`
                                 : undefined,
                         render_assets: !options.hide_assets,
@@ -197,18 +153,18 @@ export async function list_all_versions_for_mod(
             } else {
                 const age_days_raw = (new Date(Date.now()).getTime() - new Date(release.published_at).getTime()) / 86400000;
                 const age_days = age_days_raw.toFixed(2);
-                const padding = rev_replace_all(' '.repeat(longest_tag_length - release.tag_name.length), '   ', ' . ');
+                const padding = rev_replace_all(' '.repeat(longest_tag_length - release.version.length), '   ', ' . ');
                 console.log(
                     `${CLIColor.FgGray} - ${CLIColor.Reset}` +
-                        `${CLIColor.FgBlue0}${CLIColor.Bright} ${release.tag_name} ${CLIColor.Reset}` +
+                        `${CLIColor.FgBlue0}${CLIColor.Bright} ${release.version} ${CLIColor.Reset}` +
                         `${CLIColor.FgGray}${padding}${CLIColor.Reset}` +
                         `${color_by_age(age_days_raw)}${age_days}${CLIColor.Reset}` +
-                        `${CLIColor.FgGray} days ago${CLIColor.Reset}${release.tag_name === mod.update_state.version ? `   \t${CLIColor.FgGray19}<- ${CLIColor.FgGray14}[${CLIColor.FgGray19}current version${CLIColor.FgGray14}]${CLIColor.Reset}` : ''}`,
+                        `${CLIColor.FgGray} days ago${CLIColor.Reset}${release.version === mod.update_state.version ? `   \t${CLIColor.FgGray19}<- ${CLIColor.FgGray14}[${CLIColor.FgGray19}current version${CLIColor.FgGray14}]${CLIColor.Reset}` : ''}`,
                 );
             }
         }
 
-        if (!options.all_pages && headers?.get('link')?.includes('rel="last"')) {
+        if (!options.all_pages && truncated) {
             console.log(
                 `\n${CLIColor.FgCyan}Note${CLIColor.FgGray}: ${CLIColor.FgGray19}Older versions were truncated due to pagination. Specify ${CLIColor.Bright}${CLIColor.FgWhite}--all${CLIColor.Reset}${CLIColor.FgGray19} to include all versions.`,
             );
@@ -229,7 +185,6 @@ export async function switch_version_of_mod(
     },
     mod_map?: Map<string, mod_object>,
 ) {
-    assert_gh_key();
     if (!(await are_all_mods_unlocked())) {
         console.warn('W: Something is locking a file in the mods directory. Is the game still running?');
         return;
@@ -246,18 +201,18 @@ export async function switch_version_of_mod(
         return;
     }
 
-    const source_api_key = SOURCE_API_KEYS.get(mod.update_state.source_type);
-    if (!source_api_key) {
-        console.warn('W: Missing API key for mods source ', mod.update_state.source_type, ', ignoring.');
+    const provider = get_source_provider(mod.update_state.source_type);
+    if (!provider.is_available()) {
+        console.warn(`W: Missing ${provider.api_key_name ?? 'API key'} for mods source ${provider.name}, ignoring.`);
         return;
     }
 
-    let { headers, status, body } = await query_gh_project_by_url(mod.source, '/releases/tags/' + version, undefined, [404]);
-    if (status === '200' && body != undefined && body.assets != undefined && Array.isArray(body.assets)) {
+    const { status, release } = await provider.get_release(mod.source, version);
+    if (status === '200' && release != undefined) {
         if (options.dry) {
             // Just print the specific release for dry runs
             console.log(
-                render_wide_release(body as any, {
+                render_wide_release(release, {
                     version_padding: 16,
                     text_start: `  ${CLIColor.BgTeal3}${CLIColor.FgWhite1}${CLIColor.Bright} ${mod.update_state.version} ${CLIColor.Reset} ${CLIColor.Bright}${CLIColor.FgGray17}-> ${CLIColor.Reset}`,
                     render_assets: !options.hide_assets,
@@ -270,29 +225,32 @@ export async function switch_version_of_mod(
                 console.error(`Failed to create temporary download directory at ${toNamespacedPath(DOWNLOAD_TEMP_DIR)}`);
                 throw err;
             });
-            await mkdir(DOWNLOAD_UNDO_DIR, { recursive: true }).catch((err) => {
-                console.error(`Failed to create temporary download directory at ${toNamespacedPath(DOWNLOAD_TEMP_DIR)}`);
-                throw err;
-            });
-
-            let assets = body.assets as Array<{ browser_download_url: string; name: string; size: any }>;
-            let [file_name, dl_url] = filter_assets(assets, mod.update_state.file_pattern);
 
-            if (file_name == undefined || dl_url == undefined) {
+            const asset = pick_release_asset(release, mod.update_state.file_pattern);
+            if (asset == undefined) {
                 console.warn(
                     `W: More or less than one asset remaining for ${mod_id}: `,
-                    assets.map((asset) => asset.name),
+                    release.assets.map((asset) => asset.name),
                 );
                 return;
             }
+            const file_name = asset.name;
 
             // Actually download the remote version
-            const res = await download_file(dl_url, mod.update_state.source_type, DOWNLOAD_TEMP_DIR, file_name, source_api_key);
+            const res = await provider.download(asset.url, DOWNLOAD_TEMP_DIR, file_name).catch((err) => {
+                console.warn(err);
+                return undefined;
+            });
+            if (res == undefined) return;
             const is_base_required = mod.tags?.includes('REQUIRED_BASE') || false;
 
             // And replace the old file
             const old_mod_jar = mod.file_path.replace(MOD_BASE_DIR + '/', '');
             const new_mod_path = `${MOD_BASE_DIR}/${file_name + (mod.enabled ? '' : '.disabled')}`;
+            if (!(await ensure_journal_backup(mod.file_path))) {
+                console.warn(`W: Failed to back up the previous version of mod ${mod_id}, keeping it instead of switching.`);
+                return;
+            }
             await Bun.file(mod.file_path)
                 .delete()
                 .catch(() => {
@@ -304,12 +262,12 @@ export async function switch_version_of_mod(
                         `Switched version of ${mod_id} from ` +
                             `${CLIColor.BgTeal3}${CLIColor.FgWhite1}${CLIColor.Bright} ${mod.update_state.version} ${CLIColor.Reset} ` +
                             `${CLIColor.FgGray}(${CLIColor.FgGray18}${old_mod_jar}${CLIColor.FgGray})${CLIColor.FgWhite3} to ` +
-                            `${CLIColor.BgBlue0}${CLIColor.FgWhite1}${CLIColor.Bright} ${version} ${CLIColor.Reset} ` +
+                            `${CLIColor.BgBlue0}${CLIColor.FgWhite1}${CLIColor.Bright} ${release.version} ${CLIColor.Reset} ` +
                             `${CLIColor.FgGray}(${CLIColor.FgGray18}${file_name + (mod.enabled ? '' : '.disabled')}${CLIColor.FgGray})${CLIColor.FgGray17}${CLIColor.Reset}`,
                     );
 
                     mod.file_path = new_mod_path;
-                    mod.update_state.version = version;
+                    mod.update_state.version = release.version;
                     mod.update_state.last_updated_at = new Date(Date.now()).toISOString();
                     if (is_base_required) {
                         console.info(`Mod required by basegame (${mod_id}) changed in version. Don't forget to also change it externally, if required.`);
@@ -318,7 +276,7 @@ export async function switch_version_of_mod(
                 .catch(() => console.warn(`W: Failed to move switched jar ${file_name} for mod ${mod_id} into the mod directory.`));
 
             // Save updated files & versions back to file (only changes when upgrading)
-            await save_map_to_file(ANNOTATED_FILE, mod_map);
+            await write_saved_mods(ANNOTATED_FILE, mod_map);
         }
     } else if (status === '404') {
         console.log(
@@ -336,7 +294,6 @@ export async function restore_to_asset_versions(
     },
     mod_map?: Map<string, mod_object>,
 ) {
-    assert_gh_key();
     if (!(await are_all_mods_unlocked())) {
         console.warn('W: Something is locking a file in the mods directory. Is the game still running?');
         return;
@@ -348,37 +305,44 @@ export async function restore_to_asset_versions(
         mod_obj: mod_object;
         file_name: string;
         file_url: string;
-        source_api_key: string;
     }[] = [];
     let longest_mod_id_length = 0;
+    const skipped_counts: Map<SourceProvider, number> = new Map();
 
     for (const [mod_id, mod] of mod_map) {
         if (mod.source == undefined || !mod.update_state.version) continue;
 
-        const source_api_key = SOURCE_API_KEYS.get(mod.update_state.source_type);
-        if (!source_api_key) {
-            console.warn('W: Missing API key for mods source ', mod.update_state.source_type, ', ignoring.');
+        const provider = get_source_provider(mod.update_state.source_type);
+        if (!provider.is_available()) {
+            skipped_counts.set(provider, (skipped_counts.get(provider) ?? 0) + 1);
             continue;
         }
 
-        let { headers, status, body } = await query_gh_project_by_url(mod.source, '/releases/tags/' + mod.update_state.version, undefined, [404]);
-        if (status === '200' && body != undefined && body.assets != undefined && Array.isArray(body.assets)) {
-            let assets = body.assets as Array<{ browser_download_url: string; name: string; size: any }>;
-            let [file_name, dl_url, size] = filter_assets(assets, mod.update_state.file_pattern);
+        const { status, release } = await provider.get_release(mod.source, mod.update_state.version);
+        if (status === '200' && release != undefined) {
+            // Pick the exact asset by hash if the host has them, as long as the jar on disk is still the one we annotated
+            let hash: string | undefined = undefined;
+            if (provider.hash_algorithm != undefined && mod.update_state.sha256_sum && (await Bun.file(mod.file_path).exists())) {
+                if ((await hash_file(mod.file_path)) === mod.update_state.sha256_sum) {
+                    hash = provider.hash_algorithm === 'sha256' ? mod.update_state.sha256_sum : await hash_file(mod.file_path, provider.hash_algorithm);
+                }
+            }
+            const asset = pick_release_asset(release, mod.update_state.file_pattern, hash);
             const old_mod_jar = mod.file_path.replace(RegExp(String.raw`${MOD_BASE_DIR}.*\/`), '');
 
-            if (file_name == undefined || dl_url == undefined) {
+            if (asset == undefined) {
                 console.warn(
                     `W: More or less than one asset remaining for ${mod_id}: `,
-                    assets.map((asset) => asset.name),
+                    release.assets.map((asset) => asset.name),
                     ', ignoring.',
                 );
                 continue;
             } else {
+                const { name: file_name, url: dl_url, size } = asset;
                 // Only re-download the asset if the file on disk differs from the remote asset, or the file is missing
                 const file = Bun.file(mod.file_path);
                 if (old_mod_jar !== file_name || !(await file.exists()) || (await file.stat()).size != Number(size)) {
-                    to_update_mods.push({ file_name, file_url: dl_url, mod_id, mod_obj: mod, source_api_key });
+                    to_update_mods.push({ file_name, file_url: dl_url, mod_id, mod_obj: mod });
                     longest_mod_id_length = Math.max(mod_id.length, longest_mod_id_length);
                 }
             }
@@ -388,6 +352,7 @@ export async function restore_to_asset_versions(
             );
         }
     }
+    warn_skipped_providers(skipped_counts);
 
     // Print list of mods that would be restored
     let longest_mod_version_length = 0;
@@ -420,10 +385,6 @@ export async function restore_to_asset_versions(
             console.error(`Failed to create temporary download directory at ${toNamespacedPath(DOWNLOAD_TEMP_DIR)}`);
             throw err;
         });
-        await mkdir(DOWNLOAD_UNDO_DIR, { recursive: true }).catch((err) => {
-            console.error(`Failed to create temporary download directory at ${toNamespacedPath(DOWNLOAD_TEMP_DIR)}`);
-            throw err;
-        });
 
         let running_downloads = 0;
         let completed_downloads = 0;
@@ -447,12 +408,10 @@ export async function restore_to_asset_versions(
                     if (to_download_mod != undefined) {
                         // console.log(`Downloading ${to_download_mod.mod_id} from ${to_download_mod.file_url}...`);
                         download_map.set(to_download_mod.mod_id, {
-                            response: download_file(
+                            response: get_source_provider(to_download_mod.mod_obj.update_state.source_type).download(
                                 to_download_mod.file_url,
-                                to_download_mod.mod_obj.update_state.source_type,
                                 DOWNLOAD_TEMP_DIR,
                                 to_download_mod.file_name,
-                                to_download_mod.source_api_key,
                             ),
                             start_time: Date.now(),
                             file_name: to_download_mod.file_name,
@@ -505,46 +464,25 @@ export async function restore_to_asset_versions(
 
         // Replace the mod jars
         if (downloaded_mods.size > 0) {
-            const undo_list: Array<{ mod_id: string; old_file: string; new_file: string; old_version: string }> = [];
-            // Clear old update undo jars
-            (await glob_files_in_dir(DOWNLOAD_UNDO_DIR, /\.jar(?:\.disabled)?$/m, false)).forEach(
-                async (file) =>
-                    await Bun.file(file)
-                        .delete()
-                        .catch(() => console.warn('W: Failed to delete leftover undo-file for previously downloaded mod ' + file)),
-            );
-
             for (const [mod_id, { file_name, is_base_required, mod_obj }] of downloaded_mods.entries()) {
                 const mod = mod_map.get(mod_id);
                 if (mod && (await Bun.file(`${DOWNLOAD_TEMP_DIR}/${file_name}`).exists())) {
-                    const old_mod_jar = mod.file_path.replace(RegExp(String.raw`${MOD_BASE_DIR}.*\/`), '');
                     const new_mod_path = `${MOD_BASE_DIR}/${file_name + (mod.enabled ? '' : '.disabled')}`;
-
-                    if (await Bun.file(`${DOWNLOAD_UNDO_DIR}/${old_mod_jar}`).exists()) {
-                        await rename(mod.file_path, `${DOWNLOAD_UNDO_DIR}/${old_mod_jar}`).catch((err) => {
-                            console.warn(
-                                `W: Failed to move the older jar for mod ${mod_id} from the mod dir into the undo dir. Won't be able to undo the changed file for this mod.`,
-                            );
-                        });
+                    if (!(await ensure_journal_backup(mod.file_path))) {
+                        console.warn(`W: Failed to back up the older jar for mod ${mod_id}, keeping it instead of replacing it.`);
+                        continue;
                     }
 
                     await rename(`${DOWNLOAD_TEMP_DIR}/${file_name}`, new_mod_path)
                         .then(async () => {
                             if (!(await Bun.file(new_mod_path).exists())) {
-                                console.warn(`W: Failed to move newer file for ${mod_id} (${file_name}) to mod directory. Reverting to previous version.`);
-                                await rename(`${DOWNLOAD_UNDO_DIR}/${old_mod_jar}`, mod.file_path).catch((err) => {
-                                    console.warn(`W: Failed to move the older jar for mod ${mod_id} back from the undo dir into the mod dir.`);
-                                });
+                                console.warn(`W: Failed to move newer file for ${mod_id} (${file_name}) to mod directory. Keeping the previous version.`);
                             } else {
-                                if (await Bun.file(`${DOWNLOAD_UNDO_DIR}/${old_mod_jar}`).exists()) {
-                                    undo_list.push({
-                                        mod_id,
-                                        new_file: file_name + (mod.enabled ? '' : '.disabled'),
-                                        old_file: old_mod_jar,
-                                        old_version: mod.update_state?.version || '',
-                                    });
+                                if (mod.file_path !== new_mod_path) {
+                                    await Bun.file(mod.file_path)
+                                        .delete()
+                                        .catch(() => console.warn(`W: Failed to delete the older jar for mod ${mod_id}, at ${mod.file_path}`));
                                 }
-
                                 mod.file_path = new_mod_path;
                                 mod.update_state.last_updated_at = new Date(Date.now()).toISOString();
                                 if (is_base_required) {
@@ -557,11 +495,10 @@ export async function restore_to_asset_versions(
                     console.warn(`W: Failed to download mod for ${mod_id} for remote asset ${file_name}!`);
                 }
             }
-            await save_list_to_file(DOWNLOAD_UNDO_DIR + '/update_undo.json', undo_list);
         }
 
         // Save updated files & versions back to file (only changes when upgrading)
-        await save_map_to_file(ANNOTATED_FILE, mod_map);
+        await write_saved_mods(ANNOTATED_FILE, mod_map);
     }
 
     await print_gh_ratelimits(GITHUB_API_KEY);
@@ -574,93 +511,39 @@ export async function verify_and_refresh_source_links(
     },
     mod_map?: Map<string, mod_object>,
 ) {
-    assert_gh_key();
     mod_map = mod_map == undefined ? await read_saved_mods(ANNOTATED_FILE) : mod_map;
+    const skipped_counts: Map<SourceProvider, number> = new Map();
 
     for (const [mod_name, mod] of mod_map) {
         if (!mod.update_state || !mod.source) continue;
 
-        const source_api_key = SOURCE_API_KEYS.get(mod.update_state.source_type);
-        if (!source_api_key) {
-            //console.warn('W: Missing API key for mods source ', mod.update_state.source_type, ', ignoring.');
+        const provider = get_source_provider(mod.update_state.source_type);
+        if (!provider.is_available()) {
+            skipped_counts.set(provider, (skipped_counts.get(provider) ?? 0) + 1);
             continue;
         }
 
-        switch (mod.update_state.source_type) {
-            case 'GITHUB': {
-                const url_match = parse_gh_url(mod.source);
-                if (url_match != undefined) {
-                    const { owner, project, primary, secondary, key } = url_match;
-                    // Does the version on the file match the version in the url
-                    if (primary === 'releases' && secondary === 'tag' && key != undefined && mod.update_state.version !== key) {
-                        // Has to be updated, fetch releases from github
-                        let release: Release | undefined = undefined;
-                        let { headers, status, body } = await query_gh_project_by_url(mod.source, '/releases?per_page=100');
-                        if (status == '200' && body != undefined && Array.isArray(body)) {
-                            const releases = Array.from(body);
-                            // Try to find in releases by matching mod version against release tag
-                            release = releases.find((entry: Release) => entry.tag_name === mod.update_state.version);
-
-                            if (release == undefined && headers?.get('link')?.includes('rel="last"')) {
-                                let page = 2;
-                                while (release == undefined && page < 10 && headers?.get('link')?.includes('rel="last"')) {
-                                    ({ headers, status, body } = await query_gh_project_by_url(mod.source, '/releases?per_page=100&page=' + page));
-                                    if (status == '200' && body != undefined && Array.isArray(body)) {
-                                        // Find release from matched tag or matched asset digest
-                                        release = body.find(
-                                            (entry: Release) =>
-                                                entry.tag_name === mod.update_state.version ||
-                                                entry.assets.find(
-                                                    (asset_entry) => asset_entry.digest != null && asset_entry.digest.slice(7) === mod.update_state.sha256_sum,
-                                                ) != undefined,
-                                        );
-                                        page++;
-                                    } else {
-                                        console.warn('W: Failed to fetch further releases for page ', page, '.');
-                                        break;
-                                    }
-                                }
-                            }
-                        }
-
-                        if (release != undefined) {
-                            const asset = release.assets.find((entry) => entry.digest != null && entry.digest.slice(7) === mod.update_state.sha256_sum);
-                            if (asset != undefined) {
-                                mod.source = asset.browser_download_url;
-                            } else {
-                                console.log(`Found matching release for mod ${mod_name}, but failed to find matching asset.`);
-                            }
-                        } else {
-                            console.log(`Failed to find release tag ${mod.update_state.version} for mod ${mod_name}.`);
-                        }
-                    }
-                } else {
-                    console.warn('W: Encountered malformed source URL for mod ', mod_name, ', skipping.', mod.source);
-                    continue;
-                }
-
-                break;
-            }
-            case 'CURSEFORGE': {
-                // TBD
-                break;
-            }
-            case 'MODRINTH': {
-                // TBD
-                break;
-            }
-            case 'OTHER': {
-                // IDK
-                break;
-            }
-            default: {
-                console.warn(`W: Encountered unkown source type '${mod.update_state.source_type}', skipping`);
+        const { status, release, asset } = await provider.resolve_asset_by_hash(mod.source, {
+            path: mod.file_path,
+            sha256_sum: mod.update_state.sha256_sum,
+            version: mod.update_state.version,
+        });
+        if (status === '200' && release != undefined) {
+            if (asset != undefined) {
+                mod.source = asset.url;
+            } else {
+                console.log(`Found matching release for mod ${mod_name}, but failed to find matching asset.`);
             }
+        } else if (status === '404') {
+            console.log(`Failed to find release ${mod.update_state.version} for mod ${mod_name}.`);
+        } else if (status === '400') {
+            console.warn('W: Encountered malformed source URL for mod ', mod_name, ', skipping.', mod.source);
         }
     }
+    warn_skipped_providers(skipped_counts);
 
     if (!options.dry) {
-        await save_map_to_file(ANNOTATED_FILE, mod_map);
+        await write_saved_mods(ANNOTATED_FILE, mod_map);
     }
 
     await print_gh_ratelimits(GITHUB_API_KEY);
@@ -770,7 +653,17 @@ export async function apply_github_artifact(
     );
 
     // Check modid of jar for switching out with existing version
-    const { id: mod_id, version: mod_version, wants: mod_wants, hash: mod_hash, other_mod_ids: mod_other_ids } = await parse_mod_details(jar_file_path);
+    const {
+        id: mod_id,
+        version: mod_version,
+        wants: mod_wants,
+        optional_wants: mod_optional_wants,
+        incompatible_with: mod_incompatible_with,
+        want_ranges: mod_want_ranges,
+        hash: mod_hash,
+        other_mod_ids: mod_other_ids,
+        side: mod_side,
+    } = await parse_mod_details(jar_file_path);
     let jar_mod_path = MOD_BASE_DIR + '/' + jar_file;
 
     // Jar could not be recognized as a mod, add it as something unknown
@@ -806,6 +699,7 @@ export async function apply_github_artifact(
         console.info(`${CLIColor.FgGray}-${CLIColor.Reset} Moved indev jar to mods folder, updating track entry${CLIColor.FgGray}...${CLIColor.Reset}`);
 
         mod_obj.file_path = jar_mod_path;
+        mod_obj.want_ranges = mod_want_ranges;
         mod_obj.update_state.version = mod_version ?? mod_obj.version + '-dirty';
         mod_obj.source = artifact.archive_download_url;
         mod_obj.update_state.last_updated_at = new Date(Date.now()).toISOString();
@@ -823,12 +717,16 @@ export async function apply_github_artifact(
         new_mod_obj.update_state.version = mod_version ?? artifact.name + '-dirty';
         new_mod_obj.update_state.sha256_sum = mod_hash;
         new_mod_obj.wants = mod_wants;
+        new_mod_obj.optional_wants = mod_optional_wants;
+        new_mod_obj.incompatible_with = mod_incompatible_with;
+        new_mod_obj.want_ranges = mod_want_ranges;
         new_mod_obj.other_mod_ids = mod_other_ids || [];
+        if (mod_side != undefined) new_mod_obj.tags = side_to_tags(mod_side);
 
         mod_map.set(mod_id, new_mod_obj);
     }
 
-    await save_map_to_file(ANNOTATED_FILE, mod_map);
+    await write_saved_mods(ANNOTATED_FILE, mod_map);
 
     const final_version = mod_version ?? artifact.name + '-dirty';
     console.info(
@@ -0,0 +1,22 @@
+import { afterAll } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// Preloaded by bun test (see bunfig.toml), before any test file loads the config.
+// Tests run in a scratch pack with its own packscripts.json, so they never touch a real one.
+const sandbox_dir = mkdtempSync(join(tmpdir(), 'packscripts-test-'));
+writeFileSync(join(sandbox_dir, 'packscripts.json'), JSON.stringify({ MOD_BASE_DIR: 'mods', ANNOTATED_FILE: 'annotated.json', RELATIVE_INSTANCE_DIRECTORY: '.' }));
+process.chdir(sandbox_dir);
+afterAll(() => rmSync(sandbox_dir, { recursive: true, force: true }));
+
+// The config reads the api urls & keys once, when the first test file imports it,
+// so they have to point at a free local port by then. Tests that need a host serve their stand-in on that port.
+// Both stay up until each has its port, so they can't get the same one.
+const reserved = ['MODRINTH', 'CURSEFORGE'].map((api) => {
+    const server = Bun.serve({ port: 0, fetch: () => new Response() });
+    Bun.env[`PACKSCRIPTS_${api}_API_URL`] = server.url.href;
+    return server;
+});
+reserved.forEach((server) => server.stop(true));
+Bun.env.PACKSCRIPTS_CURSEFORGE_API_KEY = 'test-key';
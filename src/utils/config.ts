@@ -1,5 +1,6 @@
 import path from 'node:path';
 import { existsSync } from 'node:fs';
+import { write_file_atomic } from './fs';
 
 export const IS_LIMITED_ENV = (Bun.env.PACKSCRIPTS_IS_LIMITED_ENV || '0') === '1';
 export const CONFIG_FILE = 'packscripts.json';
@@ -32,6 +33,11 @@ export interface PackagingConfig {
         [key: string]: PackPackagingVariant;
     };
     MAX_WORKER_THREADS: number;
+    // Serve matching files from somewhere other than the repository, like "${CDN_BASE}/{commit}/{path}". The first matching glob wins.
+    URL_OVERRIDES?: Array<{
+        path: string;
+        url: string;
+    }>;
     IMAGE?: {
         GIT_CHANGE_WINDOW?: number;
         STAGING_DIRECTORY?: string;
@@ -42,6 +48,8 @@ export interface PackPackagingVariant {
     TYPE: 'server' | 'client';
     REQUIRED_MOD_TAGS: Array<string>;
     EXCLUDED_MOD_TAGS: Array<string>;
+    // A selector mods have to match on top of the tags, like "not tag:BROKEN and enabled:true"
+    MOD_SELECTOR?: string;
     TRACK_INCLUDE_PATHS: Array<{
         path: string;
         include_as?: string;
@@ -71,7 +79,11 @@ export interface Config {
     DOWNLOAD_TEMP_DIR: string;
     DOWNLOAD_UNDO_DIR: string;
     ANNOTATED_FILE: string;
+    PROFILES_FILE?: string | undefined;
+    PARSE_POOL_SIZE?: number | undefined;
     RELATIVE_INSTANCE_DIRECTORY: string;
+    GAME_VERSIONS?: string[] | undefined;
+    MOD_LOADERS?: string[] | undefined;
     PACKAGING?: PackagingConfig | undefined;
     CI_INTEGRATION?: CIIntegrationConfig | undefined;
 }
@@ -86,14 +98,26 @@ let secrets = (await Bun.file(ENV_FILE).exists()) ? await Bun.file(ENV_FILE).jso
 
 export const RELATIVE_INSTANCE_DIRECTORY: string = (config?.RELATIVE_INSTANCE_DIRECTORY?.replace(/\/?$/m, '') ?? '.') + '/';
 export const MOD_BASE_DIR: string = config?.MOD_BASE_DIR?.replace(/\/$/m, '');
-export const DOWNLOAD_TEMP_DIR: string =
-    (config?.DOWNLOAD_TEMP_DIR?.replace(/\/$/m, '') as string | undefined) ?? RELATIVE_INSTANCE_DIRECTORY + '.packscripts_tmp/downloads/';
-export const DOWNLOAD_UNDO_DIR: string =
-    (config?.DOWNLOAD_UNDO_DIR?.replace(/\/$/m, '') as string | undefined) ?? RELATIVE_INSTANCE_DIRECTORY + '.packscripts_tmp/undos/';
+export const PACKSCRIPTS_TMP_DIR: string = RELATIVE_INSTANCE_DIRECTORY + '.packscripts_tmp/';
+export const DOWNLOAD_TEMP_DIR: string = (config?.DOWNLOAD_TEMP_DIR?.replace(/\/$/m, '') as string | undefined) ?? PACKSCRIPTS_TMP_DIR + 'downloads/';
+export const DOWNLOAD_UNDO_DIR: string = (config?.DOWNLOAD_UNDO_DIR?.replace(/\/$/m, '') as string | undefined) ?? PACKSCRIPTS_TMP_DIR + 'undos/';
+// Renames of the running command, so repair can move them back if it gets killed
+export const RENAME_BATCH_FILE: string = PACKSCRIPTS_TMP_DIR + 'rename_batch.jsonl';
 export const ANNOTATED_FILE: string = config?.ANNOTATED_FILE?.replace(/\/$/m, '');
+// Profiles live next to the annotated mods by default
+export const PROFILES_FILE: string = config?.PROFILES_FILE ?? path.join(path.dirname(ANNOTATED_FILE ?? '.'), 'profiles.json');
+// How many jars are parsed at the same time when extracting mod infos
+export const PARSE_POOL_SIZE: number = Math.max(1, Math.floor(Number(Bun.env.PACKSCRIPTS_PARSE_POOL_SIZE || config?.PARSE_POOL_SIZE) || 8));
 export const PACKAGING = config?.PACKAGING;
 export const CI_INTEGRATION = config?.CI_INTEGRATION;
 export const GITHUB_API_KEY: string | undefined = secrets?.GITHUB_API_KEY || Bun.env.PACKSCRIPTS_GITHUB_API_KEY || undefined;
+export const MODRINTH_API_KEY: string | undefined = secrets?.MODRINTH_API_KEY || Bun.env.PACKSCRIPTS_MODRINTH_API_KEY || undefined;
+// Overridable so the api can be swapped for a local stand-in
+export const MODRINTH_API_URL: string = (Bun.env.PACKSCRIPTS_MODRINTH_API_URL || 'https://api.modrinth.com/v2').replace(/\/$/m, '');
+export const CURSEFORGE_API_KEY: string | undefined = secrets?.CURSEFORGE_API_KEY || Bun.env.PACKSCRIPTS_CURSEFORGE_API_KEY || undefined;
+export const CURSEFORGE_API_URL: string = (Bun.env.PACKSCRIPTS_CURSEFORGE_API_URL || 'https://api.curseforge.com/v1').replace(/\/$/m, '');
+// Signs the unsup manifests, as a signify secret key. Set by "package keygen".
+export const PACKAGING_SIGNING_KEY: string | undefined = secrets?.PACKAGING_SIGNING_KEY || Bun.env.PACKSCRIPTS_PACKAGING_SIGNING_KEY || undefined;
 
 type ConfigKey = keyof NonNullable<typeof config>;
 
@@ -117,3 +141,54 @@ export async function set_config_keys(entries: Partial<NonNullable<typeof config
     Object.assign(config, entries);
     await write_config();
 }
+
+/**
+ * Read a value from the secrets file, or from the environment if it isn't set there
+ */
+export function read_secret(name: string): string | undefined {
+    return secrets?.[name] || Bun.env[name] || undefined;
+}
+
+/**
+ * Set keys in the secrets file, which is kept out of git and only readable by the user
+ */
+export async function set_secret_keys(entries: Record<string, string>) {
+    if (!secrets) secrets = {};
+    Object.assign(secrets, entries);
+    await write_file_atomic(ENV_FILE, JSON.stringify(secrets, null, 4), 0o600);
+}
+
+// Maps mmc-pack.json component uids to the loader names remote hosts use
+const MMC_LOADER_COMPONENTS: Record<string, string> = {
+    'net.minecraftforge': 'forge',
+    'net.neoforged': 'neoforge',
+    'net.fabricmc.fabric-loader': 'fabric',
+    'org.quiltmc.quilt-loader': 'quilt',
+};
+let pack_targets: { game_versions: string[]; loaders: string[] } | undefined = undefined;
+
+/**
+ * Get the game versions and mod loaders this pack targets, to filter remote versions by.
+ * Uses GAME_VERSIONS / MOD_LOADERS from the config if set, otherwise reads them from the mmc-pack.json of the instance.
+ */
+export async function read_pack_targets(): Promise<{ game_versions: string[]; loaders: string[] }> {
+    if (pack_targets != undefined) return pack_targets;
+
+    const game_versions: string[] = config?.GAME_VERSIONS ?? [];
+    const loaders: string[] = config?.MOD_LOADERS ?? [];
+    const mmc_file = Bun.file(RELATIVE_INSTANCE_DIRECTORY + 'mmc-pack.json');
+    if ((game_versions.length == 0 || loaders.length == 0) && (await mmc_file.exists())) {
+        const mmc_json = await mmc_file.json().catch(() => undefined);
+        for (const component of mmc_json?.components ?? []) {
+            const version = component.version || component.cachedVersion;
+            if (component.uid === 'net.minecraft' && version && config?.GAME_VERSIONS == undefined) {
+                game_versions.push(version);
+            } else if (MMC_LOADER_COMPONENTS[component.uid] != undefined && config?.MOD_LOADERS == undefined) {
+                loaders.push(MMC_LOADER_COMPONENTS[component.uid] as string);
+            }
+        }
+    }
+
+    pack_targets = { game_versions, loaders };
+    return pack_targets;
+}
@@ -1,8 +1,8 @@
 import type { HeadersInit } from 'bun';
-import { parse_gh_url } from './sources';
+import { parse_cf_url, parse_gh_url, parse_mr_url } from './sources';
 import type { JsonObject } from './utils';
 import { is_mod_ignored_by_name, type SourceType } from './mods';
-import { GITHUB_API_KEY } from './config';
+import { CURSEFORGE_API_URL, GITHUB_API_KEY, MODRINTH_API_URL, read_pack_targets } from './config';
 import { log_debug } from './log';
 
 export const SOURCE_API_KEYS: Map<SourceType, string> = new Map();
@@ -55,7 +55,7 @@ export async function query_gh_project_by_url(
 
 export function download_file(
     source: string,
-    source_type: 'GITHUB' | 'CURSEFORGE' | 'MODRINTH' | 'OTHER',
+    source_type: SourceType,
     destination: string,
     file_name: string,
     source_api_key?: string,
@@ -84,8 +84,8 @@ export function download_file(
 
         let written_bytes = 0;
         for await (const chunk of res.body) {
-            // Await is actually needed here, since .write() returns a promise
-            written_bytes += await (writer.write(chunk) as unknown as Promise<number>).catch(() => {
+            // .write() only returns a promise when it has to flush, otherwise the written byte count directly
+            written_bytes += await Promise.resolve(writer.write(chunk)).catch(() => {
                 reject(`W: Failed to write chunk of ${destination}/${file_name} to disk`);
                 return 0;
             });
@@ -131,6 +131,276 @@ export async function gh_request(path: string, api_key: string, method: string =
     return res;
 }
 
+export interface ModrinthFile {
+    hashes: { sha1: string; sha512: string };
+    url: string;
+    filename: string;
+    primary: boolean;
+    size: number;
+}
+
+export interface ModrinthVersion {
+    id: string;
+    project_id: string;
+    name: string;
+    version_number: string;
+    changelog: string | null;
+    date_published: string;
+    version_type: 'release' | 'beta' | 'alpha';
+    downloads: number;
+    loaders: string[];
+    game_versions: string[];
+    files: ModrinthFile[];
+}
+
+export interface ModrinthProject {
+    id: string;
+    slug: string;
+    title: string;
+    project_type: string;
+}
+
+export async function mr_request(path: string, api_key?: string, method: string = 'GET'): Promise<Response> {
+    const url = path.startsWith('http://') || path.startsWith('https://') ? path : `${MODRINTH_API_URL}${path}`;
+    const headers: HeadersInit = {
+        Accept: 'application/json',
+        'User-Agent': 'mod-updater-script',
+        ...(api_key && { Authorization: api_key }),
+    };
+    const res = await fetch(url, {
+        method,
+        headers: headers,
+        redirect: 'follow',
+    });
+
+    if (res.status === 429) {
+        const reset = res.headers.get('x-ratelimit-reset');
+        console.warn(`W: Modrinth rate limit exceeded. Resets in ~${reset ?? '?'}s`);
+    }
+
+    if (!res.ok) {
+        log_debug(`Modrinth request failed with ${res.status}`, url);
+    }
+
+    return res;
+}
+
+/**
+ * Query the modrinth api for a project, by any url that references it (project page, version page or cdn link)
+ */
+export async function query_mr_project_by_url(
+    url: string,
+    sub_project_api_path: string,
+    mr_api_key?: string,
+    ignore_codes: number[] = [],
+): Promise<{ headers?: Headers; status: string; body: JsonObject | undefined }> {
+    const url_match = parse_mr_url(url);
+    if (url_match != undefined) {
+        const api_url = `/project/${url_match.project}/${sub_project_api_path.replace(/^\//m, '')}`;
+
+        const res: Response = await mr_request(api_url, mr_api_key ?? SOURCE_API_KEYS.get('MODRINTH'), 'GET');
+        if (!res.ok) {
+            if (!ignore_codes.includes(res.status)) {
+                console.warn(`W: Failed to get versions with ${res.status} | ${res.statusText} for ${url_match.project} (${api_url})`);
+            }
+            return { headers: res.headers, body: undefined, status: String(res.status) };
+        } else if (res.headers.get('content-type')?.includes('application/json')) {
+            const body = (await res.json()) as JsonObject;
+            return { headers: res.headers, body, status: String(res.status) };
+        }
+    } else {
+        console.warn(`W: Modrinth URL ${url} is faulty, can't check..`);
+    }
+    return { headers: undefined, body: undefined, status: '400' };
+}
+
+/**
+ * Look up a modrinth project by its id or slug
+ */
+export async function query_mr_project(id_or_slug: string, mr_api_key?: string): Promise<{ status: string; project: ModrinthProject | undefined }> {
+    const res = await mr_request(`/project/${encodeURIComponent(id_or_slug)}`, mr_api_key ?? SOURCE_API_KEYS.get('MODRINTH'), 'GET');
+    if (res.ok && res.headers.get('content-type')?.includes('application/json')) {
+        return { status: String(res.status), project: (await res.json()) as ModrinthProject };
+    }
+    return { status: String(res.status), project: undefined };
+}
+
+/**
+ * Get all versions of a modrinth project that fit the loaders & game versions of this pack, newest first
+ */
+export async function query_mr_versions(url: string, mr_api_key?: string): Promise<{ status: string; versions: ModrinthVersion[] }> {
+    const { game_versions, loaders } = await read_pack_targets();
+    const params = new URLSearchParams();
+    if (loaders.length > 0) params.set('loaders', JSON.stringify(loaders));
+    if (game_versions.length > 0) params.set('game_versions', JSON.stringify(game_versions));
+
+    const { status, body } = await query_mr_project_by_url(url, '/version' + (params.size > 0 ? '?' + params.toString() : ''), mr_api_key);
+    if (status === '200' && Array.isArray(body)) {
+        return { status, versions: body as unknown as ModrinthVersion[] };
+    }
+    return { status, versions: [] };
+}
+
+/**
+ * Find the modrinth version a file belongs to, by the files sha512 hash
+ */
+export async function query_mr_version_by_hash(sha512: string, mr_api_key?: string): Promise<{ status: string; version: ModrinthVersion | undefined }> {
+    const res = await mr_request(`/version_file/${sha512}?algorithm=sha512`, mr_api_key ?? SOURCE_API_KEYS.get('MODRINTH'), 'GET');
+    if (res.ok && res.headers.get('content-type')?.includes('application/json')) {
+        return { status: String(res.status), version: (await res.json()) as ModrinthVersion };
+    }
+    return { status: String(res.status), version: undefined };
+}
+
+// Shapes as returned by the curseforge api, which uses camelCase
+export interface CurseforgeMod {
+    id: number;
+    slug: string;
+    name: string;
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    allowModDistribution: boolean | null;
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    links: { websiteUrl: string };
+}
+
+export interface CurseforgeFile {
+    id: number;
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    modId: number;
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    displayName: string;
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    fileName: string;
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    releaseType: 1 | 2 | 3; // release, beta, alpha
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    fileDate: string;
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    fileLength: number;
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    downloadCount: number;
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    downloadUrl: string | null; // null if the author does not allow third party distribution
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    isAvailable: boolean;
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    gameVersions: string[];
+    hashes: Array<{ value: string; algo: 1 | 2 }>; // sha1, md5
+}
+
+export interface CurseforgePagination {
+    index: number;
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    pageSize: number;
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    resultCount: number;
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    totalCount: number;
+}
+
+const CF_MINECRAFT_GAME_ID = 432;
+// The most files curseforge answers with in one page
+const CF_PAGE_SIZE = 50;
+// Curseforge identifies loaders by number instead of name
+const CF_MOD_LOADER_TYPES: Record<string, number> = {
+    forge: 1,
+    fabric: 4,
+    quilt: 5,
+    neoforge: 6,
+};
+const cf_mod_cache: Map<string, CurseforgeMod> = new Map();
+
+export async function cf_request(path: string, api_key: string, method: string = 'GET', body?: string): Promise<Response> {
+    const url = path.startsWith('http://') || path.startsWith('https://') ? path : `${CURSEFORGE_API_URL}${path}`;
+    const headers: HeadersInit = {
+        Accept: 'application/json',
+        'User-Agent': 'mod-updater-script',
+        'x-api-key': api_key,
+        ...(body && { 'Content-Type': 'application/json' }),
+    };
+    const res = await fetch(url, {
+        method,
+        headers: headers,
+        body,
+        redirect: 'follow',
+    });
+
+    if (res.status === 403) {
+        console.warn('W: Curseforge rejected the request, is the CURSEFORGE_API_KEY valid?');
+    }
+
+    if (!res.ok) {
+        log_debug(`Curseforge request failed with ${res.status}`, url);
+    }
+
+    return res;
+}
+
+/**
+ * Resolve a curseforge url to its mod. Project pages only carry the slug, so those have to be searched for first.
+ */
+export async function query_cf_mod_by_url(url: string, cf_api_key?: string): Promise<{ status: string; mod: CurseforgeMod | undefined }> {
+    const api_key = cf_api_key ?? SOURCE_API_KEYS.get('CURSEFORGE') ?? '';
+    const url_match = parse_cf_url(url);
+    if (url_match == undefined) {
+        console.warn(`W: CurseForge URL ${url} is faulty, can't check..`);
+        return { status: '400', mod: undefined };
+    }
+
+    const cache_key = url_match.id ?? url_match.slug ?? '';
+    const cached = cf_mod_cache.get(cache_key);
+    if (cached != undefined) return { status: '200', mod: cached };
+
+    const res =
+        url_match.id != undefined
+            ? await cf_request(`/mods/${url_match.id}`, api_key)
+            : await cf_request(`/mods/search?gameId=${CF_MINECRAFT_GAME_ID}&slug=${encodeURIComponent(url_match.slug as string)}`, api_key);
+    if (!res.ok) return { status: String(res.status), mod: undefined };
+
+    const { data } = (await res.json()) as { data: CurseforgeMod | CurseforgeMod[] };
+    const mod = Array.isArray(data) ? data.find((entry) => entry.slug === url_match.slug) : data;
+    if (mod == undefined) return { status: '404', mod: undefined };
+
+    cf_mod_cache.set(cache_key, mod);
+    return { status: '200', mod };
+}
+
+/**
+ * Query all files of a curseforge mod that fit the loaders & game versions of this pack, newest first
+ */
+export async function query_cf_files(
+    url: string,
+    cf_api_key?: string,
+): Promise<{ status: string; mod: CurseforgeMod | undefined; files: CurseforgeFile[] }> {
+    const api_key = cf_api_key ?? SOURCE_API_KEYS.get('CURSEFORGE') ?? '';
+    const { status, mod } = await query_cf_mod_by_url(url, api_key);
+    if (mod == undefined) return { status, mod, files: [] };
+
+    // The api only filters by a single game version & loader, so use the primary ones
+    const { game_versions, loaders } = await read_pack_targets();
+    const params = new URLSearchParams({ pageSize: String(CF_PAGE_SIZE) });
+    if (game_versions[0] != undefined) params.set('gameVersion', game_versions[0]);
+    const loader_type = loaders.map((loader) => CF_MOD_LOADER_TYPES[loader]).find((type) => type != undefined);
+    if (loader_type != undefined) params.set('modLoaderType', String(loader_type));
+
+    // Files come in pages, so keep asking until the api runs out of them
+    const data: CurseforgeFile[] = [];
+    let total_count = Infinity;
+    while (data.length < total_count) {
+        params.set('index', String(data.length));
+        const res = await cf_request(`/mods/${mod.id}/files?${params.toString()}`, api_key);
+        if (!res.ok) return { status: String(res.status), mod, files: [] };
+
+        const page = (await res.json()) as { data: CurseforgeFile[]; pagination?: CurseforgePagination };
+        data.push(...page.data);
+        total_count = page.data.length < CF_PAGE_SIZE ? data.length : (page.pagination?.totalCount ?? data.length);
+    }
+    const files = data
+        .filter((file) => file.isAvailable !== false)
+        .sort((a, b) => new Date(b.fileDate).getTime() - new Date(a.fileDate).getTime());
+    return { status: '200', mod, files };
+}
+
 export function filter_assets(
     assets: Array<{ browser_download_url: string; name: string; size: any }>,
     file_pattern?: string,
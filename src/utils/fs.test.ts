@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { mkdir, readdir, rm } from 'node:fs/promises';
+import { RENAME_BATCH_FILE } from './config';
+import { read_rename_batch, rename_file, rollback_renames, with_rename_batch } from './fs';
+
+// The mods directory of the scratch pack from test_setup
+const MODS = 'mods';
+
+async function list_mods(): Promise<string[]> {
+    return (await readdir(MODS)).sort();
+}
+
+beforeEach(async () => {
+    await rm(MODS, { recursive: true, force: true });
+    await rm(RENAME_BATCH_FILE, { force: true });
+    await mkdir(MODS, { recursive: true });
+    await Bun.write(`${MODS}/alpha.jar`, 'alpha');
+    await Bun.write(`${MODS}/beta.jar`, 'beta');
+});
+
+describe('with_rename_batch', () => {
+    test('logs every rename before it happens, and drops the log once done', async () => {
+        const logged = await with_rename_batch(RENAME_BATCH_FILE, async () => {
+            await rename_file(`${MODS}/alpha.jar`, `${MODS}/alpha.jar.disabled`);
+            await rename_file(`${MODS}/beta.jar`, `${MODS}/beta.jar.disabled`);
+            return await read_rename_batch(RENAME_BATCH_FILE);
+        });
+
+        expect(logged).toEqual([
+            { from: `${MODS}/alpha.jar`, to: `${MODS}/alpha.jar.disabled` },
+            { from: `${MODS}/beta.jar`, to: `${MODS}/beta.jar.disabled` },
+        ]);
+        expect(await list_mods()).toEqual(['alpha.jar.disabled', 'beta.jar.disabled']);
+        expect(await Bun.file(RENAME_BATCH_FILE).exists()).toBe(false);
+    });
+
+    test('moves everything back if it fails partway through', async () => {
+        const batch = with_rename_batch(RENAME_BATCH_FILE, async () => {
+            await rename_file(`${MODS}/alpha.jar`, `${MODS}/alpha.jar.disabled`);
+            // Nested batches are part of the outer one
+            await with_rename_batch(RENAME_BATCH_FILE, () => rename_file(`${MODS}/beta.jar`, `${MODS}/beta.jar.disabled`));
+            throw new Error('interrupted');
+        });
+
+        await expect(batch).rejects.toThrow('interrupted');
+        expect(await list_mods()).toEqual(['alpha.jar', 'beta.jar']);
+        expect(await Bun.file(RENAME_BATCH_FILE).exists()).toBe(false);
+    });
+
+    test('skips missing files without failing', async () => {
+        expect(await with_rename_batch(RENAME_BATCH_FILE, () => rename_file(`${MODS}/gamma.jar`, `${MODS}/gamma.jar.disabled`))).toBe(false);
+    });
+});
+
+describe('interrupted batches', () => {
+    test('skip the line that was written halfway', async () => {
+        await Bun.write(RENAME_BATCH_FILE, JSON.stringify({ from: `${MODS}/alpha.jar`, to: `${MODS}/alpha.jar.disabled` }) + '\n' + `{"from": "${MODS}/beta.jar", "to`);
+        expect(await read_rename_batch(RENAME_BATCH_FILE)).toEqual([{ from: `${MODS}/alpha.jar`, to: `${MODS}/alpha.jar.disabled` }]);
+    });
+
+    test('only move back the renames that happened', async () => {
+        await rename_file(`${MODS}/alpha.jar`, `${MODS}/alpha.jar.disabled`);
+        const renames = [
+            { from: `${MODS}/alpha.jar`, to: `${MODS}/alpha.jar.disabled` },
+            // Logged right before we got killed
+            { from: `${MODS}/beta.jar`, to: `${MODS}/beta.jar.disabled` },
+        ];
+        expect(await rollback_renames(renames)).toBe(1);
+        expect(await list_mods()).toEqual(['alpha.jar', 'beta.jar']);
+    });
+});
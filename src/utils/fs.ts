@@ -1,11 +1,11 @@
 import fg from 'fast-glob';
 import yauzl from 'yauzl';
 import yazl from 'yazl';
-import { open, rename } from 'node:fs/promises';
-import { type JsonObject } from './utils';
+import { mkdir, open, rename, rm } from 'node:fs/promises';
+import type { JsonObject } from './utils';
 import { closeSync, openSync, readdirSync, statSync } from 'node:fs';
 import { execFile } from 'node:child_process';
-import { join, resolve } from 'node:path';
+import { dirname, join, resolve } from 'node:path';
 import { text } from 'node:stream/consumers';
 import type { BunFile, SupportedCryptoAlgorithms } from 'bun';
 
@@ -49,15 +49,37 @@ export async function glob_files_in_dir(directory: string, file_ext_pattern: Reg
     return files;
 }
 
+/**
+ * Write a file so it either has its old or its new content, even if we get killed halfway through.
+ * The content goes to a temporary file next to it first, which is then renamed over the target.
+ * @param mode Permissions of the written file, e.g. 0o600 for secrets
+ */
+export async function write_file_atomic(file_path: string, data: string, mode?: number) {
+    const temp_path = `${file_path}.${process.pid}.tmp`;
+    await mkdir(dirname(file_path), { recursive: true });
+    const handle = await open(temp_path, 'w', mode);
+    try {
+        await handle.writeFile(data);
+        await handle.sync();
+    } finally {
+        await handle.close();
+    }
+    await rename(temp_path, file_path).catch(async (err) => {
+        await rm(temp_path, { force: true });
+        throw err;
+    });
+}
+
 /**
  * Save a javascript map object to a file
  * @param {string} file_path Path of the file to save in
  * @param {*} data Data to save. Must be parseable by JSON.stringify
+ * @param header Keys to write at the top of the file, before the sorted entries of the map
  */
-export async function save_map_to_file(file_path: string, data: Map<string, { [key: string]: any }>) {
+export async function save_map_to_file(file_path: string, data: Map<string, { [key: string]: any }>, header: { [key: string]: any } = {}) {
     try {
         // Sort and convert to object
-        const map_obj: { [key: string]: any } = {};
+        const map_obj: { [key: string]: any } = { ...header };
         data.keys()
             .toArray()
             .sort()
@@ -65,7 +87,7 @@ export async function save_map_to_file(file_path: string, data: Map<string, { [k
                 map_obj[key] = data.get(key);
             });
 
-        await Bun.write(file_path, JSON.stringify(map_obj, null, 4));
+        await write_file_atomic(file_path, JSON.stringify(map_obj, null, 4));
     } catch (err) {
         console.error(err);
     }
@@ -78,7 +100,7 @@ export async function save_map_to_file(file_path: string, data: Map<string, { [k
  */
 export async function save_list_to_file(file_path: string, data: Array<any>) {
     try {
-        await Bun.write(file_path, JSON.stringify(data));
+        await write_file_atomic(file_path, JSON.stringify(data));
     } catch (err) {
         console.error(err);
     }
@@ -269,15 +291,99 @@ export async function bundle_files_to_zip(files: { path: string; path_inside_zip
 }
 
 /**
- * Rename a file to a new file
+ * Rename a file to a new file.
+ * Inside a rename batch, the rename is logged before it happens, and a failure throws so the batch can roll back.
+ * A missing file is only warned about, so one stale entry doesn't roll back everything else.
+ * @returns Whether the file was renamed
  */
-export async function rename_file(old_path: string, new_path: string) {
+export async function rename_file(old_path: string, new_path: string): Promise<boolean> {
     const old_file = Bun.file(old_path);
-    if (await old_file.exists()) {
-        await rename(old_path, new_path);
-    } else {
-        console.log('File ', old_path, ' does not exist, but we tried to rename it.');
+    if (!(await old_file.exists())) {
+        console.warn(`W: File ${old_path} does not exist, but we tried to rename it. Skipping it, run "packscripts repair" to match the annotated mods to the files on disk.`);
+        return false;
+    }
+
+    if (active_rename_batch != undefined) {
+        const entry = { from: old_path, to: new_path };
+        active_rename_batch.renames.push(entry);
+        await append_rename_entry(active_rename_batch.file, entry);
+    }
+    await rename(old_path, new_path);
+    return true;
+}
+
+//#region rename batches
+// Renames of the running batch, also kept on disk so a killed batch can be rolled back by repair
+let active_rename_batch: { file: string; renames: Array<{ from: string; to: string }> } | undefined;
+
+/**
+ * Run something that renames a bunch of files, and move all of them back if it fails partway through.
+ * Nested batches become part of the outer one.
+ * @param batch_file Where the renames are logged while it runs, one json object per line
+ */
+export async function with_rename_batch<T>(batch_file: string, fn: () => Promise<T>): Promise<T> {
+    if (active_rename_batch != undefined) return await fn();
+
+    await mkdir(dirname(batch_file), { recursive: true });
+    const batch: NonNullable<typeof active_rename_batch> = { file: batch_file, renames: [] };
+    active_rename_batch = batch;
+    try {
+        const result = await fn();
+        await rm(batch_file, { force: true });
+        return result;
+    } catch (err) {
+        console.warn(`W: Failed partway through, moving ${batch.renames.length} renamed files back.`);
+        await rollback_renames(batch.renames);
+        await rm(batch_file, { force: true });
+        throw err;
+    } finally {
+        active_rename_batch = undefined;
+    }
+}
+
+/**
+ * Log a rename at the end of the batch file, and make sure it is on disk before the rename happens
+ */
+async function append_rename_entry(batch_file: string, entry: { from: string; to: string }) {
+    const handle = await open(batch_file, 'a');
+    try {
+        await handle.appendFile(JSON.stringify(entry) + '\n');
+        await handle.sync();
+    } finally {
+        await handle.close();
+    }
+}
+
+/**
+ * Read the renames of an interrupted batch. A line we got killed halfway through writing is skipped, since its rename never happened.
+ */
+export async function read_rename_batch(batch_file: string): Promise<Array<{ from: string; to: string }>> {
+    const renames: Array<{ from: string; to: string }> = [];
+    for (const line of (await Bun.file(batch_file).text()).split('\n')) {
+        try {
+            const entry = JSON.parse(line);
+            if (typeof entry?.from === 'string' && typeof entry?.to === 'string') renames.push({ from: entry.from, to: entry.to });
+        } catch {
+            continue;
+        }
+    }
+    return renames;
+}
+
+/**
+ * Undo renames in reverse order, skipping the ones that never happened
+ * @returns The number of files that were moved back
+ */
+export async function rollback_renames(renames: Array<{ from: string; to: string }>): Promise<number> {
+    let moved_back = 0;
+    for (const { from, to } of renames.toReversed()) {
+        if ((await Bun.file(to).exists()) && !(await Bun.file(from).exists())) {
+            await rename(to, from)
+                .then(() => moved_back++)
+                .catch(() => console.warn(`W: Failed to move ${to} back to ${from}.`));
+        }
     }
+    return moved_back;
 }
 
 export async function is_folder_locked(folder_path: string): Promise<boolean> {
@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { mkdir, readdir, rename, rm, unlink } from 'node:fs/promises';
+import { DOWNLOAD_UNDO_DIR } from './config';
+import {
+    begin_journal_entry,
+    commit_journal_entry,
+    ensure_journal_backup,
+    get_entry_dir,
+    JOURNAL_DIR,
+    read_journal,
+    replay_journal_entry,
+    revert_journal_entry,
+} from './journal';
+
+// Paths of the scratch pack from test_setup
+const MODS = 'mods';
+const ANNOTATED = 'annotated.json';
+
+async function list_mods(): Promise<string[]> {
+    return (await readdir(MODS)).sort();
+}
+
+beforeEach(async () => {
+    await rm(MODS, { recursive: true, force: true });
+    await rm(DOWNLOAD_UNDO_DIR, { recursive: true, force: true });
+    await mkdir(MODS, { recursive: true });
+    await Bun.write(`${MODS}/alpha.jar`, 'alpha');
+    await Bun.write(`${MODS}/beta.jar`, 'beta');
+    await Bun.write(ANNOTATED, '{"before": true}');
+});
+
+describe('journal entries', () => {
+    test('record renames, removed & created files by inode', async () => {
+        const pending = await begin_journal_entry('test');
+        await Bun.write(`${MODS}/alpha.jar.disabled`, Bun.file(`${MODS}/alpha.jar`));
+        await unlink(`${MODS}/alpha.jar`);
+        await rename(`${MODS}/beta.jar`, `${MODS}/beta.jar.disabled`);
+        await Bun.write(`${MODS}/gamma.jar`, 'gamma');
+        await Bun.write(ANNOTATED, '{"after": true}');
+
+        const entry = await commit_journal_entry(pending);
+        expect(entry?.renames).toEqual([{ from: `${MODS}/beta.jar`, to: `${MODS}/beta.jar.disabled` }]);
+        // A copy is a new file, so the original counts as removed
+        expect(entry?.removed.map((removed) => removed.path)).toEqual([`${MODS}/alpha.jar`]);
+        expect(entry?.created.map((created) => created.path).sort()).toEqual([`${MODS}/alpha.jar.disabled`, `${MODS}/gamma.jar`]);
+        expect(entry?.annotated_changed).toBe(true);
+        expect((await read_journal()).head).toBe(1);
+    });
+
+    test('leave no entry if nothing changed', async () => {
+        expect(await commit_journal_entry(await begin_journal_entry('test'))).toBeUndefined();
+        expect(await Bun.file(`${JOURNAL_DIR}journal.json`).exists()).toBe(false);
+        expect(await readdir(JOURNAL_DIR)).toEqual([]);
+    });
+
+    test('can be reverted and replayed', async () => {
+        const pending = await begin_journal_entry('test');
+        await unlink(`${MODS}/alpha.jar`);
+        await rename(`${MODS}/beta.jar`, `${MODS}/beta.jar.disabled`);
+        await Bun.write(`${MODS}/gamma.jar`, 'gamma');
+        await Bun.write(ANNOTATED, '{"after": true}');
+        const entry = (await commit_journal_entry(pending))!;
+
+        expect(await revert_journal_entry(entry)).toBe(true);
+        expect(await list_mods()).toEqual(['alpha.jar', 'beta.jar']);
+        expect(await Bun.file(`${MODS}/alpha.jar`).text()).toBe('alpha');
+        expect(await Bun.file(ANNOTATED).text()).toBe('{"before": true}');
+
+        expect(await replay_journal_entry(entry)).toBe(true);
+        expect(await list_mods()).toEqual(['beta.jar.disabled', 'gamma.jar']);
+        expect(await Bun.file(`${MODS}/gamma.jar`).text()).toBe('gamma');
+        expect(await Bun.file(ANNOTATED).text()).toBe('{"after": true}');
+    });
+
+    test('keep only the newest 25 entries', async () => {
+        const ids: string[] = [];
+        for (let i = 0; i < 27; i++) {
+            const pending = await begin_journal_entry('test ' + i);
+            await Bun.write(`${MODS}/file_${i}.jar`, String(i));
+            ids.push((await commit_journal_entry(pending))!.id);
+            // Entries are named by their timestamp
+            await Bun.sleep(2);
+        }
+
+        const journal = await read_journal();
+        expect(journal.entries.map((entry) => entry.id)).toEqual(ids.slice(2));
+        expect(journal.head).toBe(25);
+        expect(await Bun.file(get_entry_dir(ids[0]!) + 'annotated_after.json').exists()).toBe(false);
+        expect(await Bun.file(get_entry_dir(ids[2]!) + 'annotated_after.json').exists()).toBe(true);
+    });
+
+    test('drop undone entries when a new one is recorded', async () => {
+        const first = await begin_journal_entry('first');
+        await Bun.write(`${MODS}/gamma.jar`, 'gamma');
+        const first_entry = (await commit_journal_entry(first))!;
+        await revert_journal_entry(first_entry);
+        const journal = await read_journal();
+        journal.head = 0;
+        await Bun.write(`${JOURNAL_DIR}journal.json`, JSON.stringify(journal));
+        await Bun.sleep(2);
+
+        const second = await begin_journal_entry('second');
+        await unlink(`${MODS}/beta.jar`);
+        await commit_journal_entry(second);
+
+        expect((await read_journal()).entries.map((entry) => entry.command)).toEqual(['second']);
+        expect(await Bun.file(get_entry_dir(first_entry.id) + 'annotated_after.json').exists()).toBe(false);
+    });
+});
+
+describe('ensure_journal_backup', () => {
+    test('copies files in whose hardlink is missing', async () => {
+        const pending = await begin_journal_entry('test');
+        // Like a hardlink that failed, e.g. because the journal is on another filesystem
+        const alpha = Array.from(pending.files.values()).find((file) => file.path.endsWith('alpha.jar'))!;
+        await unlink(alpha.backup!);
+
+        expect(await ensure_journal_backup(`${MODS}/alpha.jar`)).toBe(true);
+        await unlink(`${MODS}/alpha.jar`);
+        const entry = (await commit_journal_entry(pending))!;
+
+        expect(await revert_journal_entry(entry)).toBe(true);
+        expect(await Bun.file(`${MODS}/alpha.jar`).text()).toBe('alpha');
+    });
+
+    test('refuses without a running entry', async () => {
+        expect(await ensure_journal_backup(`${MODS}/alpha.jar`)).toBe(false);
+    });
+});
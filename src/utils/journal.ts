@@ -0,0 +1,278 @@
+import fg from 'fast-glob';
+import { ANNOTATED_FILE, DOWNLOAD_UNDO_DIR, MOD_BASE_DIR } from './config';
+import { write_file_atomic } from './fs';
+import { copyFile, link, mkdir, rename, rm, stat } from 'node:fs/promises';
+import path from 'node:path';
+
+export const JOURNAL_DIR = DOWNLOAD_UNDO_DIR + '/journal/';
+const JOURNAL_INDEX_FILE = JOURNAL_DIR + 'journal.json';
+// Where an operation collects its state until it finishes
+const PENDING_ENTRY_DIR = JOURNAL_DIR + 'pending/';
+// Older entries (and their backed up jars) are dropped after this many
+const MAX_JOURNAL_ENTRIES = 25;
+
+/**
+ * A finished operation. Files are tracked by inode, so a moved file is a rename, while a file that
+ * left the mods directory (or showed up in it) is kept as a hardlinked backup in the entry's directory.
+ */
+export interface journal_entry {
+    id: string;
+    command: string;
+    finished_at: string;
+    renames: Array<{ from: string; to: string }>;
+    removed: Array<{ path: string; backup?: string | undefined }>;
+    created: Array<{ path: string; backup?: string | undefined }>;
+    annotated_changed: boolean;
+}
+
+/**
+ * Entries up to head are applied, the ones after it were undone and can be redone
+ */
+interface journal_index {
+    entries: journal_entry[];
+    head: number;
+}
+
+interface tracked_file {
+    path: string;
+    backup?: string | undefined;
+}
+
+export interface pending_entry {
+    command: string;
+    files: Map<string, tracked_file>;
+    annotated_before: string | undefined;
+}
+
+//#region index
+export async function read_journal(): Promise<journal_index> {
+    const index_file = Bun.file(JOURNAL_INDEX_FILE);
+    if (!(await index_file.exists())) return { entries: [], head: 0 };
+    return (await index_file.json()) as journal_index;
+}
+
+export async function write_journal(journal: journal_index) {
+    await write_file_atomic(JOURNAL_INDEX_FILE, JSON.stringify(journal, null, 4));
+}
+
+export function get_entry_dir(entry_id: string): string {
+    return JOURNAL_DIR + entry_id + '/';
+}
+
+//#region recording
+// The entry of the running command, so it can be asked for backups before files get replaced
+let active_entry: pending_entry | undefined;
+
+/**
+ * Collect all files in the mods directory by their inode
+ */
+async function snapshot_mod_files(): Promise<Map<string, tracked_file>> {
+    const files: Map<string, tracked_file> = new Map();
+    for (const file_path of fg.sync(MOD_BASE_DIR + '/**/*', { onlyFiles: true, deep: 4 })) {
+        const stats = await stat(file_path, { bigint: true }).catch(() => undefined);
+        if (stats != undefined) files.set(stats.ino.toString(), { path: file_path });
+    }
+    return files;
+}
+
+/**
+ * Hardlink a file into the pending entry, so it survives being deleted or replaced
+ * @returns The path of the backup, if linking worked
+ */
+async function backup_file(file_path: string, ino: string): Promise<string | undefined> {
+    const backup_path = get_backup_path(file_path, ino);
+    return await link(file_path, backup_path)
+        .then(() => backup_path)
+        .catch(() => undefined);
+}
+
+function get_backup_path(file_path: string, ino: string): string {
+    return `${PENDING_ENTRY_DIR}files/${ino}_${path.basename(file_path)}`;
+}
+
+/**
+ * Make sure the running entry can restore a file, before a command deletes or replaces it.
+ * Hardlinking the backups fails across filesystems, so the file is copied in instead in that case.
+ * @returns Whether the file is backed up, and so safe to delete
+ */
+export async function ensure_journal_backup(file_path: string): Promise<boolean> {
+    const stats = await stat(file_path, { bigint: true }).catch(() => undefined);
+    if (active_entry == undefined || stats == undefined) return false;
+    const ino = stats.ino.toString();
+    const file = active_entry.files.get(ino);
+    // Files the command created itself are removed on undo anyway, so there is nothing to restore
+    if (file == undefined) return true;
+    if (file.backup != undefined && (await Bun.file(file.backup).exists())) return true;
+
+    const backup_path = get_backup_path(file.path, ino);
+    return await copyFile(file_path, backup_path)
+        .then(() => {
+            file.backup = backup_path;
+            return true;
+        })
+        .catch((err) => {
+            console.warn(`W: Failed to back up ${file_path} for the journal: ${err}`);
+            return false;
+        });
+}
+
+async function read_annotated_text(): Promise<string | undefined> {
+    const annotated_file = Bun.file(ANNOTATED_FILE);
+    return (await annotated_file.exists()) ? await annotated_file.text() : undefined;
+}
+
+/**
+ * Record the state of the mods directory and annotated mods before a command runs
+ */
+export async function begin_journal_entry(command: string): Promise<pending_entry> {
+    // Leftovers of a command that never got to finish its entry
+    await rm(PENDING_ENTRY_DIR, { recursive: true, force: true });
+    await mkdir(PENDING_ENTRY_DIR + 'files/', { recursive: true });
+
+    const files = await snapshot_mod_files();
+    let failed_backups = 0;
+    for (const [ino, file] of files) {
+        file.backup = await backup_file(file.path, ino);
+        if (file.backup == undefined) failed_backups++;
+    }
+    if (failed_backups > 0) {
+        console.warn(`W: Failed to hardlink ${failed_backups} mod files into the journal. They are copied in instead when this command replaces them.`);
+    }
+
+    active_entry = { command, files, annotated_before: await read_annotated_text() };
+    return active_entry;
+}
+
+/**
+ * Compare the state after a command to the one recorded before it, and append the differences to the journal.
+ * Commands that didn't change anything leave no entry.
+ */
+export async function commit_journal_entry(pending: pending_entry): Promise<journal_entry | undefined> {
+    if (active_entry === pending) active_entry = undefined;
+    const files_after = await snapshot_mod_files();
+    const annotated_after = await read_annotated_text();
+
+    const entry: journal_entry = {
+        id: Date.now().toString(),
+        command: pending.command,
+        finished_at: new Date(Date.now()).toISOString(),
+        renames: [],
+        removed: [],
+        created: [],
+        annotated_changed: annotated_after !== pending.annotated_before,
+    };
+    for (const [ino, before] of pending.files) {
+        const after = files_after.get(ino);
+        if (after == undefined) {
+            entry.removed.push({ path: before.path, backup: before.backup });
+            continue;
+        }
+        if (after.path !== before.path) entry.renames.push({ from: before.path, to: after.path });
+        // Unchanged files don't need a backup
+        if (before.backup != undefined) await rm(before.backup, { force: true });
+    }
+    for (const [ino, after] of files_after) {
+        if (!pending.files.has(ino)) entry.created.push({ path: after.path, backup: await backup_file(after.path, ino) });
+    }
+
+    if (entry.renames.length + entry.removed.length + entry.created.length == 0 && !entry.annotated_changed) {
+        await rm(PENDING_ENTRY_DIR, { recursive: true, force: true });
+        return undefined;
+    }
+
+    if (pending.annotated_before != undefined) await Bun.write(PENDING_ENTRY_DIR + 'annotated_before.json', pending.annotated_before);
+    if (annotated_after != undefined) await Bun.write(PENDING_ENTRY_DIR + 'annotated_after.json', annotated_after);
+    // Backups were made inside the pending dir, so they move along with it
+    const entry_dir = get_entry_dir(entry.id);
+    const relocate = (backup: string | undefined) => backup?.replace(PENDING_ENTRY_DIR, entry_dir);
+    entry.removed.forEach((removed) => (removed.backup = relocate(removed.backup)));
+    entry.created.forEach((created) => (created.backup = relocate(created.backup)));
+    await rename(PENDING_ENTRY_DIR, entry_dir);
+
+    const journal = await read_journal();
+    // A new operation makes the undone ones impossible to redo
+    const dropped = journal.entries.splice(journal.head);
+    journal.entries.push(entry);
+    dropped.push(...journal.entries.splice(0, Math.max(0, journal.entries.length - MAX_JOURNAL_ENTRIES)));
+    journal.head = journal.entries.length;
+    for (const dropped_entry of dropped) {
+        await rm(get_entry_dir(dropped_entry.id), { recursive: true, force: true });
+    }
+    await write_journal(journal);
+    return entry;
+}
+
+//#region replay
+async function restore_annotated(entry: journal_entry, state: 'before' | 'after') {
+    if (!entry.annotated_changed) return;
+    const snapshot = Bun.file(`${get_entry_dir(entry.id)}annotated_${state}.json`);
+    if (await snapshot.exists()) {
+        await write_file_atomic(ANNOTATED_FILE, await snapshot.text());
+    } else {
+        await rm(ANNOTATED_FILE, { force: true });
+    }
+}
+
+/**
+ * Put a file back from its backup, while keeping the backup around for the opposite direction
+ */
+async function restore_backup(file: { path: string; backup?: string | undefined }): Promise<boolean> {
+    if (file.backup == undefined || !(await Bun.file(file.backup).exists())) {
+        console.warn(`W: No backup of ${file.path} exists, can't restore it.`);
+        return false;
+    }
+    await mkdir(path.dirname(file.path), { recursive: true });
+    return await link(file.backup, file.path)
+        .then(() => true)
+        .catch((err) => {
+            console.warn(`W: Failed to restore ${file.path} from its backup: ${err}`);
+            return false;
+        });
+}
+
+async function move_file(from: string, to: string): Promise<boolean> {
+    return await rename(from, to)
+        .then(() => true)
+        .catch(() => {
+            console.warn(`W: Failed to move ${from} back to ${to}.`);
+            return false;
+        });
+}
+
+/**
+ * Roll the mods directory and annotated mods back to the state before an entry
+ * @returns Whether all files could be restored
+ */
+export async function revert_journal_entry(entry: journal_entry): Promise<boolean> {
+    let complete = true;
+    for (const created of entry.created) {
+        await rm(created.path, { force: true });
+    }
+    for (const { from, to } of entry.renames.toReversed()) {
+        complete = (await move_file(to, from)) && complete;
+    }
+    for (const removed of entry.removed) {
+        complete = (await restore_backup(removed)) && complete;
+    }
+    await restore_annotated(entry, 'before');
+    return complete;
+}
+
+/**
+ * Apply an entry that was reverted before again
+ * @returns Whether all files could be restored
+ */
+export async function replay_journal_entry(entry: journal_entry): Promise<boolean> {
+    let complete = true;
+    for (const removed of entry.removed) {
+        await rm(removed.path, { force: true });
+    }
+    for (const { from, to } of entry.renames) {
+        complete = (await move_file(from, to)) && complete;
+    }
+    for (const created of entry.created) {
+        complete = (await restore_backup(created)) && complete;
+    }
+    await restore_annotated(entry, 'after');
+    return complete;
+}
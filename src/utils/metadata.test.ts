@@ -0,0 +1,195 @@
+import { describe, expect, test } from 'bun:test';
+import { is_version_in_range, parse_fabric_mod_json, parse_mods_toml, parse_quilt_mod_json } from './metadata';
+
+const no_files = async () => undefined;
+
+describe('parse_mods_toml', () => {
+    const mods_toml = `
+modLoader = "javafml"
+loaderVersion = "[47,)"
+
+[[mods]]
+modId = "examplemod"
+version = "\${file.jarVersion}"
+displayTest = "IGNORE_SERVER_VERSION"
+
+[[mods]]
+modId = "examplemod_compat"
+
+[[dependencies.examplemod]]
+modId = "forge"
+mandatory = true
+versionRange = "[47,)"
+
+[[dependencies.examplemod]]
+modId = "corelib"
+mandatory = true
+versionRange = "[1.2,2.0)"
+
+[[dependencies.examplemod_compat]]
+modId = "jei"
+mandatory = false
+`;
+
+    test('reads the main mod, submodules & dependencies without the platform', async () => {
+        const metadata = await parse_mods_toml(mods_toml, 'forge', async (file_name) =>
+            file_name === 'META-INF/MANIFEST.MF' ? 'Manifest-Version: 1.0\nImplementation-Version: 1.4.2\n' : undefined,
+        );
+        expect(metadata).toEqual({
+            loader: 'forge',
+            id: 'examplemod',
+            other_mod_ids: ['examplemod_compat'],
+            version: '1.4.2',
+            dependencies: [
+                { mod_id: 'corelib', kind: 'required', version_range: '[1.2,2.0)' },
+                { mod_id: 'jei', kind: 'optional', version_range: undefined },
+            ],
+            side: 'client',
+        });
+    });
+
+    test('leaves the version out if the manifest does not have it', async () => {
+        expect((await parse_mods_toml(mods_toml, 'forge', no_files))?.version).toBeUndefined();
+    });
+
+    test('reads the dependency types of neoforge', async () => {
+        const metadata = await parse_mods_toml(
+            `
+[[mods]]
+modId = "neomod"
+version = "2.0"
+
+[[dependencies.neomod]]
+modId = "needed"
+type = "required"
+
+[[dependencies.neomod]]
+modId = "nice_to_have"
+type = "optional"
+
+[[dependencies.neomod]]
+modId = "broken"
+type = "discouraged"
+`,
+            'neoforge',
+            no_files,
+        );
+        expect(metadata?.dependencies.map((dependency) => [dependency.mod_id, dependency.kind])).toEqual([
+            ['needed', 'required'],
+            ['nice_to_have', 'optional'],
+            ['broken', 'discouraged'],
+        ]);
+        expect(metadata?.side).toBe('both');
+    });
+
+    test('rejects files without mods', async () => {
+        expect(await parse_mods_toml('modLoader = "javafml"', 'forge', no_files)).toBeUndefined();
+    });
+});
+
+describe('parse_fabric_mod_json', () => {
+    test('reads ids, dependencies & the environment', () => {
+        const metadata = parse_fabric_mod_json(
+            JSON.stringify({
+                schemaVersion: 1,
+                id: 'fabricmod',
+                version: '3.1.0',
+                environment: 'client',
+                provides: ['fabric_mod_alias'],
+                depends: { fabricloader: '>=0.14', minecraft: '1.20.1', fabric_api: '*', cloth_config: ['>=11 <12', '13.x'] },
+                suggests: { modmenu: '*' },
+                breaks: { optifabric: '*' },
+            }),
+        );
+        expect(metadata).toEqual({
+            loader: 'fabric',
+            id: 'fabricmod',
+            other_mod_ids: ['fabric_mod_alias'],
+            version: '3.1.0',
+            dependencies: [
+                { mod_id: 'fabric_api', kind: 'required', version_range: undefined },
+                { mod_id: 'cloth_config', kind: 'required', version_range: '>=11 <12 || 13.x' },
+                { mod_id: 'modmenu', kind: 'optional', version_range: undefined },
+                { mod_id: 'optifabric', kind: 'incompatible', version_range: undefined },
+            ],
+            side: 'client',
+        });
+    });
+
+    test('pins plain versions, since fabric reads them as exact matches', () => {
+        const metadata = parse_fabric_mod_json(JSON.stringify({ id: 'fabricmod', depends: { pinned: '1.0.0', either: ['2.0', '>=3.0'], wildcard: '1.2.x' } }));
+        expect(metadata?.dependencies.map((dependency) => dependency.version_range)).toEqual(['=1.0.0', '=2.0 || >=3.0', '1.2.x']);
+    });
+
+    test('rejects invalid json and files without an id', () => {
+        expect(parse_fabric_mod_json('{ not json')).toBeUndefined();
+        expect(parse_fabric_mod_json('{ "schemaVersion": 1 }')).toBeUndefined();
+    });
+});
+
+describe('parse_quilt_mod_json', () => {
+    test('reads ids, optional dependencies & the environment', () => {
+        const metadata = parse_quilt_mod_json(
+            JSON.stringify({
+                schema_version: 1,
+                quilt_loader: {
+                    id: 'quiltmod',
+                    version: '0.5.0',
+                    provides: ['quilt_alias', { id: 'other_alias', version: '1.0' }],
+                    depends: ['quilt_loader', { id: 'qsl', versions: '>=6.0' }, { id: 'emi', optional: true }],
+                    breaks: ['sodium'],
+                },
+                minecraft: { environment: 'dedicated_server' },
+            }),
+        );
+        expect(metadata).toEqual({
+            loader: 'quilt',
+            id: 'quiltmod',
+            other_mod_ids: ['quilt_alias', 'other_alias'],
+            version: '0.5.0',
+            dependencies: [
+                { mod_id: 'qsl', kind: 'required', version_range: '>=6.0' },
+                { mod_id: 'emi', kind: 'optional', version_range: undefined },
+                { mod_id: 'sodium', kind: 'incompatible', version_range: undefined },
+            ],
+            side: 'server',
+        });
+    });
+});
+
+describe('is_version_in_range', () => {
+    test('reads maven ranges', () => {
+        expect(is_version_in_range('1.5', '[1.2,2.0)')).toBe(true);
+        expect(is_version_in_range('2.0', '[1.2,2.0)')).toBe(false);
+        expect(is_version_in_range('1.2', '(1.2,)')).toBe(false);
+        expect(is_version_in_range('3.0', '[1.0,1.5],[2.0,)')).toBe(true);
+        expect(is_version_in_range('1.7', '[1.0,1.5],[2.0,)')).toBe(false);
+        expect(is_version_in_range('1.0', '[1.0]')).toBe(true);
+        expect(is_version_in_range('1.0.1', '[1.0]')).toBe(false);
+    });
+
+    test('reads fabric & quilt comparators', () => {
+        expect(is_version_in_range('1.5.0', '>=1.2 <2')).toBe(true);
+        expect(is_version_in_range('2.0.0', '>=1.2 <2')).toBe(false);
+        expect(is_version_in_range('1.9.3', '^1.2')).toBe(true);
+        expect(is_version_in_range('2.0.0', '^1.2')).toBe(false);
+        expect(is_version_in_range('1.2.9', '~1.2')).toBe(true);
+        expect(is_version_in_range('1.3.0', '~1.2')).toBe(false);
+        expect(is_version_in_range('1.2.7', '1.2.x')).toBe(true);
+        expect(is_version_in_range('1.3', '1.2.x')).toBe(false);
+        expect(is_version_in_range('1.0.1', '=1.0.0')).toBe(false);
+        expect(is_version_in_range('5.0', '<1 || >=4')).toBe(true);
+    });
+
+    test('counts a plain version as the minimum, like forge', () => {
+        expect(is_version_in_range('1.0.1', '1.0.0')).toBe(true);
+        expect(is_version_in_range('0.9', '1.0.0')).toBe(false);
+    });
+
+    test('accepts everything for empty ranges, and gives up on ranges it does not understand', () => {
+        expect(is_version_in_range('1.0', '*')).toBe(true);
+        expect(is_version_in_range('1.0', '')).toBe(true);
+        expect(is_version_in_range('1.0', 'latest')).toBeUndefined();
+        expect(is_version_in_range('1.0', '[')).toBeUndefined();
+    });
+});
@@ -0,0 +1,331 @@
+import { collect_files_from_zip, extract_text_from_zip } from './fs';
+import { compare_versions } from './utils';
+
+//#region types
+export type mod_loader = 'forge' | 'neoforge' | 'fabric' | 'quilt';
+export type mod_side = 'client' | 'server' | 'both';
+// Discouraged mods still load together, so they are kept apart from the incompatible ones
+export type dependency_kind = 'required' | 'optional' | 'discouraged' | 'incompatible';
+
+export interface mod_dependency {
+    mod_id: string;
+    kind: dependency_kind;
+    // In the notation of the loader, e.g. [1.2,) for forge or >=1.2 for fabric
+    version_range: string | undefined;
+}
+
+/**
+ * The infos of a mod, as declared by the metadata file of a 1.13+ mod loader
+ */
+export interface mod_metadata {
+    loader: mod_loader;
+    id: string;
+    other_mod_ids: string[];
+    version: string | undefined;
+    dependencies: mod_dependency[];
+    side: mod_side;
+}
+
+// Ids that refer to the game or loader itself, not to a mod we could track
+const PLATFORM_IDS = ['minecraft', 'java', 'forge', 'neoforge', 'fabricloader', 'quilt_loader'];
+
+/**
+ * Map the side of a mod to the tags we use for it
+ */
+export function side_to_tags(side: mod_side): string[] {
+    switch (side) {
+        case 'client':
+            return ['SIDE.CLIENT'];
+        case 'server':
+            return ['SIDE.SERVER'];
+        default:
+            return ['SIDE.CLIENT', 'SIDE.SERVER'];
+    }
+}
+
+//#region reading
+/**
+ * Read the metadata of a mod for any of the newer loaders. Mods that only have a mcmod.info return undefined.
+ */
+export async function read_mod_metadata(file_path: string): Promise<mod_metadata | undefined> {
+    // Check which files exist first, so older mods only cost a single look into the jar
+    const metadata_files = await collect_files_from_zip(file_path, /^(?:META-INF\/(?:neoforge\.)?mods\.toml|quilt\.mod\.json|fabric\.mod\.json)$/);
+    if (metadata_files == undefined) return undefined;
+    const read = (file_name: string) => extract_text_from_zip(file_path, file_name).catch(() => undefined);
+
+    // Jars can ship metadata for multiple loaders, newer ones take priority
+    if (metadata_files.includes('META-INF/neoforge.mods.toml')) {
+        return await parse_mods_toml((await read('META-INF/neoforge.mods.toml')) ?? '', 'neoforge', read);
+    } else if (metadata_files.includes('META-INF/mods.toml')) {
+        return await parse_mods_toml((await read('META-INF/mods.toml')) ?? '', 'forge', read);
+    } else if (metadata_files.includes('quilt.mod.json')) {
+        return parse_quilt_mod_json((await read('quilt.mod.json')) ?? '');
+    } else {
+        return parse_fabric_mod_json((await read('fabric.mod.json')) ?? '');
+    }
+}
+
+function is_platform_id(mod_id: string): boolean {
+    return PLATFORM_IDS.includes(mod_id.toLowerCase());
+}
+
+// Parsed metadata files can contain anything, so their fields are checked before they are used
+type unknown_object = Record<string, unknown>;
+
+function is_object(value: unknown): value is unknown_object {
+    return typeof value === 'object' && value != null && !Array.isArray(value);
+}
+
+function as_string(value: unknown): string | undefined {
+    return typeof value === 'string' ? value : undefined;
+}
+
+//#region forge
+/**
+ * Parse a (neo)forge mods.toml. The first [[mods]] entry is the main mod, others are submodules.
+ * @param read Reads another file from the same jar, to resolve ${file.jarVersion} from its manifest
+ */
+export async function parse_mods_toml(
+    toml_text: string,
+    loader: 'forge' | 'neoforge',
+    read: (file_name: string) => Promise<string | undefined>,
+): Promise<mod_metadata | undefined> {
+    let toml: unknown_object;
+    try {
+        toml = Bun.TOML.parse(toml_text) as unknown_object;
+    } catch (err) {
+        console.warn(`W: Failed to parse ${loader} mods.toml: ${err}`);
+        return undefined;
+    }
+
+    const mods = (Array.isArray(toml.mods) ? (toml.mods as unknown[]) : []).filter((mod): mod is unknown_object => is_object(mod) && typeof mod.modId === 'string');
+    const mod_ids = mods.map((mod) => mod.modId as string);
+    const main_mod = mods[0];
+    if (main_mod == undefined) return undefined;
+
+    let version = as_string(main_mod.version);
+    if (version?.includes('${file.jarVersion}')) {
+        const manifest_version = (await read('META-INF/MANIFEST.MF'))?.match(/^Implementation-Version:\s*(.+?)\s*$/m)?.at(1);
+        version = manifest_version != undefined ? version.replace('${file.jarVersion}', manifest_version) : undefined;
+    }
+
+    const dependencies: mod_dependency[] = [];
+    const dependency_lists = is_object(toml.dependencies) ? toml.dependencies : {};
+    for (const mod_id of mod_ids) {
+        const entries = dependency_lists[mod_id];
+        if (!Array.isArray(entries)) continue;
+        for (const entry of entries as unknown[]) {
+            if (!is_object(entry) || typeof entry.modId !== 'string' || is_platform_id(entry.modId)) continue;
+            dependencies.push({ mod_id: entry.modId, kind: get_forge_dependency_kind(entry), version_range: as_string(entry.versionRange) || undefined });
+        }
+    }
+
+    // Forge has no explicit side for a mod. Client-only mods either say so, or don't care about the server having them.
+    const display_test = main_mod.displayTest ?? toml.displayTest;
+    const side: mod_side = toml.clientSideOnly === true || display_test === 'IGNORE_SERVER_VERSION' ? 'client' : 'both';
+
+    return {
+        loader,
+        id: mod_ids[0] as string,
+        other_mod_ids: mod_ids.slice(1),
+        version,
+        dependencies,
+        side,
+    };
+}
+
+function get_forge_dependency_kind(entry: unknown_object): dependency_kind {
+    // Older forge only has mandatory, neoforge replaced it with type
+    if (typeof entry.type === 'string') {
+        switch (entry.type.toLowerCase()) {
+            case 'required':
+                return 'required';
+            case 'incompatible':
+                return 'incompatible';
+            case 'discouraged':
+                return 'discouraged';
+            default:
+                return 'optional';
+        }
+    }
+    return entry.mandatory === false ? 'optional' : 'required';
+}
+
+//#region fabric
+/**
+ * Parse a fabric.mod.json
+ */
+export function parse_fabric_mod_json(json_text: string): mod_metadata | undefined {
+    let json: unknown;
+    try {
+        json = JSON.parse(json_text);
+    } catch (err) {
+        console.warn(`W: Failed to parse fabric.mod.json: ${err}`);
+        return undefined;
+    }
+    if (!is_object(json) || typeof json.id !== 'string') return undefined;
+
+    const dependencies: mod_dependency[] = [
+        ...parse_fabric_dependency_map(json.depends, 'required'),
+        ...parse_fabric_dependency_map(json.recommends, 'optional'),
+        ...parse_fabric_dependency_map(json.suggests, 'optional'),
+        ...parse_fabric_dependency_map(json.breaks, 'incompatible'),
+        ...parse_fabric_dependency_map(json.conflicts, 'incompatible'),
+    ];
+
+    return {
+        loader: 'fabric',
+        id: json.id,
+        other_mod_ids: Array.isArray(json.provides) ? (json.provides as unknown[]).filter((id) => typeof id === 'string') : [],
+        version: as_string(json.version),
+        dependencies,
+        side: json.environment === 'client' ? 'client' : json.environment === 'server' ? 'server' : 'both',
+    };
+}
+
+/**
+ * Fabric dependencies are a map of id to a version range, or a list of ranges of which any one has to match
+ */
+function parse_fabric_dependency_map(dependency_map: unknown, kind: dependency_kind): mod_dependency[] {
+    if (!is_object(dependency_map)) return [];
+    return Object.entries(dependency_map)
+        .filter(([mod_id]) => !is_platform_id(mod_id))
+        .map(([mod_id, range]) => ({ mod_id, kind, version_range: format_version_range(range) }));
+}
+
+//#region quilt
+/**
+ * Parse a quilt.mod.json
+ */
+export function parse_quilt_mod_json(json_text: string): mod_metadata | undefined {
+    let json: unknown;
+    try {
+        json = JSON.parse(json_text);
+    } catch (err) {
+        console.warn(`W: Failed to parse quilt.mod.json: ${err}`);
+        return undefined;
+    }
+    const quilt_loader = is_object(json) ? json.quilt_loader : undefined;
+    if (!is_object(quilt_loader) || typeof quilt_loader.id !== 'string') return undefined;
+
+    const dependencies: mod_dependency[] = [
+        ...parse_quilt_dependency_list(quilt_loader.depends, 'required'),
+        ...parse_quilt_dependency_list(quilt_loader.recommends, 'optional'),
+        ...parse_quilt_dependency_list(quilt_loader.breaks, 'incompatible'),
+    ];
+    const environment = is_object(json) && is_object(json.minecraft) ? json.minecraft.environment : undefined;
+
+    return {
+        loader: 'quilt',
+        id: quilt_loader.id,
+        other_mod_ids: Array.isArray(quilt_loader.provides)
+            ? (quilt_loader.provides as unknown[]).map((provided) => (is_object(provided) ? provided.id : provided)).filter((id) => typeof id === 'string')
+            : [],
+        version: as_string(quilt_loader.version),
+        dependencies,
+        side: environment === 'client' ? 'client' : environment === 'dedicated_server' ? 'server' : 'both',
+    };
+}
+
+/**
+ * Quilt dependencies are either a plain id, or an object that can also mark them optional
+ */
+function parse_quilt_dependency_list(dependency_list: unknown, kind: dependency_kind): mod_dependency[] {
+    if (!Array.isArray(dependency_list)) return [];
+    const dependencies: mod_dependency[] = [];
+    for (const entry of dependency_list as unknown[]) {
+        const mod_id = is_object(entry) ? entry.id : entry;
+        if (typeof mod_id !== 'string' || is_platform_id(mod_id)) continue;
+        dependencies.push({
+            mod_id,
+            kind: kind === 'required' && is_object(entry) && entry.optional === true ? 'optional' : kind,
+            version_range: is_object(entry) ? format_version_range(entry.versions) : undefined,
+        });
+    }
+    return dependencies;
+}
+
+/**
+ * Fabric & quilt allow a list of alternative ranges, which we keep as a single string.
+ * They read a plain version as an exact match, so it gets an explicit "=" to tell it apart from forge's minimum.
+ */
+function format_version_range(range: unknown): string | undefined {
+    const ranges = (Array.isArray(range) ? (range as unknown[]) : [range]).filter((entry): entry is string => typeof entry === 'string' && entry !== '*');
+    if (ranges.length == 0) return undefined;
+    return ranges.map((entry) => entry.replaceAll(/(?<=^|\s)(?=v?\d)(?!\S*[.-][x*](?:\s|$))/gi, '=')).join(' || ');
+}
+
+//#region version ranges
+/**
+ * Check if a version satisfies a range. Understands maven ranges as used by forge ("[1.2,2.0)", unions of them),
+ * and the comparators of fabric & quilt (">=1.2 <2", "^1.2", "~1.2", "1.2.x"), with "||" between alternatives.
+ * A plain version counts as the minimum that is needed, like forge reads it.
+ * @returns Whether the version is in the range, or undefined if the range can't be understood
+ */
+export function is_version_in_range(version: string, range: string): boolean | undefined {
+    range = range.trim();
+    if (range === '' || range === '*') return true;
+    if (/^[\[(]/.test(range)) return is_version_in_maven_range(version, range);
+
+    const alternatives = range.split('||').map((alternative) =>
+        alternative
+            .trim()
+            .split(/\s+/)
+            .map((comparator) => is_version_matching(version, comparator)),
+    );
+    if (alternatives.some((comparators) => comparators.every((result) => result === true))) return true;
+    if (alternatives.flat().includes(undefined)) return undefined;
+    return false;
+}
+
+function is_version_in_maven_range(version: string, range: string): boolean | undefined {
+    const intervals = range.matchAll(/([\[(])\s*([^,\])]*?)\s*(?:,\s*([^\])]*?)\s*)?([\])])/g).toArray();
+    if (intervals.length == 0) return undefined;
+
+    return intervals.some(([interval, open, lower, upper, close]) => {
+        // [1.0] pins a single version
+        if (!interval.includes(',')) return lower != undefined && compare_versions(version, lower) == 0;
+        if (lower) {
+            const lower_change = compare_versions(version, lower);
+            if (lower_change < 0 || (lower_change == 0 && open === '(')) return false;
+        }
+        if (upper) {
+            const upper_change = compare_versions(version, upper);
+            if (upper_change > 0 || (upper_change == 0 && close === ')')) return false;
+        }
+        return true;
+    });
+}
+
+function is_version_matching(version: string, comparator: string): boolean | undefined {
+    const match = comparator.match(/^(>=|<=|>|<|=|\^|~)?v?(\d[^\s]*)$/);
+    if (match == undefined || match[2] == undefined) return comparator === '*' ? true : undefined;
+    const [, operator, target] = match as [string, string | undefined, string];
+
+    // 1.2.x or 1.2.* match everything starting with 1.2
+    if (/[.-][x*]$/i.test(target)) {
+        const prefix = target.slice(0, -2);
+        return version === prefix || version.startsWith(prefix + '.') || version.startsWith(prefix + '-');
+    }
+
+    const change = compare_versions(version, target);
+    const [major = 0, minor = 0] = target.split('.').map((part) => parseInt(part) || 0);
+    switch (operator) {
+        case '>=':
+        case undefined:
+            return change >= 0;
+        case '>':
+            return change > 0;
+        case '<=':
+            return change <= 0;
+        case '<':
+            return change < 0;
+        case '=':
+            return change == 0;
+        case '^':
+            return change >= 0 && compare_versions(version, `${major + 1}`) < 0;
+        case '~':
+            return change >= 0 && compare_versions(version, `${major}.${minor + 1}`) < 0;
+    }
+    return undefined;
+}
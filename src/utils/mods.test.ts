@@ -0,0 +1,208 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { mkdir, rename, rm, utimes } from 'node:fs/promises';
+import { bundle_files_to_zip } from './fs';
+import {
+    default_mod_object,
+    enable_base_mods,
+    enable_mod_deep,
+    extract_modinfos,
+    extract_want_ranges,
+    find_enabled_conflicts,
+    MODINFO_CACHE_FILE,
+    MODINFO_CACHE_VERSION,
+    type mod_object,
+} from './mods';
+
+// The mods directory of the scratch pack from test_setup
+const MODS = 'mods';
+
+function make_mod(mod_id: string, overrides: Partial<mod_object> = {}): mod_object {
+    const enabled = overrides.enabled ?? true;
+    return { ...structuredClone(default_mod_object), file_path: `${MODS}/${mod_id}.jar${enabled ? '' : '.disabled'}`, ...overrides, enabled };
+}
+
+async function write_mod_files(mod_map: Map<string, mod_object>) {
+    await rm(MODS, { recursive: true, force: true });
+    await mkdir(MODS, { recursive: true });
+    for (const mod of mod_map.values()) await Bun.write(mod.file_path, '');
+}
+
+function enabled_ids(mod_map: Map<string, mod_object>): string[] {
+    return mod_map
+        .entries()
+        .filter(([, mod]) => mod.enabled)
+        .map(([mod_id]) => mod_id)
+        .toArray();
+}
+
+describe('extract_want_ranges', () => {
+    test('reads the ranges of mcmod.info dependency strings', () => {
+        expect(extract_want_ranges(['required-after:Forge@[10.13.4,);required-after:CodeChickenCore@[1.0.4,);after:NotEnoughItems'])).toEqual({
+            Forge: '[10.13.4,)',
+            CodeChickenCore: '[1.0.4,)',
+        });
+    });
+
+    test('keeps unions of maven ranges together', () => {
+        expect(extract_want_ranges(['required-after:Baubles@[1.0,1.1),[1.2,)'])).toEqual({ Baubles: '[1.0,1.1),[1.2,)' });
+    });
+
+    test('reads plain versions and bare ids', () => {
+        expect(extract_want_ranges(['after:IC2@2.2.827', 'CoFHCore@[1.7.10R3.0.0,)'])).toEqual({ IC2: '2.2.827', CoFHCore: '[1.7.10R3.0.0,)' });
+    });
+
+    test('ignores dependencies without a range', () => {
+        expect(extract_want_ranges(['required-after:Forge', 'mod_MinecraftForge'])).toEqual({});
+    });
+});
+
+describe('find_enabled_conflicts', () => {
+    test('finds incompatible pairs of enabled mods, by their other ids as well', () => {
+        const mod_map = new Map([
+            ['optifine', make_mod('optifine', { incompatible_with: ['fastcraft', 'angelica'] })],
+            ['fastcraft', make_mod('fastcraft')],
+            ['angelica', make_mod('angelica', { enabled: false })],
+            ['rplus', make_mod('rplus', { incompatible_with: ['FalseTweaks'] })],
+            ['falsetweaks', make_mod('falsetweaks', { other_mod_ids: ['FalseTweaks'] })],
+        ]);
+        expect(find_enabled_conflicts(mod_map)).toEqual([
+            ['optifine', 'fastcraft'],
+            ['rplus', 'falsetweaks'],
+        ]);
+    });
+});
+
+describe('enabling incompatible mods', () => {
+    let mod_map: Map<string, mod_object>;
+
+    beforeEach(async () => {
+        mod_map = new Map([
+            ['optifine', make_mod('optifine', { enabled: false, incompatible_with: ['fastcraft'], wants: ['shaderlib'] })],
+            ['shaderlib', make_mod('shaderlib', { enabled: false, wanted_by: ['optifine'] })],
+            ['fastcraft', make_mod('fastcraft', { wanted_by: ['fastcraft_addon'] })],
+            ['fastcraft_addon', make_mod('fastcraft_addon', { wants: ['fastcraft'] })],
+            ['angelica', make_mod('angelica', { enabled: false, incompatible_with: ['shaderlib'] })],
+        ]);
+        await write_mod_files(mod_map);
+    });
+
+    test('is refused by default', async () => {
+        expect(await enable_mod_deep('optifine', mod_map, [])).toBe(0);
+        expect(enabled_ids(mod_map)).toEqual(['fastcraft', 'fastcraft_addon']);
+        expect(await Bun.file(`${MODS}/optifine.jar.disabled`).exists()).toBe(true);
+    });
+
+    test('disables the enabled side and its dependents with disable_conflicting', async () => {
+        expect(await enable_mod_deep('optifine', mod_map, [], { disable_conflicting: true })).toBe(4);
+        expect(enabled_ids(mod_map)).toEqual(['optifine', 'shaderlib']);
+        expect(await Bun.file(`${MODS}/fastcraft.jar.disabled`).exists()).toBe(true);
+    });
+
+    test('is refused if a dependency conflicts with a mod that is enabled along with it', async () => {
+        mod_map.get('optifine')!.wants = ['shaderlib', 'angelica'];
+        expect(await enable_mod_deep('optifine', mod_map, [], { disable_conflicting: true })).toBe(0);
+        expect(enabled_ids(mod_map)).toEqual(['fastcraft', 'fastcraft_addon']);
+    });
+});
+
+describe('enable_base_mods', () => {
+    test('disables the mods that conflict with base mods', async () => {
+        const mod_map = new Map([
+            ['optifine', make_mod('optifine', { enabled: false, tags: ['REQUIRED_BASE'], incompatible_with: ['fastcraft'] })],
+            ['fastcraft', make_mod('fastcraft')],
+        ]);
+        await write_mod_files(mod_map);
+
+        await enable_base_mods(mod_map);
+        expect(enabled_ids(mod_map)).toEqual(['optifine']);
+    });
+
+    test('refuses base mods that are incompatible with each other', async () => {
+        const mod_map = new Map([
+            ['optifine', make_mod('optifine', { enabled: false, tags: ['REQUIRED_BASE'], incompatible_with: ['fastcraft'] })],
+            ['fastcraft', make_mod('fastcraft', { tags: ['REQUIRED_BASE'] })],
+        ]);
+        await write_mod_files(mod_map);
+
+        await expect(enable_base_mods(mod_map)).rejects.toThrow('The base mods optifine and fastcraft are incompatible with each other');
+        expect(enabled_ids(mod_map)).toEqual(['fastcraft']);
+    });
+});
+
+describe('modinfo cache', () => {
+    const JAR = `${MODS}/alpha.jar`;
+
+    async function write_jar(jar_path: string, mod_id: string) {
+        await Bun.write('mcmod.info', JSON.stringify([{ modid: mod_id, version: '1.0' }]));
+        await bundle_files_to_zip([{ path: 'mcmod.info', path_inside_zip: 'mcmod.info' }], jar_path);
+    }
+
+    async function read_ids(jar_path: string = JAR, use_cache: boolean = true): Promise<Array<string | undefined>> {
+        const mods = await extract_modinfos(new Map([[jar_path, jar_path.replace(`${MODS}/`, '')]]), use_cache);
+        return Array.from(mods.values(), (mod) => mod.mod_id);
+    }
+
+    // Mark the cached details, so reading them back is told apart from parsing the jar again
+    async function edit_cache(edit: (cache: any) => void) {
+        const cache = await Bun.file(MODINFO_CACHE_FILE).json();
+        for (const entry of Object.values(cache.entries) as any[]) entry.details.id = 'from_cache';
+        edit(cache);
+        await Bun.write(MODINFO_CACHE_FILE, JSON.stringify(cache));
+    }
+
+    beforeEach(async () => {
+        await rm(MODS, { recursive: true, force: true });
+        await rm(MODINFO_CACHE_FILE, { force: true });
+        await write_jar(JAR, 'alpha');
+        expect(await read_ids()).toEqual(['alpha']);
+    });
+
+    test('records the size, mtime & sha256 of parsed jars', async () => {
+        const cache = await Bun.file(MODINFO_CACHE_FILE).json();
+        expect(cache.version).toBe(MODINFO_CACHE_VERSION);
+        expect(cache.entries[JAR]).toMatchObject({
+            size: Bun.file(JAR).size,
+            sha256: new Bun.CryptoHasher('sha256').update(await Bun.file(JAR).arrayBuffer()).digest('hex'),
+        });
+    });
+
+    test('reads unchanged jars from the cache', async () => {
+        await edit_cache(() => {});
+        expect(await read_ids()).toEqual(['from_cache']);
+        // Unless asked not to
+        expect(await read_ids(JAR, false)).toEqual(['alpha']);
+    });
+
+    test('finds touched & renamed jars by their sha256', async () => {
+        await edit_cache(() => {});
+        await utimes(JAR, new Date(), new Date(Date.now() + 60_000));
+        expect(await read_ids()).toEqual(['from_cache']);
+
+        await rename(JAR, JAR + '.disabled');
+        const mods = await extract_modinfos(new Map([[JAR + '.disabled', 'alpha.jar.disabled']]));
+        expect(mods.get(JAR + '.disabled')).toMatchObject({ mod_id: 'from_cache', enabled: false });
+    });
+
+    test('parses jars again once their contents change', async () => {
+        await edit_cache(() => {});
+        await write_jar(JAR, 'alpha_reworked');
+        expect(await read_ids()).toEqual(['alpha_reworked']);
+    });
+
+    test('falls back to the sha256 if the size differs, and parses jars again if that does not match either', async () => {
+        await edit_cache((cache) => (cache.entries[JAR].size += 1));
+        expect(await read_ids()).toEqual(['from_cache']);
+
+        await edit_cache((cache) => {
+            cache.entries[JAR].mtime_ms = 0;
+            cache.entries[JAR].sha256 = 'outdated';
+        });
+        expect(await read_ids()).toEqual(['alpha']);
+    });
+
+    test('ignores caches of other versions', async () => {
+        await edit_cache((cache) => (cache.version = MODINFO_CACHE_VERSION - 1));
+        expect(await read_ids()).toEqual(['alpha']);
+        expect((await Bun.file(MODINFO_CACHE_FILE).json()).version).toBe(MODINFO_CACHE_VERSION);
+    });
+});
@@ -1,6 +1,21 @@
-import { ANNOTATED_FILE, MOD_BASE_DIR } from './config';
-import { extract_file_from_zip, extract_text_from_zip, hash_file, is_folder_locked, read_from_file, rename_file, save_map_to_file, scan_mods_folder, search_zip_for_string } from './fs';
-import { dedup_array, type JsonObject } from './utils';
+import { ANNOTATED_FILE, MOD_BASE_DIR, PACKSCRIPTS_TMP_DIR, PARSE_POOL_SIZE } from './config';
+import {
+    extract_file_from_zip,
+    extract_text_from_zip,
+    hash_file,
+    is_folder_locked,
+    read_from_file,
+    rename_file,
+    save_map_to_file,
+    scan_mods_folder,
+    search_zip_for_string,
+    write_file_atomic,
+} from './fs';
+import { CLIColor, dedup_array, type JsonObject } from './utils';
+import { stat } from 'node:fs/promises';
+import { get_source_type_of_url } from './providers';
+import { read_mod_metadata, side_to_tags, type mod_dependency, type mod_side } from './metadata';
+import { ANNOTATED_SCHEMA_FILE_NAME, ANNOTATED_SCHEMA_VERSION, migrate_annotated, write_annotated_schema } from './schema';
 
 //#region types
 export enum UpdateFrequenciesEnum {
@@ -9,7 +24,9 @@ export enum UpdateFrequenciesEnum {
     EOL = 'EOL',
 }
 export type update_frequency = keyof typeof UpdateFrequenciesEnum;
-export type SourceType = 'GITHUB' | 'CURSEFORGE' | 'MODRINTH' | 'OTHER';
+// Each has a provider registered for it
+export const SOURCE_TYPES = ['GITHUB', 'CURSEFORGE', 'MODRINTH', 'OTHER'] as const;
+export type SourceType = (typeof SOURCE_TYPES)[number];
 
 export interface update_state {
     version: string | undefined;
@@ -31,11 +48,18 @@ export interface mod_object {
     notes: string | undefined;
     wanted_by: string[] | undefined;
     wants: string[] | undefined;
+    // Soft dependencies (after: / before:), the mod works without them but integrates with them
+    optionally_wanted_by: string[] | undefined;
+    optional_wants: string[] | undefined;
+    // Mods that can't run together with this one, both ways
+    incompatible_with: string[] | undefined;
     enabled: boolean | undefined;
     other_mod_ids: string[] | undefined;
+    // Version ranges the mod declares for its wants, by the id of the wanted mod
+    want_ranges: Record<string, string> | undefined;
     update_state: update_state;
     // We only need this, so that we can access the attributes via [string]
-    [key: string]: string | string[] | boolean | undefined | update_state;
+    [key: string]: string | string[] | boolean | undefined | Record<string, string> | update_state;
 }
 
 export const default_mod_object: mod_object = {
@@ -45,8 +69,12 @@ export const default_mod_object: mod_object = {
     notes: '',
     wanted_by: [],
     wants: [],
+    optionally_wanted_by: [],
+    optional_wants: [],
+    incompatible_with: [],
     enabled: true,
     other_mod_ids: [],
+    want_ranges: {},
     update_state: {
         version: '',
         disable_check: false,
@@ -72,12 +100,24 @@ export interface mod_object_unsafe {
     file_path: string;
     enabled: boolean;
     wants?: string[];
+    optional_wants?: string[];
+    incompatible_with?: string[];
+    want_ranges?: Record<string, string>;
     other_mod_ids?: string[];
+    // Only set if the mod declares which side it runs on
+    tags?: string[];
     update_state: update_state_unsafe;
     // We only need this, so that we can access the attributes via [string]
     [key: string]: string | JsonObject | string[] | boolean | undefined | update_state_unsafe;
 }
 
+export interface enable_options {
+    // Also enable the mods it optionally wants
+    with_optional?: boolean;
+    // Disable enabled mods that are incompatible with the ones we enable, instead of refusing
+    disable_conflicting?: boolean;
+}
+
 /**
  * Checks if safe conversion from properties of mod_object_unsafe to properties of mod_object can be done.
  * Feel free to assert type with `as string | string[] | boolean` afterwards.
@@ -100,13 +140,14 @@ export function getUpdateFrequencyOrdinal(freq: update_frequency): number {
 
 //#region general
 /**
- * Read a map of annotated mods from a json file, and return them as parsed objects
+ * Read a map of annotated mods from a json file, and return them as parsed objects.
+ * Files on an older schema version are migrated in memory, and only upgraded on disk once they are saved again.
  * @param annotated_file The file path to the json file
  * @returns A map, keyed by the mod id
  */
 export async function read_saved_mods(annotated_file: string, blob?: Uint8Array<ArrayBufferLike>): Promise<Map<string, mod_object>> {
     const file_contents = blob != undefined ? JSON.parse(new TextDecoder().decode(blob)) : await read_from_file(annotated_file);
-    const file_map: Map<string, mod_object> = new Map(Object.entries(file_contents)) as Map<string, mod_object>;
+    const file_map: Map<string, mod_object> = new Map(Object.entries(migrate_annotated(file_contents).mods)) as Map<string, mod_object>;
 
     const mod_map = new Map<string, mod_object>();
     for (const [mod_id, mod] of file_map) {
@@ -117,20 +158,24 @@ export async function read_saved_mods(annotated_file: string, blob?: Uint8Array<
             notes: mod.notes || default_mod_object.notes,
             wanted_by: mod.wanted_by || default_mod_object.wanted_by,
             wants: mod.wants || default_mod_object.wants,
+            optionally_wanted_by: mod.optionally_wanted_by || default_mod_object.optionally_wanted_by,
+            optional_wants: mod.optional_wants || default_mod_object.optional_wants,
+            incompatible_with: mod.incompatible_with || default_mod_object.incompatible_with,
             enabled: mod.enabled !== undefined ? mod.enabled : default_mod_object.enabled,
             other_mod_ids: mod.other_mod_ids || default_mod_object.other_mod_ids,
+            want_ranges: mod.want_ranges || default_mod_object.want_ranges,
             update_state: {
                 version: mod.update_state?.version || default_mod_object.update_state.version,
                 disable_check: mod.update_state?.disable_check || default_mod_object.update_state.disable_check,
                 frequency:
                     mod.update_state?.frequency != undefined
                         ? mod.update_state?.frequency
-                        : ((mod.source as string) || ('' as string)).startsWith('https://github.com')
+                        : get_source_type_of_url(mod.source) !== 'OTHER'
                           ? 'COMMON'
                           : default_mod_object.update_state.frequency,
                 last_status: mod.update_state?.last_status || default_mod_object.update_state.last_status,
                 last_updated_at: mod.update_state?.last_updated_at || default_mod_object.update_state.last_updated_at,
-                source_type: mod.update_state?.source_type || mod.source ? get_source_type_from_url(mod.source) : default_mod_object.update_state.source_type,
+                source_type: mod.update_state?.source_type || mod.source ? get_source_type_of_url(mod.source) : default_mod_object.update_state.source_type,
                 file_pattern: mod.update_state?.file_pattern || default_mod_object.update_state.file_pattern,
                 sha256_sum: mod.update_state.sha256_sum || '',
             },
@@ -141,32 +186,46 @@ export async function read_saved_mods(annotated_file: string, blob?: Uint8Array<
     return mod_map;
 }
 
-function get_source_type_from_url(url: string | undefined): 'GITHUB' | 'CURSEFORGE' | 'MODRINTH' | 'OTHER' {
-    if (url == undefined) return 'OTHER';
-    if (url.startsWith('https://github.com') || url.startsWith('https://api.github.com')) {
-        return 'GITHUB';
-    } else if (url.startsWith('https://modrinth.com')) {
-        return 'MODRINTH';
-    } else if (url.startsWith('https://www.curseforge.com')) {
-        return 'CURSEFORGE';
-    }
-    return 'OTHER';
+/**
+ * Save a map of annotated mods to a json file, marked with the current schema version
+ * @param annotated_file The file path to the json file. The JSON Schema is written next to it.
+ */
+export async function write_saved_mods(annotated_file: string, mod_map: Map<string, mod_object>) {
+    await write_annotated_schema(annotated_file);
+    await save_map_to_file(annotated_file, mod_map, { $schema: './' + ANNOTATED_SCHEMA_FILE_NAME, $schema_version: ANNOTATED_SCHEMA_VERSION });
 }
 
 /**
  * Enable mods with the REQUIRED_BASE flag, as a way to keep mods enabled.
+ * Enabled mods that are incompatible with them are disabled instead.
  * This function should be called after broad actions that disable mods.
  * This function does not handle saving mod_map to file,
  * so the outer calling function must save afterwards.
+ * @throws If base mods (or their deps) are incompatible with each other, since there is no way to keep all of them enabled
  */
 export async function enable_base_mods(mod_map: Map<string, mod_object>) {
     const changed_list: string[] = [];
 
     // Get base required mods from tag
-    for (const [mod_id, mod_object] of mod_map) {
-        if (mod_object.tags && mod_object.tags.includes('REQUIRED_BASE') && !mod_object.enabled) {
+    const base_mods = mod_map
+        .entries()
+        .filter(([, mod_object]) => mod_object.tags?.includes('REQUIRED_BASE'))
+        .toArray();
+    for (const [i, [a_id, a]] of base_mods.entries()) {
+        const conflicting = base_mods.slice(i + 1).find(([b_id, b]) => are_mods_incompatible(a_id, a, b_id, b));
+        if (conflicting != undefined) {
+            throw new Error(`The base mods ${a_id} and ${conflicting[0]} are incompatible with each other, please untag one of them.`);
+        }
+    }
+
+    for (const [mod_id, mod_object] of base_mods) {
+        if (!mod_object.enabled) {
             console.log('Re-Enabling mod required by basegame:', mod_id);
-            await enable_mod_deep(mod_id, mod_map, changed_list);
+            // Conflicts with other mods disable those, so this only fails if its deps are incompatible with each other or it's missing on disk
+            await enable_mod_deep(mod_id, mod_map, changed_list, { disable_conflicting: true });
+            if (!mod_object.enabled) {
+                throw new Error(`Failed to re-enable ${mod_id}, which is required by the basegame.`);
+            }
         }
     }
 }
@@ -200,12 +259,14 @@ export async function toggle_mod_deep(mod_id: string, mod_map: Map<string, mod_o
  * @param mod_id The mod to disable
  * @param mod_map A mod map, from read_saved_mods()
  * @param changed_list A list of mod ids, to keep track of which mods we have already updated
+ * @param with_optional Also disable the mods that only optionally want it
  * @returns The number of mods that were changed
  */
 export async function disable_mod_deep(
     mod_id: string,
     mod_map: Map<string, mod_object>,
     changed_list: Array<string>,
+    with_optional: boolean = false,
     ancestor_chain: Array<string> = [],
 ): Promise<number> {
     let change_count = 0;
@@ -225,7 +286,16 @@ export async function disable_mod_deep(
             const next_chain = [...ancestor_chain, mod_id];
             for (const dependency of mod.wanted_by) {
                 if (isNotItself(dependency, mod_id, mod.other_mod_ids || [])) {
-                    change_count += await disable_mod_deep(dependency, mod_map, changed_list, next_chain);
+                    change_count += await disable_mod_deep(dependency, mod_map, changed_list, with_optional, next_chain);
+                }
+            }
+        }
+        // Soft dependencies often point both ways, so we skip what's already in the chain instead of warning about cycles
+        if (with_optional && mod.optionally_wanted_by && mod.optionally_wanted_by.length > 0) {
+            const next_chain = [...ancestor_chain, mod_id];
+            for (const dependency of mod.optionally_wanted_by) {
+                if (!next_chain.includes(dependency) && isNotItself(dependency, mod_id, mod.other_mod_ids || [])) {
+                    change_count += await disable_mod_deep(dependency, mod_map, changed_list, with_optional, next_chain);
                 }
             }
         }
@@ -234,25 +304,40 @@ export async function disable_mod_deep(
             console.log('Disabling mod ', mod_id);
             // Mod was enabled before (as is the name now), add .disabled suffix
             const new_path = mod.file_path + '.disabled';
-            await rename_file(mod.file_path, new_path);
-            mod.file_path = new_path;
-
-            mod.enabled = false;
             changed_list.push(mod_id);
-            change_count++;
+            if (await rename_file(mod.file_path, new_path)) {
+                mod.file_path = new_path;
+                mod.enabled = false;
+                change_count++;
+            }
         }
     }
 
     return change_count;
 }
 
+/**
+ * Remove all references to the given ids from the (optional) wants & wanted_by and the incompatible_with lists of the other mods
+ */
+export function strip_edges(mod_map: Map<string, mod_object>, removed_ids: string[]) {
+    const lower_ids = removed_ids.map((mod_id) => mod_id.toLowerCase());
+    for (const mod of mod_map.values()) {
+        mod.wants = mod.wants?.filter((dep_id) => !lower_ids.includes(dep_id.toLowerCase()));
+        mod.wanted_by = mod.wanted_by?.filter((dependent_id) => !lower_ids.includes(dependent_id.toLowerCase()));
+        mod.optional_wants = mod.optional_wants?.filter((dep_id) => !lower_ids.includes(dep_id.toLowerCase()));
+        mod.optionally_wanted_by = mod.optionally_wanted_by?.filter((dependent_id) => !lower_ids.includes(dependent_id.toLowerCase()));
+        mod.incompatible_with = mod.incompatible_with?.filter((other_id) => !lower_ids.includes(other_id.toLowerCase()));
+    }
+}
+
 export function isNotItself(base: string, mod_id: string, other_mod_ids: string[]): boolean {
     return base.toLowerCase() != mod_id.toLowerCase() && other_mod_ids.find((other_id) => other_id.toLowerCase() === mod_id.toLowerCase()) == undefined;
 }
 
 /**
- * Disable a mod, with its dependents
- * @param mod_id The mod to disable
+ * Enable a mod, with its dependencies.
+ * Refuses if that would enable two incompatible mods, unless disable_conflicting is set.
+ * @param mod_id The mod to enable
  * @param mod_map A mod map, from read_saved_mods()
  * @param changed_list A list of mod ids, to keep track of which mods we have already updated
  * @param ancestor_chain A list of mod id deps we have already visited, not be set by the top level
@@ -262,9 +347,18 @@ export async function enable_mod_deep(
     mod_id: string,
     mod_map: Map<string, mod_object>,
     changed_list: Array<string>,
+    options: enable_options = {},
     ancestor_chain: Array<string> = [],
 ): Promise<number> {
     let change_count = 0;
+    const { with_optional = false } = options;
+
+    // Conflicts are checked once for everything this would enable, so we don't end up with half of the deps enabled
+    if (ancestor_chain.length == 0) {
+        const resolution = await resolve_enable_conflicts(mod_id, mod_map, changed_list, options);
+        if (resolution == undefined) return 0;
+        change_count += resolution;
+    }
 
     // Cycle detection via an ancester chain that contains the id of the all deps we've visited before.
     // Will be empty for the top level of each chain because we only pass a new array with spread downwards
@@ -281,7 +375,15 @@ export async function enable_mod_deep(
             const next_chain = [...ancestor_chain, mod_id];
             for (const dependency of mod.wants) {
                 // console.log(`Enabling dependency of ${mod_id}: ${dependency}`)
-                change_count += await enable_mod_deep(dependency, mod_map, changed_list, next_chain);
+                change_count += await enable_mod_deep(dependency, mod_map, changed_list, options, next_chain);
+            }
+        }
+        if (with_optional && mod.optional_wants && mod.optional_wants.length > 0) {
+            const next_chain = [...ancestor_chain, mod_id];
+            for (const dependency of mod.optional_wants) {
+                if (!next_chain.includes(dependency)) {
+                    change_count += await enable_mod_deep(dependency, mod_map, changed_list, options, next_chain);
+                }
             }
         }
         // Make sure we didnt already touch this mod before & its disabled
@@ -289,12 +391,12 @@ export async function enable_mod_deep(
             console.log('Enabling mod ', mod_id);
             // Mod was disabled before (as is the name now), remove .disabled suffix
             const new_path = mod.file_path.replace(/\.disabled$/m, '');
-            await rename_file(mod.file_path, new_path);
-            mod.file_path = new_path;
-
-            mod.enabled = true;
             changed_list.push(mod_id);
-            change_count++;
+            if (await rename_file(mod.file_path, new_path)) {
+                mod.file_path = new_path;
+                mod.enabled = true;
+                change_count++;
+            }
         }
     }
 
@@ -317,7 +419,7 @@ export async function enable_all_mods(mod_map?: Map<string, mod_object>) {
     }
 
     if (changes > 0) {
-        await save_map_to_file(ANNOTATED_FILE, mod_map);
+        await write_saved_mods(ANNOTATED_FILE, mod_map);
         console.log('Changed ', changes, ' mods.\n');
     } else {
         console.log('No changes made.');
@@ -341,7 +443,7 @@ export async function disable_all_mods(mod_map?: Map<string, mod_object>) {
     await enable_base_mods(mod_map);
 
     if (changes > 0) {
-        await save_map_to_file(ANNOTATED_FILE, mod_map);
+        await write_saved_mods(ANNOTATED_FILE, mod_map);
         console.log('Changed ', changes, ' mods.\n');
     } else {
         console.log('No changes made.');
@@ -351,23 +453,39 @@ export async function disable_all_mods(mod_map?: Map<string, mod_object>) {
 /**
  * Extract more infos about a list of mods from their contained mcmod.info files (json)
  * @param files A map of mod jars, of type <file path, file basename>, usually returned by scan_mods_folder()
+ * @param use_cache Reuse the results of earlier runs for jars that didn't change
  */
-export async function extract_modinfos(files: Map<string, string>): Promise<Map<string, mod_object_unsafe>> {
+export async function extract_modinfos(files: Map<string, string>, use_cache: boolean = true): Promise<Map<string, mod_object_unsafe>> {
+    const started_at = performance.now();
     const mods = new Map();
     const file_paths = Array.from(files.keys());
-    const POOL_SIZE = 8;
+    const cache = use_cache ? await read_modinfo_cache() : { version: MODINFO_CACHE_VERSION, entries: {} };
+    const by_hash = new Map(Object.values(cache.entries).map((entry) => [entry.sha256, entry]));
+    const new_cache: modinfo_cache = { version: MODINFO_CACHE_VERSION, entries: {} };
+    let cached_count = 0;
 
-    for (let i = 0; i < file_paths.length; i += POOL_SIZE) {
-        const batch = file_paths.slice(i, i + POOL_SIZE);
-        const results = await Promise.all(batch.map(async (file_path) => ({ file_path, ...(await parse_mod_details(file_path)) })));
-        for (const { file_path, id, other_mod_ids, state, version, wants, hash } of results) {
+    for (let i = 0; i < file_paths.length; i += PARSE_POOL_SIZE) {
+        const batch = file_paths.slice(i, i + PARSE_POOL_SIZE);
+        const results = await Promise.all(
+            batch.map(async (file_path) => {
+                const { details, entry, from_cache } = await get_cached_mod_details(file_path, cache, by_hash);
+                if (entry != undefined) new_cache.entries[file_path] = entry;
+                if (from_cache) cached_count++;
+                return { file_path, ...details };
+            }),
+        );
+        for (const { file_path, id, other_mod_ids, state, version, wants, optional_wants, incompatible_with, want_ranges, hash, side } of results) {
             if (id != undefined) {
                 const mod: mod_object_unsafe = {
                     mod_id: id,
                     other_mod_ids: other_mod_ids,
                     wants: wants,
+                    optional_wants: optional_wants,
+                    incompatible_with: incompatible_with,
+                    want_ranges: want_ranges,
                     enabled: state,
                     file_path: file_path,
+                    tags: side != undefined ? side_to_tags(side) : undefined,
                     update_state: {
                         version: version,
                         sha256_sum: hash,
@@ -379,29 +497,81 @@ export async function extract_modinfos(files: Map<string, string>): Promise<Map<
             }
         }
     }
+
+    // Only keep the jars we just saw, so removed ones don't pile up
+    await write_file_atomic(MODINFO_CACHE_FILE, JSON.stringify(new_cache)).catch((err) => console.warn('W: Failed to save the mod info cache:', err));
+    const seconds = ((performance.now() - started_at) / 1000).toFixed(2);
+    console.info(
+        `${CLIColor.FgGray}-${CLIColor.Reset} Read ${file_paths.length} jars in ${seconds}s ` +
+            `${CLIColor.FgGray}(${CLIColor.FgGray18}${file_paths.length - cached_count} parsed, ${cached_count} cached, pool of ${PARSE_POOL_SIZE}${CLIColor.FgGray})${CLIColor.Reset}`,
+    );
     return mods;
 }
 
 /**
- * Parse the mcmod.info inside a mod file, to get its infos
- * @param info_json Contents of the mods mcmod.info file, might be a json object, a string or undefined
- * @param basename The basename of the file, with extension
+ * Parse the metadata inside a mod file, to get its infos.
+ * Reads the mods.toml / fabric.mod.json / quilt.mod.json of newer loaders, and falls back to mcmod.info & the @Mod annotation.
+ * @param file_path The path of the mod jar
+ * @param known_hash The sha256 of the jar, if it was already computed
  */
-export async function parse_mod_details(file_path: string): Promise<{
+export async function parse_mod_details(
+    file_path: string,
+    known_hash?: string,
+): Promise<{
     id: string | undefined;
     other_mod_ids: string[] | undefined;
     wants: Array<string>;
+    optional_wants: Array<string>;
+    incompatible_with: Array<string>;
+    want_ranges: Record<string, string>;
     version: string | undefined;
     state: boolean;
     hash: string;
+    // Only known for newer loaders
+    dependencies?: mod_dependency[];
+    side?: mod_side;
 }> {
     let mod_id: undefined | string = undefined;
     let other_mod_ids: string[] | undefined = undefined;
     let wants: Array<string> = [];
+    let optional_wants: Array<string> = [];
     let mod_version: undefined | string;
     const mod_state: boolean = !file_path.endsWith('.disabled');
 
-    const hash = hash_file(file_path, 'sha256');
+    const hash = known_hash != undefined ? Promise.resolve(known_hash) : hash_file(file_path, 'sha256');
+
+    const metadata = await read_mod_metadata(file_path);
+    if (metadata != undefined) {
+        const required = metadata.dependencies.filter((dependency) => dependency.kind === 'required');
+        const metadata_wants = filter_for_faulty_dependencies(
+            required.map((dependency) => dependency.mod_id),
+            metadata.id,
+            metadata.other_mod_ids,
+        );
+        const metadata_optional_wants = filter_for_faulty_dependencies(
+            metadata.dependencies.filter((dependency) => dependency.kind === 'optional').map((dependency) => dependency.mod_id),
+            metadata.id,
+            metadata.other_mod_ids,
+        ).filter((dep_id) => !metadata_wants.includes(dep_id));
+        return {
+            id: metadata.id,
+            other_mod_ids: metadata.other_mod_ids,
+            wants: metadata_wants,
+            optional_wants: metadata_optional_wants,
+            incompatible_with: dedup_array(
+                metadata.dependencies.filter((dependency) => dependency.kind === 'incompatible').map((dependency) => dependency.mod_id),
+            ),
+            want_ranges: filter_want_ranges(
+                Object.fromEntries(required.filter((dependency) => dependency.version_range != undefined).map((dependency) => [dependency.mod_id, dependency.version_range as string])),
+                metadata_wants,
+            ),
+            version: metadata.version,
+            state: mod_state,
+            hash: await hash,
+            dependencies: metadata.dependencies,
+            side: metadata.side,
+        };
+    }
 
     // oh god what have I created. (Filename to modid pattern)
     // Basically, this first matches the folder path in front of the file. Then it filters out any non word chars in front of the name or a tag group, such as [CLIENT].
@@ -546,7 +716,7 @@ export async function parse_mod_details(file_path: string): Promise<{
     }
 
     // Get all info from the @Mod annotation inside the mods main class
-    const { main_deps, main_version } = await get_details_from_mainclass(file_path);
+    const { main_deps, main_optional_deps, main_version, main_ranges } = await get_details_from_mainclass(file_path);
 
     // Mod-Version fallbacks & filtering
     if (mod_version && !mod_version.match(/(\d)/) && mod_version.toLowerCase().includes('version')) {
@@ -568,30 +738,62 @@ export async function parse_mod_details(file_path: string): Promise<{
         }
     }
 
+    // Ranges have to be taken before filtering, since that drops everything after the @
+    const want_ranges = { ...extract_want_ranges(wants), ...main_ranges };
+
     // Expand wants with the ones from the @Mod annotation, filter and deduplicate
     if (mod_id) {
-        wants = filter_for_faulty_dependencies([...wants, ...main_deps], mod_id, other_mod_ids || []);
+        // Some mcmod.info files list soft dependencies in the same format as the annotation
+        const info_optional_wants = wants.filter((dep) => dep.match(optional_dep_prefix_pattern));
+        wants = filter_for_faulty_dependencies(
+            wants.filter((dep) => !info_optional_wants.includes(dep)).concat(main_deps),
+            mod_id,
+            other_mod_ids || [],
+        );
+        optional_wants = filter_for_faulty_dependencies(
+            [...info_optional_wants, ...main_optional_deps].map((dep) => dep.replace(optional_dep_prefix_pattern, '')),
+            mod_id,
+            other_mod_ids || [],
+        ).filter((dep_id) => dep_id !== '*' && !wants.some((want) => want.toLowerCase() === dep_id.toLowerCase()));
     } else {
         console.warn(`W: Failed to get any mod id for ${file_path}, faulty file?`);
         wants = [];
     }
 
-    return { id: mod_id, other_mod_ids: other_mod_ids, wants: wants, version: mod_version, state: mod_state, hash: await hash };
+    return {
+        id: mod_id,
+        other_mod_ids: other_mod_ids,
+        wants: wants,
+        optional_wants: optional_wants,
+        // The old metadata has no way to declare these
+        incompatible_with: [],
+        want_ranges: filter_want_ranges(want_ranges, wants),
+        version: mod_version,
+        state: mod_state,
+        hash: await hash,
+    };
 }
 
+// Ordering entries of the @Mod annotation that don't make the other mod required
+const optional_dep_prefix_pattern = /^\s*(?:required-before|after|before):/m;
+
 /**
  * Extract the dependencies of a mod (by its id and file path) from a "@Mod" annotation encoded somewhere in the bytecode of the mainclass of the mod
- * @returns A list of dependencies this mod has
+ * @returns A list of dependencies this mod has, and a list of the ones it only loads around (after: / before: / required-before:)
  */
-export async function get_details_from_mainclass(file_path: string): Promise<{ main_deps: string[]; main_version?: string }> {
+export async function get_details_from_mainclass(
+    file_path: string,
+): Promise<{ main_deps: string[]; main_optional_deps: string[]; main_version?: string; main_ranges: Record<string, string> }> {
     const deps: Set<string> = new Set();
+    const optional_deps: Set<string> = new Set();
+    let ranges: Record<string, string> = {};
     let version: string | undefined = undefined;
 
     const mod_annotation_pattern = new RegExp(/\u0019Lcpw\/mods\/fml\/common\/Mod;((?:.|(?:\r\n|\n|\x0b|\f|\r|\x85)){1,512})/);
     // Mod Annotation terminators (not very reliable): (?:\u0001\u0000(?:\u0023|\u0011|(?:\u0005bytes)))/);
     const dep_version_pattern = new RegExp(/(?:\u0007|\u000c|\u000a)version\u0001\u0000(?:[\u0003-\u000c])(.+?)\u0001\u0000/);
     const dep_entry_pattern = new RegExp(
-        /required-after:(?<mod_id>(?<first_char>[a-zA-Z])(?:[a-zA-Z]|\d{1}|[\+\-\|](?:(?!mc|MC)[a-zA-Z]{2}|[aI]))+?)(?:[ \n\r;@\u0001]|$)/gm,
+        /(?<kind>required-after|required-before|after|before):(?<mod_id>(?<first_char>[a-zA-Z])(?:[a-zA-Z]|\d{1}|[\+\-\|](?:(?!mc|MC)[a-zA-Z]{2}|[aI]))+?)(?:[ \n\r;@\u0001]|$)/gm,
     );
     const search_result = await search_zip_for_string(file_path, 'Lcpw/mods/fml/common/Mod;');
     if (search_result != undefined) {
@@ -601,11 +803,14 @@ export async function get_details_from_mainclass(file_path: string): Promise<{ m
             if (match != undefined) {
                 // Get dependency tags
                 for (const dep_match of match.matchAll(dep_entry_pattern)) {
-                    const dep_id = dep_match.at(1);
-                    if (dep_id) {
+                    const dep_id = dep_match.groups?.mod_id;
+                    if (dep_id && dep_match.groups?.kind === 'required-after') {
                         deps.add(dep_id);
+                    } else if (dep_id) {
+                        optional_deps.add(dep_id);
                     }
                 }
+                ranges = { ...ranges, ...extract_want_ranges([match]) };
                 // Get version tag
                 const version_match = match.match(dep_version_pattern)?.at(1);
                 if (version_match != undefined) {
@@ -619,7 +824,34 @@ export async function get_details_from_mainclass(file_path: string): Promise<{ m
         // We failed to find the mainclass and its annotation in the mod, which probably means its injected via ASM
     }
 
-    return { main_deps: Array.from(deps), main_version: version };
+    return { main_deps: Array.from(deps), main_optional_deps: Array.from(optional_deps), main_version: version, main_ranges: ranges };
+}
+
+/**
+ * Get the version ranges out of dependency strings, like "required-after:Forge@[10.13,);required-after:CodeChickenCore@[1.0.4,)"
+ * @returns A map of dependency id to its range
+ */
+export function extract_want_ranges(dependency_strings: string[]): Record<string, string> {
+    const ranges: Record<string, string> = {};
+    const range_pattern = /(?:(?:required-)?(?:after|before):)?([a-zA-Z][\w\-|+]*?)@([\[(][^\])]*[\])](?:,[\[(][^\])]*[\])])*|[^;,\s\u0001]+)/g;
+    for (const dependency_string of dependency_strings) {
+        for (const match of dependency_string.matchAll(range_pattern)) {
+            if (match[1] != undefined && match[2] != undefined) ranges[match[1]] = match[2];
+        }
+    }
+    return ranges;
+}
+
+/**
+ * Only keep the ranges of mods that are actually wanted, matching ids case-insensitively
+ */
+function filter_want_ranges(want_ranges: Record<string, string>, wants: string[]): Record<string, string> {
+    const filtered: Record<string, string> = {};
+    for (const want of wants) {
+        const range_key = Object.keys(want_ranges).find((dep_id) => dep_id.toLowerCase() === want.toLowerCase());
+        if (range_key != undefined) filtered[want] = want_ranges[range_key] as string;
+    }
+    return filtered;
 }
 
 export function filter_for_faulty_dependencies(wants: string[], mod_id: string, other_mod_ids: string[]): string[] {
@@ -680,3 +912,147 @@ export function is_mod_ignored_by_name(file_name: string): boolean {
     }
     return true;
 }
+
+//#region conflicts
+/**
+ * Check if either of two mods declares the other one as incompatible, matching their other ids as well
+ */
+export function are_mods_incompatible(a_id: string, a: mod_object, b_id: string, b: mod_object): boolean {
+    const a_ids = [a_id, ...(a.other_mod_ids ?? [])].map((id) => id.toLowerCase());
+    const b_ids = [b_id, ...(b.other_mod_ids ?? [])].map((id) => id.toLowerCase());
+    return (
+        (a.incompatible_with ?? []).some((id) => b_ids.includes(id.toLowerCase())) ||
+        (b.incompatible_with ?? []).some((id) => a_ids.includes(id.toLowerCase()))
+    );
+}
+
+/**
+ * Find all pairs of enabled mods that are incompatible with each other
+ */
+export function find_enabled_conflicts(mod_map: Map<string, mod_object>): Array<[string, string]> {
+    const enabled = mod_map.entries().filter(([, mod]) => mod.enabled).toArray();
+    const conflicts: Array<[string, string]> = [];
+    for (let i = 0; i < enabled.length; i++) {
+        for (let j = i + 1; j < enabled.length; j++) {
+            const [a_id, a] = enabled[i] as [string, mod_object];
+            const [b_id, b] = enabled[j] as [string, mod_object];
+            if (are_mods_incompatible(a_id, a, b_id, b)) conflicts.push([a_id, b_id]);
+        }
+    }
+    return conflicts;
+}
+
+/**
+ * Collect a mod with everything enable_mod_deep would walk through for it
+ */
+function collect_enable_closure(mod_id: string, mod_map: Map<string, mod_object>, with_optional: boolean, closure: Set<string> = new Set()): Set<string> {
+    const mod = mod_map.get(mod_id);
+    if (mod == undefined || closure.has(mod_id)) return closure;
+    closure.add(mod_id);
+    for (const dependency of [...(mod.wants ?? []), ...(with_optional ? (mod.optional_wants ?? []) : [])]) {
+        collect_enable_closure(dependency, mod_map, with_optional, closure);
+    }
+    return closure;
+}
+
+/**
+ * Check if enabling a mod would enable it (or one of its deps) next to an incompatible mod, and disable the other side if wanted
+ * @returns The number of mods that were disabled, or undefined if enabling should be refused
+ */
+async function resolve_enable_conflicts(
+    mod_id: string,
+    mod_map: Map<string, mod_object>,
+    changed_list: Array<string>,
+    options: enable_options,
+): Promise<number | undefined> {
+    const closure = collect_enable_closure(mod_id, mod_map, options.with_optional ?? false);
+    const to_enable = closure.values().filter((closure_id) => !mod_map.get(closure_id)?.enabled);
+
+    const conflicts: Array<[string, string]> = [];
+    for (const enable_id of to_enable) {
+        const enable_mod = mod_map.get(enable_id) as mod_object;
+        for (const [other_id, other] of mod_map) {
+            if (other_id === enable_id || (!other.enabled && !closure.has(other_id))) continue;
+            if (are_mods_incompatible(enable_id, enable_mod, other_id, other)) conflicts.push([enable_id, other_id]);
+        }
+    }
+    if (conflicts.length == 0) return 0;
+
+    // Mods that come along with the one we enable can't be disabled to make room
+    const unresolvable = conflicts.filter(([, other_id]) => closure.has(other_id));
+    if (!options.disable_conflicting || unresolvable.length > 0) {
+        console.warn(`W: Won't enable ${mod_id}, since that would enable incompatible mods together:`);
+        for (const [enable_id, other_id] of options.disable_conflicting ? unresolvable : conflicts) {
+            console.warn(`    ${enable_id} <-> ${other_id}`);
+        }
+        if (!options.disable_conflicting) console.warn('    Use --disable_conflicting to disable the enabled side instead.');
+        return undefined;
+    }
+
+    let change_count = 0;
+    for (const other_id of new Set(conflicts.map(([, other_id]) => other_id))) {
+        console.log(`Disabling ${other_id}, since it is incompatible with ${mod_id}`);
+        change_count += await disable_mod_deep(other_id, mod_map, changed_list);
+    }
+    return change_count;
+}
+
+//#region modinfo cache
+export const MODINFO_CACHE_FILE = PACKSCRIPTS_TMP_DIR + 'modinfo_cache.json';
+// Bump this whenever parse_mod_details starts returning something different, so old results get parsed again
+export const MODINFO_CACHE_VERSION = 4;
+
+type mod_details = Awaited<ReturnType<typeof parse_mod_details>>;
+
+interface modinfo_cache_entry {
+    size: number;
+    mtime_ms: number;
+    sha256: string;
+    // The enabled state & hash are left out, since they are tracked by the path & sha256
+    details: Omit<mod_details, 'state' | 'hash'>;
+}
+
+interface modinfo_cache {
+    version: number;
+    entries: Record<string, modinfo_cache_entry>;
+}
+
+async function read_modinfo_cache(): Promise<modinfo_cache> {
+    const cache_file = Bun.file(MODINFO_CACHE_FILE);
+    const cache: modinfo_cache | undefined = (await cache_file.exists()) ? await cache_file.json().catch(() => undefined) : undefined;
+    if (cache == undefined || cache.version !== MODINFO_CACHE_VERSION || typeof cache.entries !== 'object') {
+        return { version: MODINFO_CACHE_VERSION, entries: {} };
+    }
+    return cache;
+}
+
+/**
+ * Get the details of a mod from the cache if its jar didn't change, and parse it otherwise.
+ * Jars are matched by path, size & mtime first, and then by their sha256, so renamed (like toggled) jars don't need to be parsed again.
+ * @param by_hash The cached entries, keyed by their sha256
+ * @returns The details, and the entry to cache for the next run
+ */
+async function get_cached_mod_details(
+    file_path: string,
+    cache: modinfo_cache,
+    by_hash: Map<string, modinfo_cache_entry>,
+): Promise<{ details: mod_details; entry: modinfo_cache_entry | undefined; from_cache: boolean }> {
+    const stats = await stat(file_path).catch(() => undefined);
+    if (stats == undefined) return { details: await parse_mod_details(file_path), entry: undefined, from_cache: false };
+    const state = !file_path.endsWith('.disabled');
+
+    const cached = cache.entries[file_path];
+    if (cached != undefined && cached.size === stats.size && cached.mtime_ms === stats.mtimeMs) {
+        return { details: { ...cached.details, state, hash: cached.sha256 }, entry: cached, from_cache: true };
+    }
+
+    const hash = await hash_file(file_path, 'sha256');
+    const entry = { size: stats.size, mtime_ms: stats.mtimeMs, sha256: hash };
+    const moved = by_hash.get(hash);
+    if (moved != undefined) {
+        return { details: { ...moved.details, state, hash }, entry: { ...entry, details: moved.details }, from_cache: true };
+    }
+
+    const { state: _state, hash: _hash, ...details } = await parse_mod_details(file_path, hash);
+    return { details: { ...details, state, hash }, entry: { ...entry, details }, from_cache: false };
+}
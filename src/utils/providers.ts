@@ -0,0 +1,160 @@
+import type { SupportedCryptoAlgorithms } from 'bun';
+import { filter_assets } from './fetch';
+import type { SourceType } from './mods';
+import { curseforge_provider } from './providers/curseforge';
+import { github_provider } from './providers/github';
+import { modrinth_provider } from './providers/modrinth';
+import { other_provider } from './providers/other';
+
+//#region types
+export interface SourceAsset {
+    name: string;
+    url: string;
+    size: number;
+    download_count?: number | undefined;
+    // Hex digests keyed by algorithm, for whatever the host provides
+    hashes: { [algorithm: string]: string };
+    // The host marks this as the main file of the release
+    primary?: boolean | undefined;
+    // The author does not allow third party downloads, url points to a page to download it by hand
+    manual?: boolean | undefined;
+}
+
+export interface SourceRelease {
+    version: string;
+    name: string;
+    author?: string | undefined;
+    published_at: string;
+    draft: boolean;
+    prerelease: boolean;
+    body: string;
+    assets: SourceAsset[];
+}
+
+export interface SourceProvider {
+    // Human readable name of the host
+    name: string;
+    // Lowercase name, used for grouping on disk (like image buckets)
+    bucket: string;
+    // The digest algorithm the host exposes for its files, used to match local jars to remote assets
+    hash_algorithm: SupportedCryptoAlgorithms | undefined;
+    // The secret the host can't be queried without, if it needs one
+    api_key_name: string | undefined;
+
+    /**
+     * Whether a url points to this host
+     */
+    matches_url(url: string): boolean;
+    /**
+     * Whether this provider can be queried right now (for example if it needs an api key that is missing)
+     */
+    is_available(): boolean;
+    /**
+     * Get the newest stable release of a project, falling back to the newest release if there is no stable one
+     */
+    latest_release(source: string): Promise<{ status: string; release: SourceRelease | undefined }>;
+    /**
+     * List releases of a project, newest first. Truncated is set if there were more releases than were fetched.
+     */
+    list_releases(source: string, all_pages: boolean): Promise<{ status: string; releases: SourceRelease[]; truncated: boolean }>;
+    /**
+     * Get a single release of a project by its version, with a 404 status if it does not exist
+     */
+    get_release(source: string, version: string): Promise<{ status: string; release: SourceRelease | undefined }>;
+    /**
+     * Find the release & asset that a local file was downloaded from.
+     * Answers with a 304 status if the host can tell that the source is already up to date, without looking it up.
+     */
+    resolve_asset_by_hash(
+        source: string,
+        file: { path: string; sha256_sum: string; version: string | undefined },
+    ): Promise<{ status: string; release: SourceRelease | undefined; asset: SourceAsset | undefined }>;
+    /**
+     * Look up the project of a mod by its id, which hosts that support it match against their slugs
+     * @returns The url of the project page, or undefined if there is no such project
+     */
+    find_project(mod_id: string): Promise<{ status: string; url: string | undefined }>;
+    /**
+     * Reduce a direct link (to a release or file) to the link of its project, or undefined if it can't be
+     */
+    canonical_url(url: string): string | undefined;
+    /**
+     * Download an asset url into destination/file_name
+     */
+    download(url: string, destination: string, file_name: string): Promise<string>;
+}
+
+//#region registry
+// Checked in insertion order when resolving urls, so the catch-all goes last
+const SOURCE_PROVIDERS: Map<SourceType, SourceProvider> = new Map();
+
+export function register_source_provider(source_type: SourceType, provider: SourceProvider) {
+    SOURCE_PROVIDERS.set(source_type, provider);
+}
+
+export function get_source_provider(source_type: SourceType): SourceProvider {
+    return SOURCE_PROVIDERS.get(source_type) ?? other_provider;
+}
+
+export function get_source_type_of_url(url: string | undefined): SourceType {
+    if (url == undefined) return 'OTHER';
+    for (const [source_type, provider] of SOURCE_PROVIDERS) {
+        if (provider.matches_url(url)) return source_type;
+    }
+    return 'OTHER';
+}
+
+register_source_provider('GITHUB', github_provider);
+register_source_provider('MODRINTH', modrinth_provider);
+register_source_provider('CURSEFORGE', curseforge_provider);
+register_source_provider('OTHER', other_provider);
+
+//#region helpers
+
+/**
+ * Warn about mods that were skipped because their host is missing its api key, with one line per host
+ * @param skipped_counts How many mods were skipped, by their provider
+ */
+export function warn_skipped_providers(skipped_counts: Map<SourceProvider, number>) {
+    for (const [provider, count] of skipped_counts) {
+        if (provider.api_key_name == undefined) continue;
+        console.warn(`W: Skipped ${count} ${provider.name} mods, because ${provider.api_key_name} is missing.`);
+    }
+}
+
+/**
+ * Pick the single asset of a release that belongs to a mod.
+ * Prefers an asset with a matching hash, then the file pattern & common suffix filters, and lastly the asset the host marks as primary.
+ */
+export function pick_release_asset(release: SourceRelease, file_pattern?: string, hash?: string): SourceAsset | undefined {
+    if (hash != undefined) {
+        const hash_match = release.assets.find((asset) => Object.values(asset.hashes).includes(hash));
+        if (hash_match != undefined) return hash_match;
+    }
+
+    const [file_name] = filter_assets(
+        release.assets.map((asset) => ({ browser_download_url: asset.url, name: asset.name, size: asset.size })),
+        file_pattern,
+    );
+    if (file_name != undefined) {
+        return release.assets.find((asset) => asset.name === file_name);
+    }
+
+    // Still ambiguous, but some hosts mark one file per release as the main one
+    return release.assets.find((asset) => asset.primary && (!file_pattern || asset.name.match(new RegExp(file_pattern, 'm'))));
+}
+
+/**
+ * Get the slugs a mod id might be published under, since ids use underscores where slugs use dashes
+ */
+export function slug_candidates(mod_id: string): string[] {
+    const slug = mod_id.toLowerCase();
+    return Array.from(new Set([slug, slug.replaceAll('_', '-')]));
+}
+
+/**
+ * Prefer the newest stable release, like GitHub's /releases/latest does
+ */
+export function pick_latest_release(releases: SourceRelease[]): SourceRelease | undefined {
+    return releases.find((release) => !release.prerelease && !release.draft) ?? releases[0];
+}
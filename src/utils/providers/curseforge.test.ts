@@ -0,0 +1,144 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Server } from 'bun';
+import { CURSEFORGE_API_URL } from '../config';
+import type { CurseforgeFile, CurseforgeMod, CurseforgePagination } from '../fetch';
+import { get_source_provider } from '../providers';
+
+const JAR_CONTENT = 'not really a jar';
+// More than fit into one page of the api
+const FILE_COUNT = 55;
+
+// Stands in for the curseforge api & cdn, so no requests leave the machine
+function serve_curseforge(): Server<undefined> {
+    const mod = (id: number, slug: string): CurseforgeMod => ({
+        id,
+        slug,
+        name: slug,
+        allowModDistribution: slug !== 'locked-mod',
+        links: { websiteUrl: `https://www.curseforge.com/minecraft/mc-mods/${slug}` },
+    });
+    const file = (index: number): CurseforgeFile => ({
+        id: 1000 + index,
+        modId: 1,
+        displayName: `Some Mod 1.0.${index}`,
+        fileName: `some-mod-1.0.${index}.jar`,
+        // Only the newest file is a beta
+        releaseType: index == FILE_COUNT - 1 ? 2 : 1,
+        fileDate: new Date(Date.UTC(2024, 0, 1 + index)).toISOString(),
+        fileLength: JAR_CONTENT.length,
+        downloadCount: 10,
+        downloadUrl: `${server.url}cdn/some-mod-1.0.${index}.jar`,
+        isAvailable: true,
+        gameVersions: ['1.7.10'],
+        hashes: [{ value: index == 3 ? new Bun.CryptoHasher('sha1').update(JAR_CONTENT).digest('hex') : 'abc', algo: 1 }],
+    });
+    const pagination = (index: number, page_size: number, result_count: number, total_count: number): CurseforgePagination => ({
+        index,
+        pageSize: page_size,
+        resultCount: result_count,
+        totalCount: total_count,
+    });
+
+    const server = Bun.serve({
+        // The api url was pointed at a free port in test_setup
+        port: Number(new URL(CURSEFORGE_API_URL).port),
+        fetch(req) {
+            const { pathname, searchParams } = new URL(req.url);
+            if (!pathname.startsWith('/cdn/') && req.headers.get('x-api-key') !== 'test-key') return new Response('Forbidden', { status: 403 });
+
+            switch (pathname) {
+                case '/mods/search': {
+                    const slug = searchParams.get('slug') as string;
+                    const mods = { 'some-mod': mod(1, 'some-mod'), 'locked-mod': mod(2, 'locked-mod') };
+                    return Response.json({ data: slug in mods ? [mods[slug as keyof typeof mods]] : [] });
+                }
+                case '/mods/1/files': {
+                    // Oldest first, to make sure the files get sorted
+                    const index = Number(searchParams.get('index') ?? 0);
+                    const page_size = Number(searchParams.get('pageSize') ?? 50);
+                    const files = Array.from({ length: FILE_COUNT }, (_, i) => file(i)).slice(index, index + page_size);
+                    return Response.json({ data: files, pagination: pagination(index, page_size, files.length, FILE_COUNT) });
+                }
+                case '/mods/2/files':
+                    return Response.json({
+                        data: [{ ...file(0), modId: 2, displayName: 'Locked Mod 2.0', fileName: 'locked-mod-2.0.jar', downloadUrl: null }],
+                        pagination: pagination(0, 50, 1, 1),
+                    });
+                case '/cdn/some-mod-1.0.3.jar':
+                    return new Response(JAR_CONTENT);
+                default:
+                    return new Response('Not found', { status: 404 });
+            }
+        },
+    });
+    return server;
+}
+
+// Imported through providers, which is in a cycle with the provider modules
+const provider = get_source_provider('CURSEFORGE');
+let server: Server<undefined>;
+let download_dir: string;
+
+beforeAll(async () => {
+    server = serve_curseforge();
+    download_dir = await mkdtemp(join(tmpdir(), 'packscripts-test-'));
+});
+
+afterAll(async () => {
+    server.stop(true);
+    await rm(download_dir, { recursive: true, force: true });
+});
+
+describe('curseforge provider', () => {
+    test('lists the files of all pages, newest first', async () => {
+        const { status, releases } = await provider.list_releases('https://www.curseforge.com/minecraft/mc-mods/some-mod', false);
+        expect(status).toBe('200');
+        expect(releases.length).toBe(FILE_COUNT);
+        expect(releases[0]?.version).toBe(`1.0.${FILE_COUNT - 1}`);
+        expect(releases[0]?.prerelease).toBe(true);
+        expect(releases.at(-1)?.assets[0]?.name).toBe('some-mod-1.0.0.jar');
+    });
+
+    test('prefers the newest stable file', async () => {
+        const { release } = await provider.latest_release('https://www.curseforge.com/minecraft/mc-mods/some-mod');
+        expect(release?.version).toBe(`1.0.${FILE_COUNT - 2}`);
+    });
+
+    test('gets releases by version or file id, and answers 404 for others', async () => {
+        const url = 'https://www.curseforge.com/minecraft/mc-mods/some-mod';
+        expect((await provider.get_release(url, '1.0.3')).release?.name).toBe('Some Mod 1.0.3');
+        expect((await provider.get_release(url, '1007')).release?.version).toBe('1.0.7');
+        expect((await provider.get_release(url, '2.0.0')).status).toBe('404');
+    });
+
+    test('downloads & recognizes files by their sha1', async () => {
+        const url = 'https://www.curseforge.com/minecraft/mc-mods/some-mod';
+        const asset = (await provider.get_release(url, '1.0.3')).release?.assets[0];
+        expect(asset).toBeDefined();
+        await provider.download(asset!.url, download_dir, asset!.name);
+
+        const path = join(download_dir, asset!.name);
+        expect(await Bun.file(path).text()).toBe(JAR_CONTENT);
+        const { release } = await provider.resolve_asset_by_hash(url, { path, sha256_sum: '', version: undefined });
+        expect(release?.version).toBe('1.0.3');
+    });
+
+    test('leaves files without third party downloads to the user', async () => {
+        const { release } = await provider.latest_release('https://www.curseforge.com/minecraft/mc-mods/locked-mod');
+        const asset = release?.assets[0];
+        expect(asset?.manual).toBe(true);
+        expect(asset?.url).toBe(`https://www.curseforge.com/minecraft/mc-mods/locked-mod/files/1000`);
+
+        await expect(provider.download(asset!.url, download_dir, asset!.name)).rejects.toThrow('does not allow third party downloads');
+        await Bun.write(join(download_dir, asset!.name), JAR_CONTENT);
+        expect(await provider.download(asset!.url, download_dir, asset!.name)).toBe(`Using manually downloaded ${asset!.name}`);
+    });
+
+    test('finds projects by the slug of a mod id', async () => {
+        expect(await provider.find_project('Some_Mod')).toEqual({ status: '200', url: 'https://www.curseforge.com/minecraft/mc-mods/some-mod' });
+        expect((await provider.find_project('missing_mod')).url).toBeUndefined();
+    });
+});
@@ -0,0 +1,144 @@
+import { CURSEFORGE_API_KEY, read_pack_targets } from '../config';
+import { download_file, query_cf_files, query_cf_mod_by_url, type CurseforgeFile, type CurseforgeMod } from '../fetch';
+import { hash_file } from '../fs';
+import { pick_latest_release, slug_candidates, type SourceProvider, type SourceRelease } from '../providers';
+import { parse_cf_url } from '../sources';
+
+/**
+ * Curseforge files have no version field, so strip the mod name & game version from the display name to get one
+ */
+async function cf_file_version(file: CurseforgeFile): Promise<string> {
+    let name = file.displayName.replace(/\.jar$/m, '');
+    for (const game_version of (await read_pack_targets()).game_versions) {
+        name = name.replaceAll(game_version, '');
+    }
+    return name.match(/\d.*$/m)?.[0]?.trim() || file.displayName;
+}
+
+/**
+ * Get the url to download a curseforge file from.
+ * Files that may not be distributed by third parties only get their page on curseforge, to be downloaded by hand.
+ */
+function cf_file_download_url(mod: CurseforgeMod, file: CurseforgeFile): string {
+    return file.downloadUrl ?? `${mod.links.websiteUrl.replace(/\/$/m, '')}/files/${file.id}`;
+}
+
+/**
+ * Curseforge has no releases, each file is its own entry. So group files that share a version into one release.
+ */
+async function to_source_releases(mod: CurseforgeMod, files: CurseforgeFile[]): Promise<SourceRelease[]> {
+    const grouped: Map<string, CurseforgeFile[]> = new Map();
+    for (const file of files) {
+        const version = await cf_file_version(file);
+        grouped.set(version, [...(grouped.get(version) ?? []), file]);
+    }
+
+    return Array.from(grouped, ([version, entries]) => {
+        const newest = entries[0] as CurseforgeFile;
+        return {
+            version,
+            name: newest.displayName,
+            published_at: newest.fileDate,
+            draft: false,
+            prerelease: newest.releaseType !== 1,
+            body: '',
+            assets: entries.map((file) => ({
+                name: file.fileName,
+                url: cf_file_download_url(mod, file),
+                size: file.fileLength,
+                download_count: file.downloadCount,
+                hashes: Object.fromEntries(file.hashes.map((hash) => [hash.algo === 1 ? 'sha1' : 'md5', hash.value])),
+                manual: file.downloadUrl == null,
+            })),
+        };
+    });
+}
+
+export const curseforge_provider: SourceProvider = {
+    name: 'CurseForge',
+    bucket: 'curseforge',
+    hash_algorithm: 'sha1',
+    api_key_name: 'CURSEFORGE_API_KEY',
+
+    matches_url(url) {
+        return url.startsWith('https://www.curseforge.com') || url.startsWith('https://api.curseforge.com');
+    },
+
+    is_available() {
+        return CURSEFORGE_API_KEY != undefined;
+    },
+
+    async latest_release(source) {
+        const { status, mod, files } = await query_cf_files(source, CURSEFORGE_API_KEY);
+        if (mod == undefined) return { status, release: undefined };
+        if (status == '200' && files.length < 1) {
+            console.warn('W: Found no files matching the loaders & game versions of this pack for: ', source);
+        }
+
+        const release = pick_latest_release(await to_source_releases(mod, files));
+        if (release?.assets.some((asset) => asset.manual)) {
+            console.warn(`W: ${mod.name} does not allow third party downloads, getting ${release.version} will require downloading it by hand.`);
+        }
+        return { status, release };
+    },
+
+    async list_releases(source) {
+        const { status, mod, files } = await query_cf_files(source, CURSEFORGE_API_KEY);
+        if (mod == undefined) return { status, releases: [], truncated: false };
+        return { status, releases: await to_source_releases(mod, files), truncated: false };
+    },
+
+    async get_release(source, version) {
+        const { status, mod, files } = await query_cf_files(source, CURSEFORGE_API_KEY);
+        if (status !== '200' || mod == undefined) return { status, release: undefined };
+
+        // Also accept file ids, since those are what curseforge links to
+        const by_id = files.find((file) => String(file.id) === version);
+        const target_version = by_id != undefined ? await cf_file_version(by_id) : version;
+        const match = (await to_source_releases(mod, files)).find((release) => release.version === target_version);
+        return match != undefined ? { status, release: match } : { status: '404', release: undefined };
+    },
+
+    async resolve_asset_by_hash(source, file) {
+        if (!(await Bun.file(file.path).exists())) return { status: '404', release: undefined, asset: undefined };
+        const { status, mod, files } = await query_cf_files(source, CURSEFORGE_API_KEY);
+        if (status !== '200' || mod == undefined) return { status, release: undefined, asset: undefined };
+
+        const sha1 = await hash_file(file.path, 'sha1');
+        for (const release of await to_source_releases(mod, files)) {
+            const asset = release.assets.find((entry) => entry.hashes.sha1 === sha1);
+            if (asset != undefined) return { status, release, asset };
+        }
+        return { status: '404', release: undefined, asset: undefined };
+    },
+
+    // Searching by slug only answers with exact matches
+    async find_project(mod_id) {
+        let status = '404';
+        for (const slug of slug_candidates(mod_id)) {
+            const result = await query_cf_mod_by_url(`https://www.curseforge.com/minecraft/mc-mods/${slug}`, CURSEFORGE_API_KEY);
+            status = result.status;
+            if (result.mod != undefined) return { status, url: result.mod.links.websiteUrl };
+        }
+        return { status, url: undefined };
+    },
+
+    canonical_url(url) {
+        const url_match = parse_cf_url(url);
+        if (url_match?.slug != undefined) {
+            return `https://www.curseforge.com/minecraft/mc-mods/${url_match.slug}`;
+        }
+        return undefined;
+    },
+
+    async download(url, destination, file_name) {
+        // Files that may not be distributed only link to their page on curseforge, so they have to be placed by hand
+        if (parse_cf_url(url) != undefined) {
+            if (await Bun.file(`${destination}/${file_name}`).exists()) {
+                return `Using manually downloaded ${file_name}`;
+            }
+            throw new Error(`The author of ${file_name} does not allow third party downloads. Download it manually from ${url} into ${destination}/ and run this again.`);
+        }
+        return await download_file(url, 'OTHER', destination, file_name);
+    },
+};
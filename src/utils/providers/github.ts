@@ -0,0 +1,159 @@
+import { GITHUB_API_KEY } from '../config';
+import { download_file, query_gh_project_by_url } from '../fetch';
+import type { SourceProvider, SourceRelease } from '../providers';
+import { parse_gh_url } from '../sources';
+
+interface GitHubReleaseAsset {
+    url: string;
+    browser_download_url: string;
+    id: number;
+    name: string;
+    content_type: string;
+    size: number;
+    download_count: number;
+    digest: string | null; // sha256:2151b604e3429bff440b9fbc03eb3617bc2603cda96c95b9bb05277f9ddba255
+}
+interface GitHubRelease {
+    url: string;
+    assets_url: string;
+    id: number;
+    tag_name: string;
+    target_commitish: string;
+    name: string;
+    author: { login: string } | undefined;
+    draft: boolean;
+    prerelease: boolean;
+    published_at: string;
+    body: string | null;
+    assets: GitHubReleaseAsset[];
+}
+
+// GitHub caps pages at 100 entries, so don't walk forever on huge projects
+const MAX_RELEASE_PAGES = 10;
+
+function to_source_release(release: GitHubRelease): SourceRelease {
+    return {
+        version: release.tag_name,
+        name: release.name,
+        author: release.author?.login,
+        published_at: release.published_at,
+        draft: release.draft,
+        prerelease: release.prerelease,
+        body: release.body ?? '',
+        assets: release.assets.map((asset) => ({
+            name: asset.name,
+            url: asset.browser_download_url,
+            size: asset.size,
+            download_count: asset.download_count,
+            hashes: asset.digest != null ? { sha256: asset.digest.slice(7) } : ({} as { [algorithm: string]: string }),
+        })),
+    };
+}
+
+/**
+ * Walk the release pages of a project, until find_in_page returns something or the pages run out
+ */
+async function walk_release_pages<T>(
+    source: string,
+    max_pages: number,
+    find_in_page: (releases: GitHubRelease[]) => T | undefined,
+): Promise<{ status: string; found: T | undefined; truncated: boolean }> {
+    let page = 1;
+    let truncated = false;
+    while (page <= max_pages) {
+        const { headers, status, body } = await query_gh_project_by_url(source, '/releases?per_page=100' + (page > 1 ? '&page=' + page : ''), GITHUB_API_KEY);
+        if (status != '200' || body == undefined || !Array.isArray(body)) {
+            if (page > 1) console.warn('W: Failed to fetch further releases for page ', page, '.');
+            return { status, found: undefined, truncated };
+        }
+
+        const found = find_in_page(body as unknown as GitHubRelease[]);
+        truncated = headers?.get('link')?.includes('rel="last"') ?? false;
+        if (found != undefined || !truncated) {
+            return { status, found, truncated };
+        }
+        page++;
+    }
+    return { status: '200', found: undefined, truncated };
+}
+
+export const github_provider: SourceProvider = {
+    name: 'GitHub',
+    bucket: 'github',
+    hash_algorithm: 'sha256',
+    api_key_name: 'GITHUB_API_KEY',
+
+    matches_url(url) {
+        return url.startsWith('https://github.com') || url.startsWith('https://api.github.com');
+    },
+
+    is_available() {
+        return GITHUB_API_KEY != undefined;
+    },
+
+    async latest_release(source) {
+        const { status, body } = await query_gh_project_by_url(source, '/releases/latest', GITHUB_API_KEY);
+        if (status == '200' && body != undefined) {
+            return { status, release: to_source_release(body as unknown as GitHubRelease) };
+        }
+        return { status, release: undefined };
+    },
+
+    async list_releases(source, all_pages) {
+        const releases: SourceRelease[] = [];
+        const { status, truncated } = await walk_release_pages(source, all_pages ? MAX_RELEASE_PAGES : 1, (page) => {
+            releases.push(...page.map(to_source_release));
+            return undefined;
+        });
+        return { status: releases.length > 0 ? '200' : status, releases, truncated };
+    },
+
+    async get_release(source, version) {
+        const { status, body } = await query_gh_project_by_url(source, '/releases/tags/' + version, GITHUB_API_KEY, [404]);
+        if (status === '200' && body != undefined && Array.isArray(body.assets)) {
+            return { status, release: to_source_release(body as unknown as GitHubRelease) };
+        }
+        return { status, release: undefined };
+    },
+
+    async resolve_asset_by_hash(source, file) {
+        const url_match = parse_gh_url(source);
+        if (url_match == undefined) return { status: '400', release: undefined, asset: undefined };
+        // Only links to a specific release can go stale, and only if the version on the file moved on from it
+        if (url_match.primary !== 'releases' || url_match.secondary !== 'tag' || url_match.key == undefined || file.version === url_match.key) {
+            return { status: '304', release: undefined, asset: undefined };
+        }
+
+        // Find release from matched tag or matched asset digest
+        const { status, found } = await walk_release_pages(source, MAX_RELEASE_PAGES, (page) =>
+            page.find(
+                (entry) =>
+                    entry.tag_name === file.version ||
+                    entry.assets.find((asset_entry) => asset_entry.digest != null && asset_entry.digest.slice(7) === file.sha256_sum) != undefined,
+            ),
+        );
+        if (found == undefined) {
+            return { status: status == '200' ? '404' : status, release: undefined, asset: undefined };
+        }
+
+        const release = to_source_release(found);
+        return { status: '200', release, asset: release.assets.find((asset) => asset.hashes.sha256 === file.sha256_sum) };
+    },
+
+    // Repositories are named by owner & project, which a mod id says nothing about
+    async find_project() {
+        return { status: '501', url: undefined };
+    },
+
+    canonical_url(url) {
+        const url_match = parse_gh_url(url);
+        if (url_match?.owner && url_match.project) {
+            return `https://github.com/${url_match.owner}/${url_match.project}`;
+        }
+        return undefined;
+    },
+
+    download(url, destination, file_name) {
+        return download_file(url, 'GITHUB', destination, file_name, GITHUB_API_KEY);
+    },
+};
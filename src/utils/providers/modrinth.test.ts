@@ -0,0 +1,103 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Server } from 'bun';
+import { MODRINTH_API_URL } from '../config';
+import type { ModrinthVersion } from '../fetch';
+import { get_source_provider } from '../providers';
+
+const JAR_CONTENT = 'not really a jar';
+
+// Stands in for the modrinth api & cdn, so no requests leave the machine
+function serve_modrinth(): Server<undefined> {
+    const server = Bun.serve({
+        // The api url was pointed at a free port in test_setup
+        port: Number(new URL(MODRINTH_API_URL).port),
+        fetch(req) {
+            const { pathname } = new URL(req.url);
+            const version = (version_number: string, version_type: ModrinthVersion['version_type'], date_published: string): ModrinthVersion => ({
+                id: 'id-' + version_number,
+                project_id: 'some-mod-id',
+                name: 'Some Mod ' + version_number,
+                version_number,
+                changelog: null,
+                date_published,
+                version_type,
+                downloads: 10,
+                loaders: ['forge'],
+                game_versions: ['1.7.10'],
+                files: [
+                    {
+                        filename: `some-mod-${version_number}.jar`,
+                        url: `${server.url}cdn/some-mod-${version_number}.jar`,
+                        size: JAR_CONTENT.length,
+                        primary: true,
+                        hashes: { sha512: 'abc', sha1: 'def' },
+                    },
+                ],
+            });
+
+            switch (pathname) {
+                case '/project/some-mod/version':
+                    return Response.json([version('1.1.0-beta', 'beta', '2024-02-01T00:00:00Z'), version('1.0.0', 'release', '2024-01-01T00:00:00Z')]);
+                case '/project/some-lib':
+                    return Response.json({ id: 'lib-id', slug: 'some-lib', title: 'Some Lib', project_type: 'mod' });
+                case '/cdn/some-mod-1.0.0.jar':
+                    return new Response(JAR_CONTENT);
+                default:
+                    return new Response('Not found', { status: 404 });
+            }
+        },
+    });
+    return server;
+}
+
+// Imported through providers, which is in a cycle with the provider modules
+const provider = get_source_provider('MODRINTH');
+let server: Server<undefined>;
+let download_dir: string;
+
+beforeAll(async () => {
+    server = serve_modrinth();
+    download_dir = await mkdtemp(join(tmpdir(), 'packscripts-test-'));
+});
+
+afterAll(async () => {
+    server.stop(true);
+    await rm(download_dir, { recursive: true, force: true });
+});
+
+describe('modrinth provider', () => {
+    test('lists the versions of a project, newest first', async () => {
+        const { status, releases } = await provider.list_releases('https://modrinth.com/mod/some-mod', false);
+        expect(status).toBe('200');
+        expect(releases.map((release) => release.version)).toEqual(['1.1.0-beta', '1.0.0']);
+        expect(releases[0]?.prerelease).toBe(true);
+        expect(releases[1]?.assets[0]?.name).toBe('some-mod-1.0.0.jar');
+    });
+
+    test('prefers the newest stable version', async () => {
+        const { release } = await provider.latest_release('https://modrinth.com/mod/some-mod');
+        expect(release?.version).toBe('1.0.0');
+    });
+
+    test('answers 404 for versions that do not exist', async () => {
+        expect((await provider.get_release('https://modrinth.com/mod/some-mod', '1.0.0')).release?.name).toBe('Some Mod 1.0.0');
+        expect((await provider.get_release('https://modrinth.com/mod/some-mod', '2.0.0')).status).toBe('404');
+    });
+
+    test('downloads the file of a version', async () => {
+        const { release } = await provider.get_release('https://modrinth.com/mod/some-mod', '1.0.0');
+        const asset = release?.assets[0];
+        expect(asset).toBeDefined();
+
+        await provider.download(asset!.url, download_dir, asset!.name);
+        expect(await Bun.file(join(download_dir, asset!.name)).text()).toBe(JAR_CONTENT);
+    });
+
+    test('finds projects by the slug of a mod id', async () => {
+        expect(await provider.find_project('Some_Lib')).toEqual({ status: '200', url: 'https://modrinth.com/mod/some-lib' });
+        expect((await provider.find_project('missing_mod')).url).toBeUndefined();
+    });
+});
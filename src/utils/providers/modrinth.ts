@@ -0,0 +1,96 @@
+import { MODRINTH_API_KEY } from '../config';
+import { download_file, query_mr_project, query_mr_version_by_hash, query_mr_versions, type ModrinthVersion } from '../fetch';
+import { hash_file } from '../fs';
+import { pick_latest_release, slug_candidates, type SourceProvider, type SourceRelease } from '../providers';
+import { parse_mr_url } from '../sources';
+
+function to_source_release(version: ModrinthVersion): SourceRelease {
+    return {
+        version: version.version_number,
+        name: version.name,
+        published_at: version.date_published,
+        draft: false,
+        prerelease: version.version_type !== 'release',
+        body: version.changelog ?? '',
+        assets: version.files.map((file) => ({
+            name: file.filename,
+            url: file.url,
+            size: file.size,
+            // Modrinth only counts downloads per version
+            download_count: version.downloads,
+            hashes: { ...file.hashes },
+            primary: file.primary,
+        })),
+    };
+}
+
+export const modrinth_provider: SourceProvider = {
+    name: 'Modrinth',
+    bucket: 'modrinth',
+    hash_algorithm: 'sha512',
+    api_key_name: undefined,
+
+    matches_url(url) {
+        return url.startsWith('https://modrinth.com') || url.startsWith('https://cdn.modrinth.com') || url.startsWith('https://api.modrinth.com');
+    },
+
+    // Modrinth does not require a key, it only raises the rate limits
+    is_available() {
+        return true;
+    },
+
+    async latest_release(source) {
+        const { status, versions } = await query_mr_versions(source, MODRINTH_API_KEY);
+        if (status == '200' && versions.length < 1) {
+            console.warn('W: Found no versions matching the loaders & game versions of this pack for: ', source);
+        }
+        return { status, release: pick_latest_release(versions.map(to_source_release)) };
+    },
+
+    // Modrinth answers with all versions for the packs loaders & game versions at once, so it never paginates
+    async list_releases(source) {
+        const { status, versions } = await query_mr_versions(source, MODRINTH_API_KEY);
+        return { status, releases: versions.map(to_source_release), truncated: false };
+    },
+
+    async get_release(source, version) {
+        const { status, versions } = await query_mr_versions(source, MODRINTH_API_KEY);
+        if (status !== '200') return { status, release: undefined };
+        const match = versions.find((entry) => entry.version_number === version || entry.id === version);
+        return match != undefined ? { status, release: to_source_release(match) } : { status: '404', release: undefined };
+    },
+
+    // Modrinth can look up versions by file hash directly, no need to walk releases
+    async resolve_asset_by_hash(source, file) {
+        if (!(await Bun.file(file.path).exists())) return { status: '404', release: undefined, asset: undefined };
+        const sha512 = await hash_file(file.path, 'sha512');
+        const { status, version } = await query_mr_version_by_hash(sha512, MODRINTH_API_KEY);
+        if (status !== '200' || version == undefined) return { status, release: undefined, asset: undefined };
+
+        const release = to_source_release(version);
+        return { status, release, asset: release.assets.find((asset) => asset.hashes.sha512 === sha512) };
+    },
+
+    async find_project(mod_id) {
+        let status = '404';
+        for (const slug of slug_candidates(mod_id)) {
+            const result = await query_mr_project(slug, MODRINTH_API_KEY);
+            status = result.status;
+            if (result.project?.project_type === 'mod') return { status, url: `https://modrinth.com/mod/${result.project.slug}` };
+        }
+        return { status, url: undefined };
+    },
+
+    canonical_url(url) {
+        const url_match = parse_mr_url(url);
+        if (url_match != undefined) {
+            return `https://modrinth.com/mod/${url_match.project}`;
+        }
+        return undefined;
+    },
+
+    // Files are served from a public cdn, so no auth is needed
+    download(url, destination, file_name) {
+        return download_file(url, 'OTHER', destination, file_name);
+    },
+};
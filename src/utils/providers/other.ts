@@ -0,0 +1,46 @@
+import { download_file } from '../fetch';
+import type { SourceProvider } from '../providers';
+
+// Catch-all for links we don't know how to query, these can only be downloaded as-is
+export const other_provider: SourceProvider = {
+    name: 'Other',
+    bucket: 'other',
+    hash_algorithm: undefined,
+    api_key_name: undefined,
+
+    matches_url() {
+        return false;
+    },
+
+    is_available() {
+        return false;
+    },
+
+    async latest_release() {
+        return { status: '501', release: undefined };
+    },
+
+    async list_releases() {
+        return { status: '501', releases: [], truncated: false };
+    },
+
+    async get_release() {
+        return { status: '501', release: undefined };
+    },
+
+    async resolve_asset_by_hash() {
+        return { status: '501', release: undefined, asset: undefined };
+    },
+
+    async find_project() {
+        return { status: '501', url: undefined };
+    },
+
+    canonical_url() {
+        return undefined;
+    },
+
+    download(url, destination, file_name) {
+        return download_file(url, 'OTHER', destination, file_name);
+    },
+};
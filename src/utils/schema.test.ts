@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'bun:test';
+import { SOURCE_TYPES } from './mods';
+import { get_source_provider } from './providers';
+import { ANNOTATED_SCHEMA_FILE_NAME, ANNOTATED_SCHEMA_VERSION, migrate_annotated, write_annotated_schema } from './schema';
+
+describe('migrate_annotated', () => {
+    test('brings unversioned files up to the current version', () => {
+        const contents = { mod_a: { file_path: 'mods/a.jar', wants: ['mod_b'] } };
+        const { mods, from_version, applied } = migrate_annotated(contents);
+
+        expect(from_version).toBe(0);
+        expect(applied.at(-1)?.to_version).toBe(ANNOTATED_SCHEMA_VERSION);
+        expect(mods).toEqual({
+            mod_a: { file_path: 'mods/a.jar', wants: ['mod_b'], optional_wants: [], optionally_wanted_by: [], incompatible_with: [], want_ranges: {} },
+        });
+        // The parsed file is left alone
+        expect(contents.mod_a).toEqual({ file_path: 'mods/a.jar', wants: ['mod_b'] });
+    });
+
+    test('keeps fields that are already set', () => {
+        const { mods } = migrate_annotated({ mod_a: { file_path: 'mods/a.jar', want_ranges: { mod_b: '[1.0,)' } } });
+        expect(mods.mod_a?.want_ranges).toEqual({ mod_b: '[1.0,)' });
+    });
+
+    test('leaves current files alone, without their header keys', () => {
+        const { mods, from_version, applied } = migrate_annotated({
+            $schema: './annotated_mods.schema.json',
+            $schema_version: ANNOTATED_SCHEMA_VERSION,
+            mod_a: { file_path: 'mods/a.jar' },
+        });
+        expect(from_version).toBe(ANNOTATED_SCHEMA_VERSION);
+        expect(applied).toEqual([]);
+        expect(mods).toEqual({ mod_a: { file_path: 'mods/a.jar' } });
+    });
+
+    test('treats the empty array of old inits as an empty file', () => {
+        expect(migrate_annotated([]).mods).toEqual({});
+    });
+
+    test('refuses files from a newer version', () => {
+        expect(() => migrate_annotated({ $schema_version: ANNOTATED_SCHEMA_VERSION + 1 })).toThrow('Please update packscripts');
+    });
+});
+
+describe('write_annotated_schema', () => {
+    test('allows the source types of all providers', async () => {
+        await write_annotated_schema('annotated.json');
+        const schema = await Bun.file(ANNOTATED_SCHEMA_FILE_NAME).json();
+        expect(schema.definitions.update_state.properties.source_type.enum).toEqual([...SOURCE_TYPES]);
+        // Each has its own provider, only unknown hosts fall back to the catch-all
+        expect(new Set(SOURCE_TYPES.map((source_type) => get_source_provider(source_type).name)).size).toBe(SOURCE_TYPES.length);
+    });
+});
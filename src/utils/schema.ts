@@ -0,0 +1,128 @@
+import path from 'node:path';
+import { write_file_atomic } from './fs';
+import { SOURCE_TYPES, UpdateFrequenciesEnum } from './mods';
+
+type raw_mods = Record<string, Record<string, unknown>>;
+
+/**
+ * A step that upgrades the annotated mods from the version before it
+ */
+interface annotated_migration {
+    to_version: number;
+    description: string;
+    migrate: (mods: raw_mods) => void;
+}
+
+//#region migrations
+// Append new steps at the end, and never change old ones, since files can be on any version before them
+const ANNOTATED_MIGRATIONS: annotated_migration[] = [
+    {
+        to_version: 1,
+        description: 'Add the schema version, and the dependency fields that were added without one (optional wants, incompatibilities & version ranges)',
+        migrate: (mods) => {
+            for (const mod of Object.values(mods)) {
+                mod.optional_wants ??= [];
+                mod.optionally_wanted_by ??= [];
+                mod.incompatible_with ??= [];
+                mod.want_ranges ??= {};
+            }
+        },
+    },
+];
+
+export const ANNOTATED_SCHEMA_VERSION: number = ANNOTATED_MIGRATIONS.at(-1)?.to_version ?? 0;
+// Lives next to the annotated mods, so editors can resolve the relative $schema reference
+export const ANNOTATED_SCHEMA_FILE_NAME = 'annotated_mods.schema.json';
+
+/**
+ * Bring the contents of an annotated mods file up to the current schema version, one migration at a time
+ * @param contents The parsed json of the file. Files without a version are treated as version 0.
+ * @returns The mods without the $ header keys, the version they were on & the migrations that were applied
+ * @throws If the file was written by a newer version of packscripts
+ */
+export function migrate_annotated(contents: unknown): { mods: raw_mods; from_version: number; applied: annotated_migration[] } {
+    // init used to create the file as an empty array
+    const file = contents != undefined && typeof contents === 'object' && !Array.isArray(contents) ? (contents as Record<string, unknown>) : {};
+    const from_version = typeof file.$schema_version === 'number' ? file.$schema_version : 0;
+    if (from_version > ANNOTATED_SCHEMA_VERSION) {
+        throw Error(
+            `Annotated mods are on schema version ${from_version}, but this version of packscripts only knows up to ${ANNOTATED_SCHEMA_VERSION}. Please update packscripts.`,
+        );
+    }
+
+    const mods: raw_mods = structuredClone(Object.fromEntries(Object.entries(file).filter(([key]) => !key.startsWith('$')))) as raw_mods;
+    const applied = ANNOTATED_MIGRATIONS.filter((migration) => migration.to_version > from_version);
+    for (const migration of applied) {
+        migration.migrate(mods);
+    }
+    return { mods, from_version, applied };
+}
+
+//#region json schema
+const string_list = { type: 'array', items: { type: 'string' } };
+
+/**
+ * Build the JSON Schema of the annotated mods. Has to be kept in sync with mod_object & update_state.
+ * Not a constant, since mods.ts imports this module before its enums exist.
+ */
+function build_annotated_json_schema() {
+    return {
+        $schema: 'http://json-schema.org/draft-07/schema#',
+        title: 'packscripts annotated mods',
+        description: 'The mods tracked by packscripts, by their mod id',
+        type: 'object',
+        properties: {
+            $schema: { type: 'string' },
+            $schema_version: { const: ANNOTATED_SCHEMA_VERSION },
+        },
+        required: ['$schema_version'],
+        additionalProperties: { $ref: '#/definitions/mod_object' },
+        definitions: {
+            mod_object: {
+                type: 'object',
+                properties: {
+                    file_path: { type: 'string', description: 'Path of the jar, ending in .disabled if the mod is disabled' },
+                    tags: string_list,
+                    source: { type: 'string', description: 'Url of the page or release the mod is downloaded from' },
+                    notes: { type: 'string' },
+                    wanted_by: { ...string_list, description: 'Mods that require this one' },
+                    wants: { ...string_list, description: 'Mods this one requires' },
+                    optionally_wanted_by: { ...string_list, description: 'Mods that integrate with this one' },
+                    optional_wants: { ...string_list, description: 'Mods this one integrates with, but does not require' },
+                    incompatible_with: { ...string_list, description: "Mods that can't be enabled together with this one" },
+                    enabled: { type: 'boolean' },
+                    other_mod_ids: string_list,
+                    want_ranges: { type: 'object', additionalProperties: { type: 'string' }, description: 'Version ranges of the wanted mods, by their id' },
+                    update_state: { $ref: '#/definitions/update_state' },
+                },
+                required: ['file_path', 'update_state'],
+                additionalProperties: false,
+            },
+            update_state: {
+                type: 'object',
+                properties: {
+                    version: { type: 'string' },
+                    disable_check: { type: 'boolean' },
+                    frequency: { enum: Object.values(UpdateFrequenciesEnum) },
+                    source_type: { enum: [...SOURCE_TYPES] },
+                    last_status: { type: 'string' },
+                    last_updated_at: { type: 'string' },
+                    file_pattern: { type: 'string', description: 'Regex to pick the right asset, if a release has multiple' },
+                    sha256_sum: { type: 'string' },
+                },
+                additionalProperties: false,
+            },
+        },
+    };
+}
+
+/**
+ * Write the JSON Schema next to the annotated mods, if it is missing or outdated
+ */
+export async function write_annotated_schema(annotated_file: string) {
+    const schema_path = path.join(path.dirname(annotated_file), ANNOTATED_SCHEMA_FILE_NAME);
+    const schema_text = JSON.stringify(build_annotated_json_schema(), null, 4);
+    const schema_file = Bun.file(schema_path);
+    if ((await schema_file.exists()) && (await schema_file.text()) === schema_text) return;
+    await write_file_atomic(schema_path, schema_text);
+}
@@ -0,0 +1,88 @@
+import { describe, expect, test } from 'bun:test';
+import { default_mod_object, type mod_object } from './mods';
+import { parse_selector, select_mods, tag_selector, tags_to_selector, type selector_node } from './selector';
+
+function make_mod(overrides: Partial<mod_object>, update_state: Partial<mod_object['update_state']> = {}): mod_object {
+    return { ...structuredClone(default_mod_object), ...overrides, update_state: { ...default_mod_object.update_state, ...update_state } };
+}
+
+const mod_map: Map<string, mod_object> = new Map([
+    ['journeymap', make_mod({ tags: ['SIDE.CLIENT'] }, { source_type: 'CURSEFORGE', frequency: 'RARE' })],
+    ['appleskin', make_mod({ tags: ['SIDE.CLIENT', 'SIDE.SERVER'], other_mod_ids: ['appleskin_api'] }, { source_type: 'MODRINTH', frequency: 'COMMON' })],
+    ['gregtech', make_mod({ tags: ['SIDE.CLIENT', 'SIDE.SERVER', 'CONTENT'], enabled: false }, { source_type: 'GITHUB', frequency: 'COMMON' })],
+    ['hodgepodge', make_mod({ tags: ['SIDE.CLIENT', 'SIDE.SERVER', 'LIB'] }, { source_type: 'GITHUB', frequency: 'COMMON' })],
+]);
+
+function select(expression: string): string[] {
+    return select_mods(mod_map, parse_selector(expression));
+}
+
+describe('parse_selector', () => {
+    test('turns bare words into id terms', () => {
+        const node = parse_selector('journeymap') as Extract<selector_node, { type: 'term' }>;
+        expect(node.type).toBe('term');
+        expect(node.key).toBe('id');
+        expect(node.pattern.test('JourneyMap')).toBe(true);
+    });
+
+    test('binds not tighter than and, and and tighter than or', () => {
+        expect(parse_selector('a or b and not c')).toMatchObject({
+            type: 'or',
+            operands: [{ type: 'term' }, { type: 'and', operands: [{ type: 'term' }, { type: 'not', operand: { type: 'term' } }] }],
+        });
+    });
+
+    test('rejects malformed expressions', () => {
+        expect(() => parse_selector('')).toThrow('Selector is empty');
+        expect(() => parse_selector('color:red')).toThrow('Unknown selector key "color"');
+        expect(() => parse_selector('tag:')).toThrow('Missing value for selector key "tag"');
+        expect(() => parse_selector('enabled:maybe')).toThrow('only accepts true or false');
+        expect(() => parse_selector('(tag:LIB')).toThrow('Missing closing parenthesis');
+        expect(() => parse_selector('tag:LIB and')).toThrow('Selector ends unexpectedly');
+        expect(() => parse_selector('or tag:LIB')).toThrow('Unexpected "or"');
+        expect(() => parse_selector('tag:LIB )')).toThrow('Unexpected ")"');
+    });
+});
+
+describe('select_mods', () => {
+    test('selects all listed ids', () => {
+        expect(select('journeymap gregtech')).toEqual(['journeymap', 'gregtech']);
+    });
+
+    test('matches globs case-insensitively, including other mod ids', () => {
+        expect(select('*SKIN_API')).toEqual(['appleskin']);
+        expect(select('tag:side.* and not tag:side.server')).toEqual(['journeymap']);
+        expect(select('g?egtech')).toEqual(['gregtech']);
+    });
+
+    test('matches sources, frequencies & the enabled state', () => {
+        expect(select('source:github')).toEqual(['gregtech', 'hodgepodge']);
+        expect(select('frequency:RARE or source:MODRINTH')).toEqual(['journeymap', 'appleskin']);
+        expect(select('enabled:false')).toEqual(['gregtech']);
+    });
+
+    test('groups with parentheses', () => {
+        expect(select('source:GITHUB and (tag:LIB or enabled:false)')).toEqual(['gregtech', 'hodgepodge']);
+        expect(select('not (source:GITHUB or tag:CONTENT)')).toEqual(['journeymap', 'appleskin']);
+    });
+});
+
+describe('tags_to_selector', () => {
+    test('needs one of the included tags and none of the excluded ones', () => {
+        expect(select_mods(mod_map, tags_to_selector(['CONTENT', 'LIB'])!)).toEqual(['gregtech', 'hodgepodge']);
+        expect(select_mods(mod_map, tags_to_selector([], ['SIDE.SERVER'])!)).toEqual(['journeymap']);
+        expect(select_mods(mod_map, tags_to_selector(['SIDE.SERVER'], ['LIB', 'CONTENT'])!)).toEqual(['appleskin']);
+    });
+
+    test('selects nothing without tags', () => {
+        expect(tags_to_selector()).toBeUndefined();
+        expect(tags_to_selector([], [])).toBeUndefined();
+    });
+
+    test('matches tag prefixes as globs', () => {
+        expect(select_mods(mod_map, tag_selector('SIDE.*'))).toEqual(['journeymap', 'appleskin', 'gregtech', 'hodgepodge']);
+        // The dot is no wildcard
+        expect(select_mods(mod_map, tag_selector('SIDE.CLIENT*'))).toEqual(['journeymap', 'appleskin', 'gregtech', 'hodgepodge']);
+        expect(select_mods(mod_map, tag_selector('SIDEXCLIENT*'))).toEqual([]);
+    });
+});
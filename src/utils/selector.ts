@@ -0,0 +1,173 @@
+import type { mod_object } from './mods';
+
+//#region types
+const SELECTOR_KEYS = ['id', 'tag', 'source', 'frequency', 'enabled'] as const;
+type selector_key = (typeof SELECTOR_KEYS)[number];
+
+/**
+ * A parsed selector expression, like "tag:SIDE.CLIENT and not source:OTHER"
+ */
+export type selector_node =
+    | { type: 'term'; key: selector_key; pattern: RegExp }
+    | { type: 'not'; operand: selector_node }
+    | { type: 'and' | 'or'; operands: selector_node[] };
+
+function is_selector_key(val: string): val is selector_key {
+    return (SELECTOR_KEYS as readonly string[]).includes(val);
+}
+
+//#region parsing
+/**
+ * Turn a glob with * and ? into an anchored, case-insensitive regex
+ */
+function glob_to_regex(glob: string): RegExp {
+    const escaped = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replaceAll('*', '.*').replaceAll('?', '.');
+    return new RegExp(`^${escaped}$`, 'i');
+}
+
+function parse_term(token: string): selector_node {
+    const separator = token.indexOf(':');
+    // Bare words are mod ids
+    const key = separator == -1 ? 'id' : token.slice(0, separator).toLowerCase();
+    const value = separator == -1 ? token : token.slice(separator + 1);
+    if (!is_selector_key(key)) {
+        throw Error(`Unknown selector key "${key}", expected one of: ${SELECTOR_KEYS.join(', ')}`);
+    } else if (value.length == 0) {
+        throw Error(`Missing value for selector key "${key}"`);
+    } else if (key === 'enabled' && !['true', 'false'].includes(value.toLowerCase())) {
+        throw Error(`Selector key "enabled" only accepts true or false, got "${value}"`);
+    }
+    return { type: 'term', key, pattern: glob_to_regex(value) };
+}
+
+/**
+ * Parse a selector expression.
+ * Terms are key:value pairs (id, tag, source, frequency, enabled), where values can be globs, and bare words are ids.
+ * They can be combined with and, or, not & parentheses. Terms that are just listed after each other are or'ed,
+ * so a plain list of mod ids selects all of them.
+ * @throws If the expression is malformed
+ */
+export function parse_selector(expression: string): selector_node {
+    const tokens = expression
+        .replace(/[()]/g, ' $& ')
+        .split(/\s+/)
+        .filter((token) => token.length > 0);
+    if (tokens.length == 0) throw Error('Selector is empty');
+
+    let pos = 0;
+    const peek = () => tokens[pos]?.toLowerCase();
+    const combine = (type: 'and' | 'or', operands: selector_node[]): selector_node => (operands.length == 1 ? (operands[0] as selector_node) : { type, operands });
+
+    const parse_list = (): selector_node => {
+        const operands = [parse_or()];
+        while (pos < tokens.length && peek() !== ')') operands.push(parse_or());
+        return combine('or', operands);
+    };
+    const parse_or = (): selector_node => {
+        const operands = [parse_and()];
+        while (peek() === 'or') {
+            pos++;
+            operands.push(parse_and());
+        }
+        return combine('or', operands);
+    };
+    const parse_and = (): selector_node => {
+        const operands = [parse_not()];
+        while (peek() === 'and') {
+            pos++;
+            operands.push(parse_not());
+        }
+        return combine('and', operands);
+    };
+    const parse_not = (): selector_node => {
+        if (peek() === 'not') {
+            pos++;
+            return { type: 'not', operand: parse_not() };
+        }
+        return parse_primary();
+    };
+    const parse_primary = (): selector_node => {
+        const token = tokens[pos++];
+        if (token == undefined) throw Error('Selector ends unexpectedly');
+        if (token === '(') {
+            const node = parse_list();
+            if (tokens[pos++] !== ')') throw Error('Missing closing parenthesis in selector');
+            return node;
+        } else if ([')', 'and', 'or'].includes(token.toLowerCase())) {
+            throw Error(`Unexpected "${token}" in selector`);
+        }
+        return parse_term(token);
+    };
+
+    const node = parse_list();
+    if (pos < tokens.length) throw Error(`Unexpected "${tokens[pos]}" in selector`);
+    return node;
+}
+
+/**
+ * Build a selector for a single tag, which can be a glob like in selector expressions
+ */
+export function tag_selector(tag: string): selector_node {
+    return { type: 'term', key: 'tag', pattern: glob_to_regex(tag) };
+}
+
+/**
+ * Build a selector from the include & exclude tag lists of configs and options:
+ * mods need any of the include tags (if there are any), and none of the exclude tags
+ * @returns The selector, or undefined if both lists are empty, since every mod matches then
+ */
+export function tags_to_selector(include_tags: string[] = [], exclude_tags: string[] = []): selector_node | undefined {
+    const operands: selector_node[] = [];
+    if (include_tags.length > 0) operands.push({ type: 'or', operands: include_tags.map(tag_selector) });
+    if (exclude_tags.length > 0) operands.push({ type: 'not', operand: { type: 'or', operands: exclude_tags.map(tag_selector) } });
+    return operands.length > 1 ? { type: 'and', operands } : operands[0];
+}
+
+/**
+ * Parse a selector from command arguments, printing why if it is invalid
+ * @returns The selector, or undefined if it could not be parsed
+ */
+export function parse_selector_args(args: string[]): selector_node | undefined {
+    try {
+        return parse_selector(args.join(' '));
+    } catch (err) {
+        console.error(`Error: ${(err as Error).message}`);
+        return undefined;
+    }
+}
+
+//#region matching
+export function matches_selector(node: selector_node, mod_id: string, mod: mod_object): boolean {
+    switch (node.type) {
+        case 'not':
+            return !matches_selector(node.operand, mod_id, mod);
+        case 'and':
+            return node.operands.every((operand) => matches_selector(operand, mod_id, mod));
+        case 'or':
+            return node.operands.some((operand) => matches_selector(operand, mod_id, mod));
+    }
+
+    switch (node.key) {
+        case 'id':
+            return [mod_id, ...(mod.other_mod_ids ?? [])].some((id) => node.pattern.test(id));
+        case 'tag':
+            return (mod.tags ?? []).some((tag) => node.pattern.test(tag));
+        case 'source':
+            return node.pattern.test(mod.update_state.source_type);
+        case 'frequency':
+            return node.pattern.test(mod.update_state.frequency);
+        case 'enabled':
+            return node.pattern.test(String(mod.enabled ?? false));
+    }
+}
+
+/**
+ * Get the ids of all mods matching a selector
+ */
+export function select_mods(mod_map: Map<string, mod_object>, selector: selector_node): string[] {
+    return mod_map
+        .entries()
+        .filter(([mod_id, mod]) => matches_selector(selector, mod_id, mod))
+        .map(([mod_id]) => mod_id)
+        .toArray();
+}
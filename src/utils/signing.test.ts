@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'bun:test';
+import { decode_public_key, decode_secret_key, encode_public_key, encode_secret_key, generate_signing_key, is_same_key, sign_detached, verify_detached } from './signing';
+
+const manifest = new TextEncoder().encode('{"version": 1, "files": []}');
+
+describe('signify keys', () => {
+    test('survive encoding and decoding', () => {
+        const key = generate_signing_key();
+        const decoded = decode_secret_key(`untrusted comment: signify secret key\n${encode_secret_key(key)}\n`);
+        expect(decoded.seed.equals(key.seed)).toBe(true);
+        expect(is_same_key(decoded, key)).toBe(true);
+        expect(is_same_key(decode_public_key('signify ' + encode_public_key(key)), key)).toBe(true);
+    });
+
+    test('reject damaged secret keys', () => {
+        const blob = Buffer.from(encode_secret_key(generate_signing_key()), 'base64');
+        blob[blob.length - 1] = (blob[blob.length - 1] as number) ^ 0xff;
+        expect(() => decode_secret_key(blob.toString('base64'))).toThrow('failed its checksum');
+        expect(() => decode_secret_key('dGVzdA==')).toThrow('not a signify Ed25519 secret key');
+    });
+
+    test('reject secret keys with a passphrase', () => {
+        const blob = Buffer.from(encode_secret_key(generate_signing_key()), 'base64');
+        blob.writeUInt32BE(42, 4);
+        expect(() => decode_secret_key(blob.toString('base64'))).toThrow('protected by a passphrase');
+    });
+});
+
+describe('signify signatures', () => {
+    test('verify with the key that made them', () => {
+        const key = generate_signing_key();
+        const signature = sign_detached(manifest, key, 'manifest.json');
+        expect(signature).toStartWith('untrusted comment: signature of manifest.json\n');
+        expect(verify_detached(manifest, signature, decode_public_key(encode_public_key(key)))).toBeUndefined();
+    });
+
+    test('reject changed data', () => {
+        const key = generate_signing_key();
+        const signature = sign_detached(manifest, key, 'manifest.json');
+        expect(verify_detached(new TextEncoder().encode('{"version": 2, "files": []}'), signature, key)).toBe('does not match the file');
+    });
+
+    test('reject other keys', () => {
+        const signature = sign_detached(manifest, generate_signing_key(), 'manifest.json');
+        expect(verify_detached(manifest, signature, generate_signing_key())).toStartWith('was made by key');
+        expect(verify_detached(manifest, 'untrusted comment: nothing\ndGVzdA==', generate_signing_key())).toBe('is not a signify Ed25519 signature');
+    });
+});
@@ -0,0 +1,110 @@
+import { createHash, createPrivateKey, createPublicKey, randomBytes, sign, verify } from 'node:crypto';
+
+// unsup checks manifests against signify (OpenBSD) style Ed25519 keys, with the detached signature at <manifest url>.sig
+const SIGNIFY_ALGORITHM = 'Ed';
+const SIGNIFY_KDF_ALGORITHM = 'BK';
+// DER headers that turn the raw key bytes into keys node:crypto can import
+const PKCS8_ED25519_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+const SPKI_ED25519_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+export interface verify_key {
+    // Random id that ties signatures to the key that made them
+    key_number: Buffer;
+    public_key: Buffer;
+}
+
+export interface signing_key extends verify_key {
+    seed: Buffer;
+}
+
+//#region keys
+export function generate_signing_key(): signing_key {
+    const seed = randomBytes(32);
+    const public_key = createPublicKey(createPrivateKey({ key: Buffer.concat([PKCS8_ED25519_PREFIX, seed]), format: 'der', type: 'pkcs8' }))
+        .export({ format: 'der', type: 'spki' })
+        .subarray(SPKI_ED25519_PREFIX.length);
+    return { key_number: randomBytes(8), public_key, seed };
+}
+
+/**
+ * Encode a secret key the way signify stores it without a passphrase, minus the comment line
+ */
+export function encode_secret_key(key: signing_key): string {
+    const secret_key = Buffer.concat([key.seed, key.public_key]);
+    const checksum = createHash('sha512').update(secret_key).digest().subarray(0, 8);
+    const kdf_rounds = Buffer.alloc(4);
+    return Buffer.concat([
+        Buffer.from(SIGNIFY_ALGORITHM),
+        Buffer.from(SIGNIFY_KDF_ALGORITHM),
+        kdf_rounds,
+        Buffer.alloc(16),
+        checksum,
+        key.key_number,
+        secret_key,
+    ]).toString('base64');
+}
+
+/**
+ * @param text A signify secret key without a passphrase, with or without its comment line
+ * @throws If the key is malformed or protected by a passphrase
+ */
+export function decode_secret_key(text: string): signing_key {
+    const blob = Buffer.from(strip_comment(text), 'base64');
+    if (blob.length != 104 || blob.toString('latin1', 0, 2) !== SIGNIFY_ALGORITHM) throw Error('Signing key is not a signify Ed25519 secret key.');
+    if (blob.readUInt32BE(4) != 0) throw Error('Signing key is protected by a passphrase, which is not supported.');
+
+    const secret_key = blob.subarray(40, 104);
+    if (!createHash('sha512').update(secret_key).digest().subarray(0, 8).equals(blob.subarray(24, 32))) {
+        throw Error('Signing key failed its checksum.');
+    }
+    return { key_number: blob.subarray(32, 40), seed: secret_key.subarray(0, 32), public_key: secret_key.subarray(32) };
+}
+
+/**
+ * Encode a public key the way signify and unsup's public_key expect it, minus the "signify " prefix
+ */
+export function encode_public_key(key: verify_key): string {
+    return Buffer.concat([Buffer.from(SIGNIFY_ALGORITHM), key.key_number, key.public_key]).toString('base64');
+}
+
+/**
+ * @param text A signify public key, optionally prefixed with "signify " like in unsup.ini
+ * @throws If the key is malformed
+ */
+export function decode_public_key(text: string): verify_key {
+    const blob = Buffer.from(strip_comment(text).replace(/^signify\s+/m, ''), 'base64');
+    if (blob.length != 42 || blob.toString('latin1', 0, 2) !== SIGNIFY_ALGORITHM) throw Error('Public key is not a signify Ed25519 public key.');
+    return { key_number: blob.subarray(2, 10), public_key: blob.subarray(10) };
+}
+
+export function is_same_key(a: verify_key, b: verify_key): boolean {
+    return a.key_number.equals(b.key_number) && a.public_key.equals(b.public_key);
+}
+
+//#region signatures
+/**
+ * Sign some data, and return the contents of its signify .sig file
+ */
+export function sign_detached(data: Uint8Array, key: signing_key, file_name: string): string {
+    const private_key = createPrivateKey({ key: Buffer.concat([PKCS8_ED25519_PREFIX, key.seed]), format: 'der', type: 'pkcs8' });
+    const signature = sign(null, data, private_key);
+    const blob = Buffer.concat([Buffer.from(SIGNIFY_ALGORITHM), key.key_number, signature]).toString('base64');
+    return `untrusted comment: signature of ${file_name}\n${blob}\n`;
+}
+
+/**
+ * Check a signify .sig file against some data
+ * @returns Why the signature was rejected, or undefined if it is valid
+ */
+export function verify_detached(data: Uint8Array, signature_text: string, key: verify_key): string | undefined {
+    const blob = Buffer.from(strip_comment(signature_text), 'base64');
+    if (blob.length != 74 || blob.toString('latin1', 0, 2) !== SIGNIFY_ALGORITHM) return 'is not a signify Ed25519 signature';
+    if (!blob.subarray(2, 10).equals(key.key_number)) return `was made by key ${blob.toString('hex', 2, 10)}, not ${key.key_number.toString('hex')}`;
+
+    const public_key = createPublicKey({ key: Buffer.concat([SPKI_ED25519_PREFIX, key.public_key]), format: 'der', type: 'spki' });
+    return verify(null, data, public_key, blob.subarray(10)) ? undefined : 'does not match the file';
+}
+
+function strip_comment(text: string): string {
+    return text.replace(/^untrusted comment:.*$/m, '').trim();
+}
@@ -30,6 +30,62 @@ export function parse_gh_url(url: string):
     };
 }
 
+const MR_PROJECT_URL_PATTERN =
+    /(?:api\.modrinth\.com\/v2\/project|modrinth\.com\/(?:mod|plugin|datapack|resourcepack|shader|modpack|project))\/(?<project>[^\/?#]+)(?:\/version\/(?<version>[^\/?#]+))?/m;
+const MR_CDN_URL_PATTERN = /cdn\.modrinth\.com\/data\/(?<project>[^\/]+)\/versions\/(?<version>[^\/]+)\/(?<file>[^\/?#]+)/m;
+
+/**
+ * Parse a modrinth project page, version page, api or cdn url into its parts.
+ * The project might be a slug or an id, both are accepted by the api.
+ */
+export function parse_mr_url(url: string):
+    | {
+          project: string;
+          version?: string;
+          file?: string;
+      }
+    | undefined {
+    const match = url.match(MR_CDN_URL_PATTERN) ?? url.match(MR_PROJECT_URL_PATTERN);
+
+    if (match == null || match.groups == undefined) {
+        return undefined;
+    }
+
+    return {
+        project: match.groups['project'] as string,
+        version: match.groups['version'] as string | undefined,
+        file: match.groups['file'] as string | undefined,
+    };
+}
+
+const CF_PROJECT_URL_PATTERN =
+    /curseforge\.com\/minecraft\/(?:mc-mods|bukkit-plugins|texture-packs|customization|modpacks)\/(?<slug>[^\/?#]+)(?:\/(?:files|download)\/(?<file>\d+))?/m;
+const CF_API_URL_PATTERN = /api\.curseforge\.com\/v1\/mods\/(?<id>\d+)(?:\/files\/(?<file>\d+))?/m;
+
+/**
+ * Parse a curseforge project page, file page or api url into its parts.
+ * Project pages only carry the slug, while api urls only carry the numeric id.
+ */
+export function parse_cf_url(url: string):
+    | {
+          slug?: string;
+          id?: string;
+          file?: string;
+      }
+    | undefined {
+    const match = url.match(CF_API_URL_PATTERN) ?? url.match(CF_PROJECT_URL_PATTERN);
+
+    if (match == null || match.groups == undefined) {
+        return undefined;
+    }
+
+    return {
+        slug: match.groups['slug'] as string | undefined,
+        id: match.groups['id'] as string | undefined,
+        file: match.groups['file'] as string | undefined,
+    };
+}
+
 // GitHub PR URL base pattern - matches the URL up to and including the PR number
 const GH_URL = String.raw`https:\/\/github\.com\/(?:repos\/)?[^\/]+\/[^\/]+\/pull\/\d+`;
 
@@ -156,6 +156,8 @@ export function print_pretty(...args: [string, string[]][]) {
         for (const text of full_arr) {
             lengths[i] = Math.max(lengths[i] || 0, text.length);
         }
+        // Also fit the footer, which can be longer than short headers
+        lengths[i] = Math.max(lengths[i] || 0, ('(' + array.length + ' items)').length);
         lines.push(full_arr);
         max_size = Math.max(max_size, array.length);
         i++;